@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { getActivity, getProjects, Activity, Project } from "../services/api";
+import React from "react";
+import { useSearchParams } from "react-router";
+
+const TYPES = ['project', 'host', 'file', 'version', 'member', 'token', 'data', 'assistant'];
+
+/**
+ * Summarize the details of an activity entry in one line
+ */
+const describe = (activity: Activity): string => {
+    const d = activity.details as Record<string, any>;
+    switch (activity.type) {
+        case 'file.write':
+        case 'file.upload':
+        case 'file.delete':
+            return d.path;
+        case 'host.transfer':
+            return `${d.host} from project ${d.sourceProjectId} to ${d.targetProjectId}`;
+        case 'member.set':
+            return `${d.username} as ${d.role}`;
+        case 'member.remove':
+            return d.username;
+        case 'version.create':
+            return `Version ${d.number}`;
+        case 'version.publish':
+            return d.versionId === null ? 'Unpublished' : `Version ID ${d.versionId}`;
+        case 'assistant.run':
+            return `"${d.prompt}" (${(d.toolCalls ?? []).map((c: any) => c.path ? `${c.tool} ${c.path}` : c.tool).join(', ') || 'no tools'})`;
+        default:
+            return JSON.stringify(d);
+    }
+};
+
+const ActivityTimeline: React.FC<{}> = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const projectId = searchParams.get('projectId') || '';
+    const type = searchParams.get('type') || '';
+
+    const [loading, setLoading] = useState(true);
+    const [activity, setActivity] = useState<Activity[]>([]);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getProjects().then(setProjects).catch(() => setProjects([]));
+    }, []);
+
+    useEffect(() => {
+        const loadActivity = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                setActivity(await getActivity({
+                    projectId: projectId ? Number.parseInt(projectId) : undefined,
+                    type: type || undefined,
+                    limit: 200
+                }));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to load activity');
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadActivity();
+    }, [projectId, type]);
+
+    const setFilter = (key: string, value: string) => {
+        const next = new URLSearchParams(searchParams);
+        if (value) {
+            next.set(key, value);
+        } else {
+            next.delete(key);
+        }
+        setSearchParams(next);
+    };
+
+    const projectName = (id: number | null) => {
+        if (id === null) return '';
+        return projects.find(p => p.id === id)?.name ?? `#${id}`;
+    };
+
+    return (
+        <div className="p-4">
+            <h2 className="text-xl font-bold mb-4">Activity</h2>
+
+            <div className="flex gap-3 mb-4">
+                <select
+                    value={projectId}
+                    onChange={(e) => setFilter('projectId', e.target.value)}
+                    className="p-2 border border-gray-300 rounded"
+                >
+                    <option value="">All projects</option>
+                    {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <select
+                    value={type}
+                    onChange={(e) => setFilter('type', e.target.value)}
+                    className="p-2 border border-gray-300 rounded"
+                >
+                    <option value="">All types</option>
+                    {TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+            </div>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    Error: {error}
+                </div>
+            )}
+
+            {loading && activity.length === 0 && (
+                <div className="text-gray-600 p-4">Loading activity...</div>
+            )}
+
+            {!loading && activity.length === 0 && (
+                <div className="text-gray-500 p-3">No activity recorded.</div>
+            )}
+
+            <ol className="list-none m-0 p-0 border-l-2 border-gray-300">
+                {activity.map(a => (
+                    <li key={a.id} className="ml-4 mb-3 text-sm">
+                        <div className="text-gray-500">
+                            {new Date(a.createdAt).toLocaleString()}
+                            {a.projectId !== null && ` · ${projectName(a.projectId)}`}
+                        </div>
+                        <div>
+                            <span className="font-semibold">{a.actor}</span>{' '}
+                            <span className="font-mono bg-gray-100 rounded px-1">{a.type}</span>{' '}
+                            <span className="text-gray-700 break-all">{describe(a)}</span>
+                        </div>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default ActivityTimeline;
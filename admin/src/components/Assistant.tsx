@@ -1,13 +1,51 @@
-import React, { useState, useEffect } from 'react';
-import { getProjects, sendAssistantPrompt, Project } from '../services/api';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    getProjects,
+    streamAssistantPrompt,
+    getConversations,
+    getConversationMessages,
+    deleteConversation,
+    Project,
+    Conversation,
+    ConversationMessage,
+    AssistantMode,
+    ToolCall
+} from '../services/api';
+import ChangeSetView from './ChangeSetView';
+import StagedFiles from './StagedFiles';
+
+const ToolCallList: React.FC<{ toolCalls: ToolCall[] }> = ({ toolCalls }) => {
+    if (toolCalls.length === 0) {
+        return null;
+    }
+
+    return (
+        <ul className="mt-2 text-xs text-gray-600 list-none p-0">
+            {toolCalls.map((call, idx) => (
+                <li key={idx} className="font-mono">
+                    {call.tool}{call.path && ` ${call.path}`}
+                </li>
+            ))}
+        </ul>
+    );
+};
 
 const Assistant: React.FC = () => {
     const [projects, setProjects] = useState<Project[]>([]);
     const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [conversationId, setConversationId] = useState<number | null>(null);
+    const [messages, setMessages] = useState<ConversationMessage[]>([]);
     const [prompt, setPrompt] = useState('');
-    const [response, setResponse] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // Reply and tool calls of the running prompt, shown as they arrive
+    const [streamText, setStreamText] = useState('');
+    const [streamToolCalls, setStreamToolCalls] = useState<ToolCall[]>([]);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [mode, setMode] = useState<AssistantMode>('apply');
+    // Reloads the proposed changes after a run
+    const [runCount, setRunCount] = useState(0);
 
     // Load projects on mount
     useEffect(() => {
@@ -25,6 +63,57 @@ const Assistant: React.FC = () => {
         fetchProjects();
     }, []);
 
+    const loadConversations = async (projectId: number) => {
+        try {
+            setConversations(await getConversations(projectId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load conversations');
+        }
+    };
+
+    // Load the conversations of the selected project
+    useEffect(() => {
+        setConversationId(null);
+        setMessages([]);
+        if (selectedProjectId) {
+            loadConversations(selectedProjectId);
+        }
+    }, [selectedProjectId]);
+
+    const handleSelectConversation = async (id: number) => {
+        setError(null);
+        try {
+            setMessages(await getConversationMessages(id));
+            setConversationId(id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load conversation');
+        }
+    };
+
+    const handleNewConversation = () => {
+        setConversationId(null);
+        setMessages([]);
+        setError(null);
+    };
+
+    const handleDeleteConversation = async (id: number) => {
+        if (!window.confirm('Are you sure you want to delete this conversation?')) {
+            return;
+        }
+
+        try {
+            await deleteConversation(id);
+            if (conversationId === id) {
+                handleNewConversation();
+            }
+            if (selectedProjectId) {
+                await loadConversations(selectedProjectId);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete conversation');
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -38,87 +127,224 @@ const Assistant: React.FC = () => {
             return;
         }
 
+        const sentPrompt = prompt;
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
         setLoading(true);
         setError(null);
-        setResponse(null);
+        setPrompt('');
+        setStreamText('');
+        setStreamToolCalls([]);
+
+        // Show the prompt right away, the reply is streamed below it
+        setMessages(prev => [...prev, {
+            id: -Date.now(),
+            conversationId: conversationId ?? 0,
+            role: 'user',
+            content: sentPrompt,
+            toolCalls: [],
+            changeSetId: null,
+            createdAt: new Date().toISOString()
+        }]);
 
         try {
-            const result = await sendAssistantPrompt(prompt, selectedProjectId);
-            setResponse(result.response);
+            let savedConversationId: number | undefined;
+            let runError: string | undefined;
+            let limitReached: string | undefined;
+            await streamAssistantPrompt(sentPrompt, selectedProjectId, conversationId ?? undefined, mode, (event) => {
+                switch (event.type) {
+                    case 'text':
+                        setStreamText(prev => prev + event.delta);
+                        break;
+                    case 'tool':
+                        setStreamToolCalls(prev => [...prev, { tool: event.tool, path: event.path }]);
+                        break;
+                    case 'done':
+                        savedConversationId = event.conversationId;
+                        limitReached = event.limitReached;
+                        break;
+                    case 'error':
+                        runError = event.details || event.error;
+                        if (event.usage) {
+                            runError += ` (${event.usage.totalTokens} tokens used)`;
+                        }
+                        break;
+                }
+            }, abortController.signal);
+
+            if (savedConversationId === undefined) {
+                throw new Error(runError || 'The Assistant stopped without a response');
+            }
+            setConversationId(savedConversationId);
+            setMessages(await getConversationMessages(savedConversationId));
+            await loadConversations(selectedProjectId);
+            if (limitReached) {
+                setError(limitReached);
+            }
         } catch (err: any) {
-            setError(err.message || 'Failed to get response from Assistant');
+            if (abortController.signal.aborted) {
+                setError('Run cancelled. Files changed before cancelling were kept.');
+            } else {
+                setError(err.message || 'Failed to get response from Assistant');
+            }
+            setPrompt(sentPrompt);
+            setMessages(prev => prev.filter(m => m.id >= 0));
         } finally {
+            abortControllerRef.current = null;
+            setRunCount(count => count + 1);
+            setStreamText('');
+            setStreamToolCalls([]);
             setLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // Cancel a running prompt when leaving the page
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
     return (
-        <div className="max-w-4xl mx-auto p-6">
+        <div className="max-w-6xl mx-auto p-6">
             <h1 className="text-3xl font-bold mb-6">AI Assistant</h1>
 
-            <form onSubmit={handleSubmit} className="space-y-4">
-                {/* Project Selection */}
+            {/* Project Selection */}
+            <div className="mb-4">
+                <label htmlFor="project" className="block text-sm font-medium mb-2">
+                    Select Project
+                </label>
+                <select
+                    id="project"
+                    value={selectedProjectId || ''}
+                    onChange={(e) => setSelectedProjectId(Number(e.target.value))}
+                    className="w-full p-2 border rounded-md"
+                    disabled={loading}
+                >
+                    {projects.map((project) => (
+                        <option key={project.id} value={project.id}>
+                            {project.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {/* Conversation List */}
                 <div>
-                    <label htmlFor="project" className="block text-sm font-medium mb-2">
-                        Select Project
-                    </label>
-                    <select
-                        id="project"
-                        value={selectedProjectId || ''}
-                        onChange={(e) => setSelectedProjectId(Number(e.target.value))}
-                        className="w-full p-2 border rounded-md"
+                    <button
+                        onClick={handleNewConversation}
                         disabled={loading}
+                        className="w-full bg-gray-500 text-white py-2 px-4 rounded-md mb-2 disabled:bg-gray-300"
                     >
-                        {projects.map((project) => (
-                            <option key={project.id} value={project.id}>
-                                {project.name}
-                            </option>
+                        New Conversation
+                    </button>
+                    <ul className="list-none m-0 p-0 bg-white border border-gray-300 rounded max-h-[32rem] overflow-y-auto">
+                        {conversations.length === 0 && (
+                            <li className="text-gray-500 p-3 text-sm">No conversations yet.</li>
+                        )}
+                        {conversations.map(c => (
+                            <li
+                                key={c.id}
+                                onClick={() => !loading && handleSelectConversation(c.id)}
+                                className={`py-2 px-3 text-sm cursor-pointer border-b border-gray-200 hover:bg-blue-100 flex gap-2 ${conversationId === c.id ? 'bg-blue-200' : ''}`}
+                            >
+                                <div className="flex-1">
+                                    <div className="break-words">{c.title}</div>
+                                    <div className="text-xs text-gray-500">{new Date(c.updatedAt).toLocaleString()}</div>
+                                </div>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); handleDeleteConversation(c.id); }}
+                                    className="text-red-600 text-xs"
+                                    title="Delete conversation"
+                                >
+                                    ✕
+                                </button>
+                            </li>
                         ))}
-                    </select>
+                    </ul>
                 </div>
 
-                {/* Prompt Input */}
-                <div>
-                    <label htmlFor="prompt" className="block text-sm font-medium mb-2">
-                        Your Prompt
-                    </label>
-                    <textarea
-                        id="prompt"
-                        value={prompt}
-                        onChange={(e) => setPrompt(e.target.value)}
-                        placeholder="Ask the AI to help with your project files..."
-                        rows={6}
-                        className="w-full p-2 border rounded-md font-mono"
-                        disabled={loading}
-                    />
-                </div>
-
-                {/* Submit Button */}
-                <button
-                    type="submit"
-                    disabled={loading || !selectedProjectId}
-                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
-                >
-                    {loading ? 'Processing...' : 'Just do it!'}
-                </button>
-            </form>
-
-            {/* Error Display */}
-            {error && (
-                <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
-                    <p className="text-red-800">{error}</p>
-                </div>
-            )}
-
-            {/* Response Display */}
-            {response && (
-                <div className="mt-6">
-                    <h2 className="text-xl font-semibold mb-3">Response</h2>
-                    <div className="p-4 bg-gray-50 border rounded-md">
-                        <pre className="whitespace-pre-wrap font-mono text-sm">{response}</pre>
+                {/* Chat */}
+                <div className="md:col-span-3">
+                    <div className="space-y-3 mb-4">
+                        {messages.length === 0 && (
+                            <div className="text-gray-500 p-4 border border-dashed rounded-md">
+                                Start a new conversation. Follow-up prompts keep the context of earlier ones.
+                            </div>
+                        )}
+                        {messages.map(m => (
+                            <div
+                                key={m.id}
+                                className={`p-4 border rounded-md ${m.role === 'user' ? 'bg-blue-50 ml-12' : 'bg-gray-50 mr-12'}`}
+                            >
+                                <pre className="whitespace-pre-wrap font-mono text-sm">{m.content}</pre>
+                                <ToolCallList toolCalls={m.toolCalls} />
+                                {m.changeSetId !== null && <ChangeSetView changeSetId={m.changeSetId} />}
+                            </div>
+                        ))}
+                        {loading && (
+                            <div className="p-4 bg-gray-50 border rounded-md mr-12">
+                                {streamText
+                                    ? <pre className="whitespace-pre-wrap font-mono text-sm">{streamText}</pre>
+                                    : <div className="text-gray-600">Processing...</div>}
+                                <ToolCallList toolCalls={streamToolCalls} />
+                            </div>
+                        )}
                     </div>
+
+                    {/* Error Display */}
+                    {error && (
+                        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+                            <p className="text-red-800">{error}</p>
+                        </div>
+                    )}
+
+                    {/* Prompt Input */}
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <textarea
+                            id="prompt"
+                            value={prompt}
+                            onChange={(e) => setPrompt(e.target.value)}
+                            placeholder={conversationId ? 'Follow up...' : 'Ask the AI to help with your project files...'}
+                            rows={4}
+                            className="w-full p-2 border rounded-md font-mono"
+                            disabled={loading}
+                        />
+
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={mode === 'propose'}
+                                onChange={(e) => setMode(e.target.checked ? 'propose' : 'apply')}
+                                disabled={loading}
+                            />
+                            Propose changes for review instead of applying them
+                        </label>
+
+                        {/* Submit and Cancel Buttons */}
+                        {loading ? (
+                            <button
+                                type="button"
+                                onClick={handleCancel}
+                                className="w-full bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700"
+                            >
+                                Cancel
+                            </button>
+                        ) : (
+                            <button
+                                type="submit"
+                                disabled={!selectedProjectId}
+                                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            >
+                                Just do it!
+                            </button>
+                        )}
+                    </form>
+
+                    {selectedProjectId && <StagedFiles projectId={selectedProjectId} refreshKey={runCount} />}
                 </div>
-            )}
+            </div>
         </div>
     );
 };
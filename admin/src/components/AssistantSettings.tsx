@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { getAssistantSettings, updateAssistantSettings, getAssistantRuns, AssistantSettingsResponse, AssistantRun } from "../services/api";
+import React from "react";
+import { useParams } from "react-router";
+
+const AssistantSettings: React.FC<{}> = () => {
+    const { id } = useParams();
+    const projectId = Number.parseInt(id || '');
+    const [loading, setLoading] = useState(true);
+    const [data, setData] = useState<AssistantSettingsResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    // Form values, empty fields use the server defaults
+    const [model, setModel] = useState('');
+    const [temperature, setTemperature] = useState('');
+    const [maxTurns, setMaxTurns] = useState('');
+    const [maxFilesPerRun, setMaxFilesPerRun] = useState('');
+    const [maxBytesPerRun, setMaxBytesPerRun] = useState('');
+    const [maxTokensPerRun, setMaxTokensPerRun] = useState('');
+    // One glob pattern per line
+    const [protectedPaths, setProtectedPaths] = useState('');
+    const [instructions, setInstructions] = useState('');
+    const [runs, setRuns] = useState<AssistantRun[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadSettings = async (projectId: number) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const data = await getAssistantSettings(projectId);
+            setData(data);
+            setModel(data.settings.model ?? '');
+            setTemperature(data.settings.temperature?.toString() ?? '');
+            setMaxTurns(data.settings.maxTurns?.toString() ?? '');
+            setMaxFilesPerRun(data.settings.maxFilesPerRun?.toString() ?? '');
+            setMaxBytesPerRun(data.settings.maxBytesPerRun?.toString() ?? '');
+            setMaxTokensPerRun(data.settings.maxTokensPerRun?.toString() ?? '');
+            setProtectedPaths(data.settings.protectedPaths.join('\n'));
+            setInstructions(data.settings.instructions ?? '');
+            setRuns(await getAssistantRuns(projectId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load settings');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSettings(projectId);
+    }, [projectId]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+        setMessage(null);
+        try {
+            await updateAssistantSettings(projectId, {
+                model: model.trim() || null,
+                temperature: temperature.trim() ? Number(temperature) : null,
+                maxTurns: maxTurns.trim() ? Number(maxTurns) : null,
+                maxFilesPerRun: maxFilesPerRun.trim() ? Number(maxFilesPerRun) : null,
+                maxBytesPerRun: maxBytesPerRun.trim() ? Number(maxBytesPerRun) : null,
+                maxTokensPerRun: maxTokensPerRun.trim() ? Number(maxTokensPerRun) : null,
+                protectedPaths: protectedPaths.split('\n').map(p => p.trim()).filter(p => p),
+                instructions: instructions.trim() || null
+            });
+            setMessage('Settings saved');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save settings');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (Number.isNaN(projectId)) {
+        return <div className="text-red-600 p-4">Invalid project id: {id}</div>;
+    }
+
+    if (loading && !data) {
+        return <div className="text-gray-600 p-4">Loading settings...</div>;
+    }
+
+    return (
+        <div className="p-4 max-w-xl">
+            <h2 className="text-xl font-bold mb-4">Assistant Settings</h2>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    Error: {error}
+                </div>
+            )}
+            {message && (
+                <div className="text-green-700 p-3 bg-green-50 border border-green-200 rounded mb-3">{message}</div>
+            )}
+
+            {data && (
+                <p className="text-sm text-gray-600 mb-4">
+                    Leave a field empty to use the server default. The server uses the {data.defaults.provider} provider.
+                </p>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <div>
+                    <label htmlFor="instructions" className="block text-sm font-medium mb-1">Instructions</label>
+                    <textarea
+                        id="instructions"
+                        rows={8}
+                        value={instructions}
+                        onChange={(e) => setInstructions(e.target.value)}
+                        placeholder="Brand rules and guidelines the Assistant follows for every change"
+                        className="w-full p-2 text-sm font-mono border border-gray-300 rounded"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        The content of <code>_assistant.md</code> in the project is added to these instructions.
+                    </p>
+                </div>
+                <div>
+                    <label htmlFor="model" className="block text-sm font-medium mb-1">Model</label>
+                    <input
+                        id="model"
+                        type="text"
+                        value={model}
+                        onChange={(e) => setModel(e.target.value)}
+                        placeholder={data?.defaults.model ?? ''}
+                        className="w-full p-2 text-sm border border-gray-300 rounded"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="temperature" className="block text-sm font-medium mb-1">Temperature</label>
+                    <input
+                        id="temperature"
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={temperature}
+                        onChange={(e) => setTemperature(e.target.value)}
+                        placeholder={data?.defaults.temperature?.toString() ?? 'model default'}
+                        className="w-full p-2 text-sm border border-gray-300 rounded"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="maxTurns" className="block text-sm font-medium mb-1">Max turns</label>
+                    <input
+                        id="maxTurns"
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={maxTurns}
+                        onChange={(e) => setMaxTurns(e.target.value)}
+                        placeholder={data?.defaults.maxTurns?.toString() ?? ''}
+                        className="w-full p-2 text-sm border border-gray-300 rounded"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="maxFilesPerRun" className="block text-sm font-medium mb-1">Max files per run</label>
+                    <input
+                        id="maxFilesPerRun"
+                        type="number"
+                        min={1}
+                        value={maxFilesPerRun}
+                        onChange={(e) => setMaxFilesPerRun(e.target.value)}
+                        placeholder={data?.defaults.maxFilesPerRun?.toString() ?? 'unlimited'}
+                        className="w-full p-2 text-sm border border-gray-300 rounded"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="maxBytesPerRun" className="block text-sm font-medium mb-1">Max bytes written per run</label>
+                    <input
+                        id="maxBytesPerRun"
+                        type="number"
+                        min={1}
+                        value={maxBytesPerRun}
+                        onChange={(e) => setMaxBytesPerRun(e.target.value)}
+                        placeholder={data?.defaults.maxBytesPerRun?.toString() ?? 'unlimited'}
+                        className="w-full p-2 text-sm border border-gray-300 rounded"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="maxTokensPerRun" className="block text-sm font-medium mb-1">Max tokens per run</label>
+                    <input
+                        id="maxTokensPerRun"
+                        type="number"
+                        min={1}
+                        value={maxTokensPerRun}
+                        onChange={(e) => setMaxTokensPerRun(e.target.value)}
+                        placeholder={data?.defaults.maxTokensPerRun?.toString() ?? 'unlimited'}
+                        className="w-full p-2 text-sm border border-gray-300 rounded"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="protectedPaths" className="block text-sm font-medium mb-1">Protected paths</label>
+                    <textarea
+                        id="protectedPaths"
+                        rows={3}
+                        value={protectedPaths}
+                        onChange={(e) => setProtectedPaths(e.target.value)}
+                        placeholder={'_layout.html\napi/**'}
+                        className="w-full p-2 text-sm font-mono border border-gray-300 rounded"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">One glob pattern per line, the Assistant can read these files but not change them.</p>
+                </div>
+                <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-300"
+                >
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </form>
+
+            <h3 className="text-lg font-bold mt-6 mb-2">Recent Runs</h3>
+            {runs.length === 0 ? (
+                <p className="text-sm text-gray-500">No runs yet.</p>
+            ) : (
+                <table className="w-full text-sm border border-gray-300">
+                    <thead className="bg-gray-100 text-left">
+                        <tr>
+                            <th className="p-2">Date</th>
+                            <th className="p-2">Status</th>
+                            <th className="p-2">Model</th>
+                            <th className="p-2 text-right">Tokens</th>
+                            <th className="p-2 text-right">Files</th>
+                            <th className="p-2 text-right">Bytes</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {runs.map(run => (
+                            <tr key={run.id} className="border-t border-gray-200">
+                                <td className="p-2">{new Date(run.createdAt).toLocaleString()}</td>
+                                <td className="p-2">{run.status}{run.mode === 'propose' && ' (propose)'}</td>
+                                <td className="p-2 font-mono">{run.model}</td>
+                                <td className="p-2 text-right">{run.totalTokens}</td>
+                                <td className="p-2 text-right">{run.filesChanged}</td>
+                                <td className="p-2 text-right">{run.bytesWritten}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default AssistantSettings;
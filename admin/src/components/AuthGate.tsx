@@ -0,0 +1,75 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { getToken, getCurrentUser, logout, CurrentUser, UNAUTHORIZED_EVENT } from "../services/api";
+import Login from "./Login";
+
+interface AuthContextValue {
+    currentUser: CurrentUser;
+    logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * Get the logged in user, only available within the AuthGate
+ */
+export const useAuth = (): AuthContextValue => {
+    const value = useContext(AuthContext);
+    if (!value) {
+        throw new Error('useAuth must be used within an AuthGate');
+    }
+    return value;
+};
+
+/**
+ * Show the login screen until a user is logged in, then render the children
+ */
+const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+    const [loading, setLoading] = useState(getToken() !== null);
+
+    const loadCurrentUser = async () => {
+        setLoading(true);
+        try {
+            setCurrentUser(await getCurrentUser());
+        } catch {
+            setCurrentUser(null);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (getToken()) {
+            loadCurrentUser();
+        }
+
+        // Go back to the login screen when the session expires
+        const handleUnauthorized = () => setCurrentUser(null);
+        window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+        return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    }, []);
+
+    const handleLogout = async () => {
+        try {
+            await logout();
+        } finally {
+            setCurrentUser(null);
+        }
+    };
+
+    if (loading) {
+        return <div className="text-gray-600 p-4">Loading...</div>;
+    }
+
+    if (!currentUser) {
+        return <Login onLogin={loadCurrentUser} />;
+    }
+
+    return (
+        <AuthContext.Provider value={{ currentUser, logout: handleLogout }}>
+            {children}
+        </AuthContext.Provider>
+    );
+};
+
+export default AuthGate;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { getChangeSet, revertChangeSet, ChangeSet, RevertConflictError } from '../services/api';
+import FileDiffView from './FileDiffView';
+
+/**
+ * The files an Assistant run changed, with a diff per file and a button to revert them
+ */
+const ChangeSetView: React.FC<{ changeSetId: number }> = ({ changeSetId }) => {
+    const [changeSet, setChangeSet] = useState<ChangeSet | null>(null);
+    const [expanded, setExpanded] = useState(false);
+    const [reverting, setReverting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!expanded || changeSet) {
+            return;
+        }
+        getChangeSet(changeSetId)
+            .then(setChangeSet)
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to load changes'));
+    }, [expanded, changeSet, changeSetId]);
+
+    const handleRevert = async () => {
+        if (!window.confirm('Restore every file changed by this run to its previous content?')) {
+            return;
+        }
+
+        setReverting(true);
+        setError(null);
+        try {
+            setChangeSet(await revertChangeSet(changeSetId));
+        } catch (err) {
+            // Files edited after the run lose those edits, so they are only overwritten when confirmed
+            if (err instanceof RevertConflictError
+                && window.confirm(`These files changed since the run:\n${err.conflicts.join('\n')}\n\nOverwrite them anyway?`)) {
+                try {
+                    setChangeSet(await revertChangeSet(changeSetId, true));
+                } catch (forceErr) {
+                    setError(forceErr instanceof Error ? forceErr.message : 'Failed to revert changes');
+                }
+                return;
+            }
+            setError(err instanceof Error ? err.message : 'Failed to revert changes');
+        } finally {
+            setReverting(false);
+        }
+    };
+
+    return (
+        <div className="mt-2 text-sm">
+            <button onClick={() => setExpanded(!expanded)} className="text-blue-600 hover:underline">
+                {expanded ? 'Hide changes' : 'Review changes'}
+            </button>
+
+            {expanded && error && <p className="text-red-800 mt-2">{error}</p>}
+
+            {expanded && changeSet && (
+                <div className="mt-2 space-y-2">
+                    {changeSet.files.map(file => (
+                        <FileDiffView key={file.path} file={file} />
+                    ))}
+
+                    {changeSet.revertedAt ? (
+                        <p className="text-gray-600">Reverted {new Date(changeSet.revertedAt).toLocaleString()}</p>
+                    ) : (
+                        <button
+                            onClick={handleRevert}
+                            disabled={reverting}
+                            className="bg-red-600 text-white py-1 px-3 rounded-md hover:bg-red-700 disabled:bg-gray-400"
+                        >
+                            {reverting ? 'Reverting...' : 'Revert all'}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ChangeSetView;
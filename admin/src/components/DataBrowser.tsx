@@ -0,0 +1,288 @@
+import { useEffect, useState } from "react";
+import {
+    getDataCollections,
+    updateDataCollection,
+    deleteDataCollection,
+    getDataRecords,
+    putDataRecord,
+    deleteDataRecord,
+    DataCollectionsResponse,
+    DataRecord
+} from "../services/api";
+import React from "react";
+import { useParams } from "react-router";
+
+const DataBrowser: React.FC<{}> = () => {
+    const { id } = useParams();
+    const projectId = Number.parseInt(id || '');
+    const [loading, setLoading] = useState(true);
+    const [collections, setCollections] = useState<DataCollectionsResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Selected collection states
+    const [selectedCollection, setSelectedCollection] = useState<string | null>(null);
+    const [records, setRecords] = useState<DataRecord[]>([]);
+    const [loadingRecords, setLoadingRecords] = useState(false);
+
+    // Record editor states
+    const [newCollection, setNewCollection] = useState('');
+    const [recordKey, setRecordKey] = useState('');
+    const [recordValue, setRecordValue] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadCollections = async (projectId: number) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const data = await getDataCollections(projectId);
+            setCollections(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load collections');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const loadRecords = async (collection: string) => {
+        setLoadingRecords(true);
+        setError(null);
+        try {
+            setRecords(await getDataRecords(projectId, collection));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load records');
+        } finally {
+            setLoadingRecords(false);
+        }
+    };
+
+    useEffect(() => {
+        loadCollections(projectId);
+    }, [projectId]);
+
+    const handleSelectCollection = async (collection: string) => {
+        setSelectedCollection(collection);
+        setRecordKey('');
+        setRecordValue('');
+        await loadRecords(collection);
+    };
+
+    const handleCreateCollection = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newCollection.trim()) return;
+
+        try {
+            await updateDataCollection(projectId, newCollection.trim(), false);
+            setNewCollection('');
+            await loadCollections(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create collection');
+        }
+    };
+
+    const handleTogglePublic = async (collection: string, publicRead: boolean) => {
+        try {
+            await updateDataCollection(projectId, collection, publicRead);
+            await loadCollections(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update collection');
+        }
+    };
+
+    const handleDeleteCollection = async (collection: string) => {
+        if (!window.confirm(`Are you sure you want to delete the collection "${collection}" with all its records?`)) {
+            return;
+        }
+
+        try {
+            await deleteDataCollection(projectId, collection);
+            if (selectedCollection === collection) {
+                setSelectedCollection(null);
+                setRecords([]);
+            }
+            await loadCollections(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete collection');
+        }
+    };
+
+    const handleEditRecord = (record: DataRecord) => {
+        setRecordKey(record.key);
+        setRecordValue(JSON.stringify(record.value, null, 2));
+    };
+
+    const handleSaveRecord = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedCollection || !recordKey.trim()) return;
+
+        let value: unknown;
+        try {
+            value = JSON.parse(recordValue);
+        } catch {
+            setError('Value must be valid JSON');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            await putDataRecord(projectId, selectedCollection, recordKey.trim(), value);
+            setRecordKey('');
+            setRecordValue('');
+            await Promise.all([loadRecords(selectedCollection), loadCollections(projectId)]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save record');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteRecord = async (key: string) => {
+        if (!selectedCollection) return;
+        if (!window.confirm(`Are you sure you want to delete the record "${key}"?`)) {
+            return;
+        }
+
+        try {
+            await deleteDataRecord(projectId, selectedCollection, key);
+            await Promise.all([loadRecords(selectedCollection), loadCollections(projectId)]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete record');
+        }
+    };
+
+    if (Number.isNaN(projectId)) {
+        return <div className="text-red-600 p-4">Invalid project id: {id}</div>;
+    }
+
+    if (loading && !collections) {
+        return <div className="text-gray-600 p-4">Loading collections...</div>;
+    }
+
+    return (
+        <div className="p-4">
+            <div className="mb-4">
+                <h2 className="text-xl font-bold">Data Store</h2>
+                {collections && (
+                    <p className="text-gray-600">
+                        {(collections.usage.usedBytes / 1024).toFixed(2)} KB of {(collections.usage.quotaBytes / 1024).toFixed(0)} KB used
+                    </p>
+                )}
+            </div>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    Error: {error}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Collection List */}
+                <div>
+                    <h3 className="font-semibold mb-2">Collections</h3>
+                    <div className="max-h-96 overflow-y-auto bg-white border border-gray-300 rounded">
+                        <ul className="list-none m-0 p-0">
+                            {collections?.collections.map(c => (
+                                <li
+                                    key={c.name}
+                                    className={`py-2 px-3 hover:bg-blue-100 text-sm cursor-pointer border-b border-gray-200 flex items-center gap-2 ${selectedCollection === c.name ? 'bg-blue-200' : ''}`}
+                                    onClick={() => handleSelectCollection(c.name)}
+                                >
+                                    <span className="font-mono flex-1">{c.name}</span>
+                                    <span className="text-gray-600">{c.recordCount} records</span>
+                                    <label className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                                        <input
+                                            type="checkbox"
+                                            checked={c.publicRead}
+                                            onChange={(e) => handleTogglePublic(c.name, e.target.checked)}
+                                        />
+                                        Public
+                                    </label>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleDeleteCollection(c.name); }}
+                                        className="bg-red-600 text-white px-2 py-0.5 rounded"
+                                    >
+                                        Delete
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    <form onSubmit={handleCreateCollection} className="flex gap-3 mt-4">
+                        <input
+                            type="text"
+                            value={newCollection}
+                            onChange={(e) => setNewCollection(e.target.value)}
+                            placeholder="new-collection"
+                            className="flex-1 p-2 font-mono text-sm border border-gray-300 rounded"
+                        />
+                        <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded">
+                            Add Collection
+                        </button>
+                    </form>
+                </div>
+
+                {/* Records */}
+                <div>
+                    <h3 className="font-semibold mb-2">
+                        {selectedCollection ? `Records in ${selectedCollection}` : 'Select a collection'}
+                    </h3>
+
+                    {loadingRecords && (
+                        <div className="text-gray-600 p-4">Loading records...</div>
+                    )}
+
+                    {selectedCollection && !loadingRecords && (
+                        <>
+                            <div className="max-h-96 overflow-y-auto bg-white border border-gray-300 rounded mb-4">
+                                {records.length === 0 && (
+                                    <div className="text-gray-500 p-3">No records yet.</div>
+                                )}
+                                {records.map(r => (
+                                    <div key={r.key} className="py-2 px-3 border-b border-gray-200 text-sm">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-mono flex-1">{r.key}</span>
+                                            <button onClick={() => handleEditRecord(r)} className="bg-blue-500 text-white px-2 py-0.5 rounded">
+                                                Edit
+                                            </button>
+                                            <button onClick={() => handleDeleteRecord(r.key)} className="bg-red-600 text-white px-2 py-0.5 rounded">
+                                                Delete
+                                            </button>
+                                        </div>
+                                        <pre className="whitespace-pre-wrap font-mono text-xs text-gray-700">{JSON.stringify(r.value)}</pre>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <form onSubmit={handleSaveRecord}>
+                                <input
+                                    type="text"
+                                    value={recordKey}
+                                    onChange={(e) => setRecordKey(e.target.value)}
+                                    placeholder="Key"
+                                    className="w-full p-2 mb-2 font-mono text-sm border border-gray-300 rounded"
+                                />
+                                <textarea
+                                    value={recordValue}
+                                    onChange={(e) => setRecordValue(e.target.value)}
+                                    placeholder='{"name": "Larry Owen"}'
+                                    className="w-full h-32 p-3 font-mono text-sm border border-gray-300 rounded resize-none"
+                                    spellCheck={false}
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={isSaving || !recordKey.trim()}
+                                    className="bg-green-600 text-white px-4 py-2 rounded disabled:bg-gray-300"
+                                >
+                                    {isSaving ? 'Saving...' : 'Save Record'}
+                                </button>
+                            </form>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DataBrowser;
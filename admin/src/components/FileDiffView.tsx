@@ -0,0 +1,38 @@
+import React from 'react';
+import { FileDiff } from '../services/api';
+
+// Colors of the lines of a unified diff
+const diffLineClass = (line: string): string => {
+    if (line.startsWith('+')) {
+        return 'bg-green-100 text-green-900';
+    }
+    if (line.startsWith('-')) {
+        return 'bg-red-100 text-red-900';
+    }
+    if (line.startsWith('@@')) {
+        return 'text-blue-700';
+    }
+    return '';
+};
+
+/**
+ * A file change shown as a unified diff
+ */
+const FileDiffView: React.FC<{ file: FileDiff; children?: React.ReactNode }> = ({ file, children }) => (
+    <div className="border rounded-md bg-white">
+        <div className="px-3 py-1 border-b font-mono text-xs flex items-center gap-2">
+            <span className="flex-1">
+                {file.path} <span className="text-gray-500">({file.status})</span>
+            </span>
+            {children}
+        </div>
+        <pre className="text-xs font-mono overflow-x-auto p-0 m-0">
+            {/* The file name is shown above, skip the diff's file headers */}
+            {file.diff.trimEnd().split('\n').slice(2).map((line, idx) => (
+                <div key={idx} className={`px-3 ${diffLineClass(line)}`}>{line || ' '}</div>
+            ))}
+        </pre>
+    </div>
+);
+
+export default FileDiffView;
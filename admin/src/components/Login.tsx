@@ -0,0 +1,69 @@
+import React, { useState } from "react";
+import { login } from "../services/api";
+
+interface LoginProps {
+    onLogin: () => void;
+}
+
+const Login: React.FC<LoginProps> = ({ onLogin }) => {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isLoggingIn, setIsLoggingIn] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoggingIn(true);
+        setError(null);
+
+        try {
+            await login(username, password);
+            setPassword('');
+            onLogin();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to log in');
+        } finally {
+            setIsLoggingIn(false);
+        }
+    };
+
+    return (
+        <div className="p-4 max-w-sm mx-auto mt-16">
+            <h2 className="text-xl font-bold mb-4">SnapDash Login</h2>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    {error}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit}>
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                    autoComplete="username"
+                    className="w-full p-2 mb-2 border border-gray-300 rounded"
+                />
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password"
+                    autoComplete="current-password"
+                    className="w-full p-2 mb-2 border border-gray-300 rounded"
+                />
+                <button
+                    type="submit"
+                    disabled={isLoggingIn || !username || !password}
+                    className="bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-300"
+                >
+                    {isLoggingIn ? 'Logging in...' : 'Log in'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default Login;
@@ -1,14 +1,23 @@
 import React from "react";
 import { NavLink } from "react-router";
+import { useAuth } from "./AuthGate";
 
 const Navigation: React.FC = () => {
+    const { currentUser, logout } = useAuth();
+
     return (
         <nav className="flex">
             <span className="p-2">SnapDash</span>
             <NavLink to="/" end className="p-2">Home</NavLink>
             <NavLink to="/assistant" className="p-2">Assistant</NavLink>
+            <NavLink to="/activity" className="p-2">Activity</NavLink>
+            {currentUser.user.isAdmin && (
+                <NavLink to="/users" className="p-2">Users</NavLink>
+            )}
+            <span className="p-2 ml-auto text-gray-600">{currentUser.user.username}</span>
+            <button onClick={logout} className="p-2">Log out</button>
         </nav>
     );
 };
 
-export default Navigation;
\ No newline at end of file
+export default Navigation;
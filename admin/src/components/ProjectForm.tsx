@@ -11,6 +11,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSuccess, onCancel
     const [name, setName] = useState('');
     const [color, setColor] = useState('');
     const [hosts, setHosts] = useState<string[]>(['']);
+    const [previewHosts, setPreviewHosts] = useState<string[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -22,10 +23,12 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSuccess, onCancel
             setName(project.name);
             setColor(project.color);
             setHosts(project.hosts.length > 0 ? project.hosts : ['']);
+            setPreviewHosts(project.previewHosts);
         } else {
             setName('');
             setColor('');
             setHosts(['']);
+            setPreviewHosts([]);
         }
     }, [project]);
 
@@ -36,6 +39,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSuccess, onCancel
 
         // Filter out empty hosts
         const validHosts = hosts.filter(h => h.trim() !== '');
+        const validPreviewHosts = previewHosts.filter(h => h.trim() !== '');
 
         if (validHosts.length === 0) {
             setError('At least one host is required');
@@ -51,15 +55,17 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSuccess, onCancel
             };
 
             if (isEditMode) {
-                await updateProject(project.id, projectData);
+                await updateProject(project.id, { ...projectData, previewHosts: validPreviewHosts });
             } else {
-                await createProject(projectData);
+                // Without preview hosts, the server assigns the default preview host
+                await createProject(validPreviewHosts.length > 0 ? { ...projectData, previewHosts: validPreviewHosts } : projectData);
             }
 
             // Reset form
             setName('');
             setColor('');
             setHosts(['']);
+            setPreviewHosts([]);
 
             // Call success callback
             if (onSuccess) {
@@ -76,6 +82,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSuccess, onCancel
         setName('');
         setColor('');
         setHosts(['']);
+        setPreviewHosts([]);
         setError(null);
         if (onCancel) {
             onCancel();
@@ -99,6 +106,20 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSuccess, onCancel
         }
     };
 
+    const handlePreviewHostChange = (index: number, value: string) => {
+        const newPreviewHosts = [...previewHosts];
+        newPreviewHosts[index] = value;
+        setPreviewHosts(newPreviewHosts);
+    };
+
+    const handleAddPreviewHost = () => {
+        setPreviewHosts([...previewHosts, '']);
+    };
+
+    const handleRemovePreviewHost = (index: number) => {
+        setPreviewHosts(previewHosts.filter((_, i) => i !== index));
+    };
+
     return (
         <div className="border p-4 mb-4 rounded">
             <h1>{isEditMode ? 'Edit Project' : 'Create Project'}</h1>
@@ -166,6 +187,41 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSuccess, onCancel
                     </button>
                 </div>
 
+                <div className="mb-4">
+                    <label className="block mb-2">
+                        <strong>Preview Hosts:</strong>
+                    </label>
+                    <p className="text-sm text-gray-600 mb-2">
+                        Preview hosts serve the unpublished working copy.
+                        {!isEditMode && ' Leave empty to get the default preview host.'}
+                    </p>
+                    {previewHosts.map((host, index) => (
+                        <div key={index} className="flex mb-2">
+                            <input
+                                type="text"
+                                placeholder="preview-my-proj.example.com"
+                                value={host}
+                                onChange={(e) => handlePreviewHostChange(index, e.target.value)}
+                                className="border p-2 rounded flex-1 mr-2"
+                            />
+                            <button
+                                type="button"
+                                onClick={() => handleRemovePreviewHost(index)}
+                                className="bg-red-500 text-white px-3 py-2 rounded"
+                            >
+                                Remove
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={handleAddPreviewHost}
+                        className="bg-green-500 text-white px-4 py-2 rounded mt-2"
+                    >
+                        Add Preview Host
+                    </button>
+                </div>
+
                 <div className="flex gap-2">
                     <button
                         type="submit"
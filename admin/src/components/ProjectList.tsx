@@ -82,6 +82,11 @@ const ProjectList: React.FC<ProjectListProps> = ({ onEdit, refreshTrigger }) =>
                                                 {h}
                                             </span>
                                         ))}
+                                        {p.previewHosts.map((h, idx) => (
+                                            <span key={`preview-${idx}`} className="border border-dashed border-orange-400 text-orange-700 rounded px-2 py-0.5 mr-1 inline-block" title="Preview host (serves the working copy)">
+                                                {h}
+                                            </span>
+                                        ))}
                                     </td>
                                     <td>
                                         <Link
@@ -90,6 +95,42 @@ const ProjectList: React.FC<ProjectListProps> = ({ onEdit, refreshTrigger }) =>
                                         >
                                             Files
                                         </Link>
+                                        <Link
+                                            to={`/projects/${p.id}/versions`}
+                                            className="bg-gray-500 text-white px-3 py-1.5 rounded border-none cursor-pointer mr-2"
+                                        >
+                                            Versions
+                                        </Link>
+                                        <Link
+                                            to={`/projects/${p.id}/data`}
+                                            className="bg-gray-500 text-white px-3 py-1.5 rounded border-none cursor-pointer mr-2"
+                                        >
+                                            Data
+                                        </Link>
+                                        <Link
+                                            to={`/projects/${p.id}/members`}
+                                            className="bg-gray-500 text-white px-3 py-1.5 rounded border-none cursor-pointer mr-2"
+                                        >
+                                            Members
+                                        </Link>
+                                        <Link
+                                            to={`/projects/${p.id}/assistant`}
+                                            className="bg-gray-500 text-white px-3 py-1.5 rounded border-none cursor-pointer mr-2"
+                                        >
+                                            Assistant
+                                        </Link>
+                                        <Link
+                                            to={`/projects/${p.id}/tokens`}
+                                            className="bg-gray-500 text-white px-3 py-1.5 rounded border-none cursor-pointer mr-2"
+                                        >
+                                            Tokens
+                                        </Link>
+                                        <Link
+                                            to={`/activity?projectId=${p.id}`}
+                                            className="bg-gray-500 text-white px-3 py-1.5 rounded border-none cursor-pointer mr-2"
+                                        >
+                                            Activity
+                                        </Link>
                                         <button
                                             onClick={() => onEdit(p)}
                                             className="bg-blue-500 text-white px-3 py-1.5 rounded border-none cursor-pointer mr-2"
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { getProjectMembers, setProjectMember, removeProjectMember, ProjectMember, ProjectRole } from "../services/api";
+import React from "react";
+import { useParams } from "react-router";
+
+const ROLES: ProjectRole[] = ['viewer', 'editor', 'owner'];
+
+const ProjectMembers: React.FC<{}> = () => {
+    const { id } = useParams();
+    const projectId = Number.parseInt(id || '');
+    const [loading, setLoading] = useState(true);
+    const [members, setMembers] = useState<ProjectMember[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const [username, setUsername] = useState('');
+    const [role, setRole] = useState<ProjectRole>('viewer');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadMembers = async (projectId: number) => {
+        setLoading(true);
+        setError(null);
+        try {
+            setMembers(await getProjectMembers(projectId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load members');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadMembers(projectId);
+    }, [projectId]);
+
+    const handleSave = async (username: string, role: ProjectRole) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await setProjectMember(projectId, username, role);
+            await loadMembers(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save member');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!username.trim()) return;
+
+        await handleSave(username.trim(), role);
+        setUsername('');
+    };
+
+    const handleRemove = async (username: string) => {
+        if (!window.confirm(`Are you sure you want to remove ${username} from this project?`)) {
+            return;
+        }
+
+        try {
+            await removeProjectMember(projectId, username);
+            await loadMembers(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove member');
+        }
+    };
+
+    if (Number.isNaN(projectId)) {
+        return <div className="text-red-600 p-4">Invalid project id: {id}</div>;
+    }
+
+    if (loading && members.length === 0) {
+        return <div className="text-gray-600 p-4">Loading members...</div>;
+    }
+
+    return (
+        <div className="p-4">
+            <h2 className="text-xl font-bold mb-4">Members</h2>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    Error: {error}
+                </div>
+            )}
+
+            <div className="bg-white border border-gray-300 rounded mb-4">
+                {members.length === 0 && (
+                    <div className="text-gray-500 p-3">No members yet, only administrators can access this project.</div>
+                )}
+                {members.map(m => (
+                    <div key={m.userId} className="py-2 px-3 border-b border-gray-200 text-sm flex items-center gap-2">
+                        <span className="flex-1">{m.username}</span>
+                        <select
+                            value={m.role}
+                            disabled={isSaving}
+                            onChange={(e) => handleSave(m.username, e.target.value as ProjectRole)}
+                            className="p-1 border border-gray-300 rounded"
+                        >
+                            {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                        </select>
+                        <button onClick={() => handleRemove(m.username)} className="bg-red-600 text-white px-2 py-0.5 rounded">
+                            Remove
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <form onSubmit={handleAdd} className="flex gap-3">
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                    className="flex-1 p-2 text-sm border border-gray-300 rounded"
+                />
+                <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as ProjectRole)}
+                    className="p-2 border border-gray-300 rounded"
+                >
+                    {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+                <button
+                    type="submit"
+                    disabled={isSaving || !username.trim()}
+                    className="bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-300"
+                >
+                    Add Member
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default ProjectMembers;
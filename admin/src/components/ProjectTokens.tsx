@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { getApiTokens, createApiToken, revokeApiToken, ApiToken, TokenScope } from "../services/api";
+import React from "react";
+import { useParams } from "react-router";
+
+const SCOPES: { scope: TokenScope; label: string }[] = [
+    { scope: 'files:read', label: 'Read files' },
+    { scope: 'files:write', label: 'Write files' },
+    { scope: 'publish', label: 'Publish' },
+    { scope: 'hosts:manage', label: 'Manage hosts' }
+];
+
+const ProjectTokens: React.FC<{}> = () => {
+    const { id } = useParams();
+    const projectId = Number.parseInt(id || '');
+    const [loading, setLoading] = useState(true);
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const [name, setName] = useState('');
+    const [scopes, setScopes] = useState<TokenScope[]>(['files:read']);
+    const [expiresAt, setExpiresAt] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [newToken, setNewToken] = useState<string | null>(null);
+
+    const loadTokens = async (projectId: number) => {
+        setLoading(true);
+        setError(null);
+        try {
+            setTokens(await getApiTokens(projectId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load tokens');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadTokens(projectId);
+    }, [projectId]);
+
+    const toggleScope = (scope: TokenScope, enabled: boolean) => {
+        setScopes(prev => enabled ? [...prev, scope] : prev.filter(s => s !== scope));
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsCreating(true);
+        setError(null);
+
+        try {
+            const token = await createApiToken(projectId, name.trim(), scopes, expiresAt ? new Date(expiresAt).toISOString() : null);
+            setNewToken(token);
+            setName('');
+            setExpiresAt('');
+            await loadTokens(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create token');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRevoke = async (token: ApiToken) => {
+        if (!window.confirm(`Are you sure you want to revoke the token "${token.name}"? Scripts using it will stop working.`)) {
+            return;
+        }
+
+        try {
+            await revokeApiToken(projectId, token.id);
+            await loadTokens(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to revoke token');
+        }
+    };
+
+    const tokenStatus = (token: ApiToken) => {
+        if (token.revokedAt) return 'Revoked';
+        if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return 'Expired';
+        return token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleString()}` : 'Never expires';
+    };
+
+    if (Number.isNaN(projectId)) {
+        return <div className="text-red-600 p-4">Invalid project id: {id}</div>;
+    }
+
+    if (loading && tokens.length === 0) {
+        return <div className="text-gray-600 p-4">Loading tokens...</div>;
+    }
+
+    return (
+        <div className="p-4">
+            <h2 className="text-xl font-bold mb-4">API Tokens</h2>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    Error: {error}
+                </div>
+            )}
+
+            {newToken && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded mb-3">
+                    <p className="mb-1">Copy the new token now, it won't be shown again:</p>
+                    <code className="font-mono text-sm break-all">{newToken}</code>
+                </div>
+            )}
+
+            <div className="bg-white border border-gray-300 rounded mb-4">
+                {tokens.length === 0 && (
+                    <div className="text-gray-500 p-3">No tokens yet.</div>
+                )}
+                {tokens.map(t => (
+                    <div key={t.id} className={`py-2 px-3 border-b border-gray-200 text-sm flex items-center gap-2 ${t.revokedAt ? 'text-gray-400' : ''}`}>
+                        <span className="flex-1">{t.name}</span>
+                        <span className="font-mono">{t.scopes.join(', ')}</span>
+                        <span className="text-gray-600">{tokenStatus(t)}</span>
+                        <span className="text-gray-600">
+                            {t.lastUsedAt ? `Last used ${new Date(t.lastUsedAt).toLocaleString()}` : 'Never used'}
+                        </span>
+                        {!t.revokedAt && (
+                            <button onClick={() => handleRevoke(t)} className="bg-red-600 text-white px-2 py-0.5 rounded">
+                                Revoke
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <form onSubmit={handleCreate}>
+                <div className="flex gap-3 mb-2">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Token name, e.g. deploy script"
+                        className="flex-1 p-2 text-sm border border-gray-300 rounded"
+                    />
+                    <input
+                        type="datetime-local"
+                        value={expiresAt}
+                        onChange={(e) => setExpiresAt(e.target.value)}
+                        title="Expiry (optional)"
+                        className="p-2 text-sm border border-gray-300 rounded"
+                    />
+                </div>
+                <div className="flex gap-3 mb-2">
+                    {SCOPES.map(({ scope, label }) => (
+                        <label key={scope} className="flex items-center gap-1">
+                            <input
+                                type="checkbox"
+                                checked={scopes.includes(scope)}
+                                onChange={(e) => toggleScope(scope, e.target.checked)}
+                            />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+                <button
+                    type="submit"
+                    disabled={isCreating || !name.trim() || scopes.length === 0}
+                    className="bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-300"
+                >
+                    {isCreating ? 'Creating...' : 'Create Token'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default ProjectTokens;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { getStagedFiles, approveStagedFile, rejectStagedFile, StagedFile } from '../services/api';
+import FileDiffView from './FileDiffView';
+
+/**
+ * The changes the Assistant proposed for a project, each to be approved or rejected
+ * @param refreshKey - Changing it reloads the proposed changes, e.g. after a run
+ */
+const StagedFiles: React.FC<{ projectId: number; refreshKey?: number }> = ({ projectId, refreshKey }) => {
+    const [files, setFiles] = useState<StagedFile[]>([]);
+    const [busyId, setBusyId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadFiles = async (projectId: number) => {
+        try {
+            setFiles(await getStagedFiles(projectId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load proposed changes');
+        }
+    };
+
+    useEffect(() => {
+        setError(null);
+        loadFiles(projectId);
+    }, [projectId, refreshKey]);
+
+    const handleReview = async (file: StagedFile, approve: boolean) => {
+        setBusyId(file.id);
+        setError(null);
+        try {
+            if (approve) {
+                await approveStagedFile(file.id);
+            } else {
+                await rejectStagedFile(file.id);
+            }
+            await loadFiles(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to review change');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (files.length === 0 && !error) {
+        return null;
+    }
+
+    return (
+        <div className="mt-6">
+            <h2 className="text-xl font-bold mb-2">Proposed Changes</h2>
+            {error && <p className="text-red-800 mb-2">{error}</p>}
+            <div className="space-y-2">
+                {files.map(file => (
+                    <div key={file.id}>
+                        <FileDiffView file={file}>
+                            <button
+                                onClick={() => handleReview(file, true)}
+                                disabled={busyId !== null}
+                                className="bg-green-600 text-white py-0.5 px-2 rounded-md hover:bg-green-700 disabled:bg-gray-400"
+                            >
+                                Approve
+                            </button>
+                            <button
+                                onClick={() => handleReview(file, false)}
+                                disabled={busyId !== null}
+                                className="bg-red-600 text-white py-0.5 px-2 rounded-md hover:bg-red-700 disabled:bg-gray-400"
+                            >
+                                Reject
+                            </button>
+                        </FileDiffView>
+                        <div className="text-xs text-gray-500 mt-1">
+                            Proposed for "{file.prompt}" {new Date(file.updatedAt).toLocaleString()}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default StagedFiles;
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { getUsers, createUser, setUserPassword, deleteUser, User } from "../services/api";
+import React from "react";
+
+const UserList: React.FC<{}> = () => {
+    const [loading, setLoading] = useState(true);
+    const [users, setUsers] = useState<User[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const loadUsers = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setUsers(await getUsers());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load users');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadUsers();
+    }, []);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsCreating(true);
+        setError(null);
+
+        try {
+            await createUser(username.trim(), password, isAdmin);
+            setUsername('');
+            setPassword('');
+            setIsAdmin(false);
+            await loadUsers();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create user');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleSetPassword = async (user: User) => {
+        const newPassword = window.prompt(`New password for ${user.username} (at least 8 characters):`);
+        if (!newPassword) return;
+
+        try {
+            await setUserPassword(user.id, newPassword);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to change password');
+        }
+    };
+
+    const handleDelete = async (user: User) => {
+        if (!window.confirm(`Are you sure you want to delete the user ${user.username}?`)) {
+            return;
+        }
+
+        try {
+            await deleteUser(user.id);
+            await loadUsers();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete user');
+        }
+    };
+
+    if (loading && users.length === 0) {
+        return <div className="text-gray-600 p-4">Loading users...</div>;
+    }
+
+    return (
+        <div className="p-4">
+            <h2 className="text-xl font-bold mb-4">Users</h2>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    Error: {error}
+                </div>
+            )}
+
+            <div className="bg-white border border-gray-300 rounded mb-4">
+                {users.map(u => (
+                    <div key={u.id} className="py-2 px-3 border-b border-gray-200 text-sm flex items-center gap-2">
+                        <span className="flex-1">{u.username}</span>
+                        {u.isAdmin && <span className="text-gray-600">Administrator</span>}
+                        <button onClick={() => handleSetPassword(u)} className="bg-blue-500 text-white px-2 py-0.5 rounded">
+                            Set Password
+                        </button>
+                        <button onClick={() => handleDelete(u)} className="bg-red-600 text-white px-2 py-0.5 rounded">
+                            Delete
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <form onSubmit={handleCreate} className="flex gap-3 items-center">
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                    className="flex-1 p-2 text-sm border border-gray-300 rounded"
+                />
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password"
+                    autoComplete="new-password"
+                    className="flex-1 p-2 text-sm border border-gray-300 rounded"
+                />
+                <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={isAdmin} onChange={(e) => setIsAdmin(e.target.checked)} />
+                    Administrator
+                </label>
+                <button
+                    type="submit"
+                    disabled={isCreating || !username.trim() || password.length < 8}
+                    className="bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-300"
+                >
+                    Add User
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default UserList;
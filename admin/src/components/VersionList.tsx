@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { getVersions, createVersion, publishVersion, ProjectVersionsResponse } from "../services/api";
+import React from "react";
+import { useParams } from "react-router";
+
+const VersionList: React.FC<{}> = () => {
+    const { id } = useParams();
+    const projectId = Number.parseInt(id || '');
+    const [loading, setLoading] = useState(true);
+    const [versions, setVersions] = useState<ProjectVersionsResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const [description, setDescription] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [isPublishing, setIsPublishing] = useState(false);
+
+    const loadVersions = async (projectId: number) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const data = await getVersions(projectId);
+            setVersions(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load versions');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadVersions(projectId);
+    }, [projectId]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsCreating(true);
+        setError(null);
+
+        try {
+            await createVersion(projectId, description);
+            setDescription('');
+            await loadVersions(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create version');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handlePublish = async (versionId: number | null) => {
+        setIsPublishing(true);
+        setError(null);
+
+        try {
+            await publishVersion(projectId, versionId);
+            await loadVersions(projectId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to publish version');
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    if (Number.isNaN(projectId)) {
+        return <div className="text-red-600 p-4">Invalid project id: {id}</div>;
+    }
+
+    if (loading && !versions) {
+        return <div className="text-gray-600 p-4">Loading versions...</div>;
+    }
+
+    return (
+        <div className="p-4">
+            <div className="mb-4">
+                <h2 className="text-xl font-bold">Versions{versions && ` of ${versions.project}`}</h2>
+                <p className="text-gray-600">
+                    {versions?.publishedVersionId
+                        ? `Serving version ${versions.versions.find(v => v.id === versions.publishedVersionId)?.number ?? '?'}`
+                        : 'Nothing published, the working copy is served'}
+                </p>
+            </div>
+
+            {error && (
+                <div className="text-red-600 p-3 bg-red-50 border border-red-200 rounded mb-3">
+                    Error: {error}
+                </div>
+            )}
+
+            <form onSubmit={handleCreate} className="flex gap-3 mb-4">
+                <input
+                    type="text"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="What changed?"
+                    className="flex-1 p-2 border border-gray-300 rounded"
+                    disabled={isCreating}
+                />
+                <button
+                    type="submit"
+                    disabled={isCreating}
+                    className="bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+                >
+                    {isCreating ? 'Creating...' : 'Create Version'}
+                </button>
+            </form>
+
+            {versions && versions.versions.length === 0 && (
+                <div className="text-gray-500 p-4">No versions yet.</div>
+            )}
+
+            {versions && versions.versions.length > 0 && (
+                <table className="text-left w-full">
+                    <thead>
+                        <tr>
+                            <th>Version</th>
+                            <th>Description</th>
+                            <th>Files</th>
+                            <th>Created</th>
+                            <th>Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {versions.versions.map(v => (
+                            <tr key={v.id}>
+                                <td>{v.number}</td>
+                                <td>{v.description}</td>
+                                <td>{v.fileCount}</td>
+                                <td>{new Date(v.createdAt).toLocaleString()}</td>
+                                <td>
+                                    {v.id === versions.publishedVersionId ? (
+                                        <button
+                                            onClick={() => handlePublish(null)}
+                                            disabled={isPublishing}
+                                            className="bg-gray-500 text-white px-3 py-1.5 rounded border-none cursor-pointer disabled:bg-gray-300"
+                                        >
+                                            Unpublish
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={() => handlePublish(v.id)}
+                                            disabled={isPublishing}
+                                            className="bg-green-600 text-white px-3 py-1.5 rounded border-none cursor-pointer disabled:bg-gray-300"
+                                        >
+                                            Publish
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default VersionList;
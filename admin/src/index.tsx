@@ -5,22 +5,39 @@ import App from './App';
 import reportWebVitals from './reportWebVitals';
 import { BrowserRouter, Routes, Route } from 'react-router';
 import FileList from './components/FileList';
+import VersionList from './components/VersionList';
+import DataBrowser from './components/DataBrowser';
 import Navigation from './components/Navigation';
 import Assistant from './components/Assistant';
+import AuthGate from './components/AuthGate';
+import ProjectMembers from './components/ProjectMembers';
+import UserList from './components/UserList';
+import ProjectTokens from './components/ProjectTokens';
+import AssistantSettings from './components/AssistantSettings';
+import ActivityTimeline from './components/ActivityTimeline';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
 root.render(
   <React.StrictMode>
+    <AuthGate>
     <BrowserRouter>
     <Navigation />
       <Routes>
         <Route index element={<App />} />
         <Route path='projects/:id/files' element={<FileList />} />
+        <Route path='projects/:id/versions' element={<VersionList />} />
+        <Route path='projects/:id/data' element={<DataBrowser />} />
+        <Route path='projects/:id/members' element={<ProjectMembers />} />
+        <Route path='projects/:id/tokens' element={<ProjectTokens />} />
+        <Route path='projects/:id/assistant' element={<AssistantSettings />} />
         <Route path='assistant' element={<Assistant />} />
+        <Route path='activity' element={<ActivityTimeline />} />
+        <Route path='users' element={<UserList />} />
       </Routes>
     </BrowserRouter>
+    </AuthGate>
   </React.StrictMode>
 );
 
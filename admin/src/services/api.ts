@@ -1,30 +1,182 @@
 import config from "../config";
 
+// Local storage key of the session token
+const TOKEN_STORAGE_KEY = 'snapdash.token';
+
+// Event dispatched on the window when the API rejects the session
+export const UNAUTHORIZED_EVENT = 'snapdash:unauthorized';
+
+/**
+ * Get the session token of the logged in user
+ */
+export const getToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+/**
+ * Fetch an API path with the session token of the logged in user
+ * A 401 response clears the token and dispatches UNAUTHORIZED_EVENT
+ */
+const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    const token = getToken();
+    if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+    }
+
+    const response = await fetch(`${config.baseUrl}${path}`, { ...init, headers });
+    if (response.status === 401 && token) {
+        localStorage.removeItem(TOKEN_STORAGE_KEY);
+        window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    }
+    return response;
+};
+
+export type ProjectRole = 'viewer' | 'editor' | 'owner';
+
+export interface User {
+    id: number;
+    username: string;
+    isAdmin: boolean;
+}
+
+export interface CurrentUser {
+    user: User;
+    memberships: { projectId: number; role: ProjectRole }[];
+}
+
+/**
+ * Log in with a username and password, storing the session token
+ */
+export const login = async (username: string, password: string): Promise<User> => {
+    const response = await apiFetch(`/api/auth/login`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ username, password })
+    });
+    if (response.status === 401) {
+        throw new Error('Invalid username or password');
+    }
+    if (!response.ok) {
+        throw new Error('Failed to log in');
+    }
+    const data = await response.json();
+    localStorage.setItem(TOKEN_STORAGE_KEY, data.token);
+    return data.user;
+};
+
+/**
+ * End the session and forget the session token
+ */
+export const logout = async (): Promise<void> => {
+    try {
+        await apiFetch(`/api/auth/logout`, { method: 'POST' });
+    } finally {
+        localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+};
+
+/**
+ * Get the logged in user with their project roles
+ */
+export const getCurrentUser = async (): Promise<CurrentUser> => {
+    const response = await apiFetch(`/api/auth/me`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch current user');
+    }
+    return response.json();
+};
+
+/**
+ * Get all users (administrators only)
+ */
+export const getUsers = async (): Promise<User[]> => {
+    const response = await apiFetch(`/api/users`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch users');
+    }
+    const data = await response.json();
+    return data.users;
+};
+
+/**
+ * Create a new user (administrators only)
+ */
+export const createUser = async (username: string, password: string, isAdmin: boolean): Promise<User> => {
+    const response = await apiFetch(`/api/users`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ username, password, isAdmin })
+    });
+    if (response.status === 409) {
+        throw new Error('Username is already taken');
+    }
+    if (!response.ok) {
+        throw new Error('Failed to create user');
+    }
+    const data = await response.json();
+    return data.user;
+};
+
+/**
+ * Set the password of a user (administrators only)
+ */
+export const setUserPassword = async (userId: number, password: string): Promise<void> => {
+    const response = await apiFetch(`/api/users/${userId}/password`, {
+        method: 'PUT',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ password })
+    });
+    if (!response.ok) {
+        throw new Error('Failed to change password');
+    }
+};
+
+/**
+ * Delete a user (administrators only)
+ */
+export const deleteUser = async (userId: number): Promise<void> => {
+    const response = await apiFetch(`/api/users/${userId}`, {
+        method: 'DELETE'
+    });
+    if (!response.ok) {
+        throw new Error('Failed to delete user');
+    }
+};
+
 export interface Project {
     id: number;
     name: string;
     color: string;
     folder: string;
     hosts: string[];
+    previewHosts: string[];
+    publishedVersionId?: number | null;
 }
 
 export interface CreateProjectData {
     name: string;
     color: string;
     hosts: string[];
+    previewHosts?: string[];
 }
 
 export interface UpdateProjectData {
     name?: string;
     color?: string;
     hosts?: string[];
+    previewHosts?: string[];
 }
 
 /**
  * Fetch all projects from the API
  */
 export const getProjects = async (): Promise<Project[]> => {
-    const response = await fetch(`${config.baseUrl}/api/projects`);
+    const response = await apiFetch(`/api/projects`);
     if (!response.ok) {
         throw new Error('Failed to fetch projects');
     }
@@ -36,7 +188,7 @@ export const getProjects = async (): Promise<Project[]> => {
  * Create a new project
  */
 export const createProject = async (projectData: CreateProjectData): Promise<Project> => {
-    const response = await fetch(`${config.baseUrl}/api/projects`, {
+    const response = await apiFetch(`/api/projects`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json'
@@ -53,7 +205,7 @@ export const createProject = async (projectData: CreateProjectData): Promise<Pro
  * Update an existing project
  */
 export const updateProject = async (id: number, projectData: UpdateProjectData): Promise<Project> => {
-    const response = await fetch(`${config.baseUrl}/api/projects/${id}`, {
+    const response = await apiFetch(`/api/projects/${id}`, {
         method: 'PUT',
         headers: {
             'Content-Type': 'application/json'
@@ -70,7 +222,7 @@ export const updateProject = async (id: number, projectData: UpdateProjectData):
  * Delete a project
  */
 export const deleteProject = async (id: number): Promise<void> => {
-    const response = await fetch(`${config.baseUrl}/api/projects/${id}`, {
+    const response = await apiFetch(`/api/projects/${id}`, {
         method: 'DELETE'
     });
     if (!response.ok) {
@@ -88,7 +240,7 @@ export interface ProjectFilesResponse {
  * Get all files in a project
  */
 export const getProjectFiles = async (id: number): Promise<ProjectFilesResponse> => {
-    const response = await fetch(`${config.baseUrl}/api/projects/${id}/files`);
+    const response = await apiFetch(`/api/projects/${id}/files`);
     if (!response.ok) {
         throw new Error('Failed to fetch project files');
     }
@@ -105,7 +257,7 @@ export interface FileContentResponse {
  * Get content of a specific file in a project
  */
 export const getFileContent = async (id: number, filePath: string): Promise<FileContentResponse> => {
-    const response = await fetch(`${config.baseUrl}/api/projects/${id}/file?path=${encodeURIComponent(filePath)}`);
+    const response = await apiFetch(`/api/projects/${id}/file?path=${encodeURIComponent(filePath)}`);
     if (!response.ok) {
         throw new Error('Failed to fetch file content');
     }
@@ -116,7 +268,7 @@ export const getFileContent = async (id: number, filePath: string): Promise<File
  * Update content of a specific file in a project
  */
 export const updateFileContent = async (id: number, filePath: string, content: string): Promise<void> => {
-    const response = await fetch(`${config.baseUrl}/api/projects/${id}/file`, {
+    const response = await apiFetch(`/api/projects/${id}/file`, {
         method: 'PUT',
         headers: {
             'Content-Type': 'application/json'
@@ -132,7 +284,7 @@ export const updateFileContent = async (id: number, filePath: string, content: s
  * Delete a specific file in a project
  */
 export const deleteFile = async (id: number, filePath: string): Promise<void> => {
-    const response = await fetch(`${config.baseUrl}/api/projects/${id}/file?path=${encodeURIComponent(filePath)}`, {
+    const response = await apiFetch(`/api/projects/${id}/file?path=${encodeURIComponent(filePath)}`, {
         method: 'DELETE'
     });
     if (!response.ok) {
@@ -155,7 +307,7 @@ export const uploadFile = async (id: number, file: File): Promise<UploadFileResp
     const formData = new FormData();
     formData.append('file', file);
 
-    const response = await fetch(`${config.baseUrl}/api/projects/${id}/upload`, {
+    const response = await apiFetch(`/api/projects/${id}/upload`, {
         method: 'POST',
         body: formData
     });
@@ -165,29 +317,650 @@ export const uploadFile = async (id: number, file: File): Promise<UploadFileResp
     return response.json();
 };
 
+export interface ProjectVersion {
+    id: number;
+    projectId: number;
+    number: number;
+    description: string;
+    fileCount: number;
+    createdAt: string;
+}
+
+export interface ProjectVersionsResponse {
+    project: string;
+    publishedVersionId: number | null;
+    versions: ProjectVersion[];
+    count: number;
+}
+
+/**
+ * Get all versions of a project
+ */
+export const getVersions = async (id: number): Promise<ProjectVersionsResponse> => {
+    const response = await apiFetch(`/api/projects/${id}/versions`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch versions');
+    }
+    return response.json();
+};
+
+/**
+ * Freeze the current working files of a project into a new version
+ */
+export const createVersion = async (id: number, description: string): Promise<ProjectVersion> => {
+    const response = await apiFetch(`/api/projects/${id}/versions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ description })
+    });
+    if (!response.ok) {
+        throw new Error('Failed to create version');
+    }
+    const data = await response.json();
+    return data.version;
+};
+
+/**
+ * Publish a version of a project (null unpublishes it)
+ */
+export const publishVersion = async (id: number, versionId: number | null): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/publish`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ versionId })
+    });
+    if (!response.ok) {
+        throw new Error('Failed to publish version');
+    }
+};
+
+export interface DataCollection {
+    name: string;
+    publicRead: boolean;
+    recordCount: number;
+    size: number;
+}
+
+export interface DataRecord {
+    key: string;
+    value: unknown;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface DataCollectionsResponse {
+    collections: DataCollection[];
+    usage: {
+        usedBytes: number;
+        quotaBytes: number;
+    };
+}
+
+/**
+ * Get the data store collections and usage of a project
+ */
+export const getDataCollections = async (id: number): Promise<DataCollectionsResponse> => {
+    const response = await apiFetch(`/api/projects/${id}/data`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch collections');
+    }
+    return response.json();
+};
+
+/**
+ * Create a collection or update whether it's publicly readable
+ */
+export const updateDataCollection = async (id: number, collection: string, publicRead: boolean): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/data/${encodeURIComponent(collection)}`, {
+        method: 'PUT',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ publicRead })
+    });
+    if (!response.ok) {
+        throw new Error('Failed to update collection');
+    }
+};
+
+/**
+ * Delete a collection with all its records
+ */
+export const deleteDataCollection = async (id: number, collection: string): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/data/${encodeURIComponent(collection)}`, {
+        method: 'DELETE'
+    });
+    if (!response.ok) {
+        throw new Error('Failed to delete collection');
+    }
+};
+
+/**
+ * Get the records of a collection
+ */
+export const getDataRecords = async (id: number, collection: string): Promise<DataRecord[]> => {
+    const response = await apiFetch(`/api/projects/${id}/data/${encodeURIComponent(collection)}?limit=1000`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch records');
+    }
+    const data = await response.json();
+    return data.records;
+};
+
+/**
+ * Create or replace a record
+ */
+export const putDataRecord = async (id: number, collection: string, key: string, value: unknown): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/data/${encodeURIComponent(collection)}/${encodeURIComponent(key)}`, {
+        method: 'PUT',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ value })
+    });
+    if (response.status === 413) {
+        throw new Error('Data store quota exceeded');
+    }
+    if (!response.ok) {
+        throw new Error('Failed to save record');
+    }
+};
+
+/**
+ * Delete a record
+ */
+export const deleteDataRecord = async (id: number, collection: string, key: string): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/data/${encodeURIComponent(collection)}/${encodeURIComponent(key)}`, {
+        method: 'DELETE'
+    });
+    if (!response.ok) {
+        throw new Error('Failed to delete record');
+    }
+};
+
 export interface AssistantRequest {
     prompt: string;
     projectId: number;
+    conversationId?: number;
+    stream?: boolean;
+    mode?: AssistantMode;
+}
+
+// "propose" stages the Assistant's changes for review instead of applying them
+export type AssistantMode = 'apply' | 'propose';
+
+export interface ToolCall {
+    tool: string;
+    path?: string;
+}
+
+export interface FileDiff {
+    path: string;
+    status: 'added' | 'modified' | 'deleted';
+    diff: string;
+}
+
+export interface ChangeSet {
+    id: number;
+    projectId: number;
+    prompt: string;
+    createdAt: string;
+    revertedAt: string | null;
+    files: FileDiff[];
+}
+
+// Resources used by an Assistant run
+export interface RunUsage {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    filesChanged: number;
+    bytesWritten: number;
 }
 
 export interface AssistantResponse {
     response: string;
     project: string;
+    conversationId: number;
+    toolCalls: ToolCall[];
+    changeSet: ChangeSet | null;
+    staged: string[];
+    usage: RunUsage;
+    // Set if the run finished past its token limit
+    limitReached?: string;
 }
 
 /**
  * Send a prompt to the Assistant for a specific project
+ * @param conversationId - Conversation to continue, a new one is started without
  */
-export const sendAssistantPrompt = async (prompt: string, projectId: number): Promise<AssistantResponse> => {
-    const response = await fetch(`${config.baseUrl}/api/assistant`, {
+export const sendAssistantPrompt = async (prompt: string, projectId: number, conversationId?: number): Promise<AssistantResponse> => {
+    const response = await apiFetch(`/api/assistant`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ prompt, projectId })
+        body: JSON.stringify({ prompt, projectId, conversationId })
     });
     if (!response.ok) {
         throw new Error('Failed to send Assistant prompt');
     }
     return response.json();
 };
+
+export type AssistantStreamEvent =
+    | { type: 'text'; delta: string }
+    | ({ type: 'tool' } & ToolCall)
+    | ({ type: 'done' } & AssistantResponse)
+    | { type: 'error'; error: string; details?: string; usage?: RunUsage };
+
+/**
+ * Send a prompt to the Assistant and receive its progress while it runs
+ * Aborting the signal cancels the run on the server
+ * @param onEvent - Called for every text delta, tool call and the final result
+ */
+export const streamAssistantPrompt = async (
+    prompt: string,
+    projectId: number,
+    conversationId: number | undefined,
+    mode: AssistantMode,
+    onEvent: (event: AssistantStreamEvent) => void,
+    signal?: AbortSignal
+): Promise<void> => {
+    const response = await apiFetch(`/api/assistant`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ prompt, projectId, conversationId, mode, stream: true }),
+        signal
+    });
+    if (!response.ok || !response.body) {
+        throw new Error('Failed to send Assistant prompt');
+    }
+
+    // Events are newline delimited JSON, a chunk may end within an event
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) {
+                onEvent(JSON.parse(line));
+            }
+        }
+    }
+};
+
+export interface Conversation {
+    id: number;
+    projectId: number;
+    userId: number | null;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ConversationMessage {
+    id: number;
+    conversationId: number;
+    role: 'user' | 'assistant';
+    content: string;
+    toolCalls: ToolCall[];
+    changeSetId: number | null;
+    createdAt: string;
+}
+
+/**
+ * Get the assistant conversations of a project, most recently active first
+ */
+export const getConversations = async (projectId: number): Promise<Conversation[]> => {
+    const response = await apiFetch(`/api/assistant/conversations?projectId=${projectId}`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch conversations');
+    }
+    const data = await response.json();
+    return data.conversations;
+};
+
+/**
+ * Get the messages of an assistant conversation
+ */
+export const getConversationMessages = async (conversationId: number): Promise<ConversationMessage[]> => {
+    const response = await apiFetch(`/api/assistant/conversations/${conversationId}`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch conversation');
+    }
+    const data = await response.json();
+    return data.messages;
+};
+
+/**
+ * Delete an assistant conversation
+ */
+export const deleteConversation = async (conversationId: number): Promise<void> => {
+    const response = await apiFetch(`/api/assistant/conversations/${conversationId}`, {
+        method: 'DELETE'
+    });
+    if (!response.ok) {
+        throw new Error('Failed to delete conversation');
+    }
+};
+
+/**
+ * Get the files an Assistant run changed, with a unified diff per file
+ */
+export const getChangeSet = async (changeSetId: number): Promise<ChangeSet> => {
+    const response = await apiFetch(`/api/assistant/change-sets/${changeSetId}`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch changes');
+    }
+    return response.json();
+};
+
+/**
+ * Thrown by revertChangeSet when files were changed after the run
+ */
+export class RevertConflictError extends Error {
+    constructor(readonly conflicts: string[]) {
+        super(`Changed since the run: ${conflicts.join(', ')}`);
+        this.name = 'RevertConflictError';
+    }
+}
+
+/**
+ * Restore the files an Assistant run changed to their content before the run
+ * @param force - Also overwrite files changed since the run
+ */
+export const revertChangeSet = async (changeSetId: number, force = false): Promise<ChangeSet> => {
+    const response = await apiFetch(`/api/assistant/change-sets/${changeSetId}/revert`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ force })
+    });
+    if (response.status === 409) {
+        const data = await response.json();
+        throw data.conflicts ? new RevertConflictError(data.conflicts) : new Error(data.error);
+    }
+    if (!response.ok) {
+        throw new Error('Failed to revert changes');
+    }
+    return response.json();
+};
+
+export interface AssistantSettings {
+    model: string | null;
+    temperature: number | null;
+    maxTurns: number | null;
+    maxFilesPerRun: number | null;
+    maxBytesPerRun: number | null;
+    maxTokensPerRun: number | null;
+    // Glob patterns of files the Assistant can read but not change
+    protectedPaths: string[];
+    // Added to the instructions of every run, together with the project's _assistant.md
+    instructions: string | null;
+}
+
+export interface AssistantSettingsResponse {
+    settings: AssistantSettings;
+    // Server configuration used where a setting is null
+    defaults: Omit<AssistantSettings, 'protectedPaths' | 'instructions'> & { provider: string };
+}
+
+export interface AssistantRun extends RunUsage {
+    id: number;
+    projectId: number;
+    userId: number | null;
+    mode: AssistantMode;
+    model: string;
+    status: 'completed' | 'failed' | 'cancelled' | 'limited';
+    changeSetId: number | null;
+    createdAt: string;
+}
+
+/**
+ * Get the Assistant settings of a project with the server defaults
+ */
+export const getAssistantSettings = async (projectId: number): Promise<AssistantSettingsResponse> => {
+    const response = await apiFetch(`/api/projects/${projectId}/assistant`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch Assistant settings');
+    }
+    return response.json();
+};
+
+/**
+ * Replace the Assistant settings of a project
+ */
+export const updateAssistantSettings = async (projectId: number, settings: AssistantSettings): Promise<AssistantSettings> => {
+    const response = await apiFetch(`/api/projects/${projectId}/assistant`, {
+        method: 'PUT',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(settings)
+    });
+    if (!response.ok) {
+        throw new Error('Failed to update Assistant settings');
+    }
+    const data = await response.json();
+    return data.settings;
+};
+
+export interface StagedFile extends FileDiff {
+    id: number;
+    prompt: string;
+    userId: number | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Get the changes the Assistant proposed for a project, with a diff against the current content
+ */
+export const getStagedFiles = async (projectId: number): Promise<StagedFile[]> => {
+    const response = await apiFetch(`/api/assistant/staged?projectId=${projectId}`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch proposed changes');
+    }
+    const data = await response.json();
+    return data.files;
+};
+
+/**
+ * Apply a change the Assistant proposed
+ */
+export const approveStagedFile = async (stagedFileId: number): Promise<void> => {
+    const response = await apiFetch(`/api/assistant/staged/${stagedFileId}/approve`, {
+        method: 'POST'
+    });
+    if (!response.ok) {
+        throw new Error('Failed to apply change');
+    }
+};
+
+/**
+ * Discard a change the Assistant proposed
+ */
+export const rejectStagedFile = async (stagedFileId: number): Promise<void> => {
+    const response = await apiFetch(`/api/assistant/staged/${stagedFileId}/reject`, {
+        method: 'POST'
+    });
+    if (!response.ok) {
+        throw new Error('Failed to reject change');
+    }
+};
+
+export interface ProjectMember {
+    projectId: number;
+    userId: number;
+    username: string;
+    role: ProjectRole;
+}
+
+/**
+ * Get the members of a project
+ */
+export const getProjectMembers = async (id: number): Promise<ProjectMember[]> => {
+    const response = await apiFetch(`/api/projects/${id}/members`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch members');
+    }
+    const data = await response.json();
+    return data.members;
+};
+
+/**
+ * Add a user to a project or change their role
+ */
+export const setProjectMember = async (id: number, username: string, role: ProjectRole): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/members/${encodeURIComponent(username)}`, {
+        method: 'PUT',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ role })
+    });
+    if (response.status === 404) {
+        throw new Error(`User ${username} not found`);
+    }
+    if (response.status === 409) {
+        throw new Error('A project must keep at least one owner');
+    }
+    if (!response.ok) {
+        throw new Error('Failed to save member');
+    }
+};
+
+/**
+ * Remove a user from a project
+ */
+export const removeProjectMember = async (id: number, username: string): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/members/${encodeURIComponent(username)}`, {
+        method: 'DELETE'
+    });
+    if (response.status === 409) {
+        throw new Error('A project must keep at least one owner');
+    }
+    if (!response.ok) {
+        throw new Error('Failed to remove member');
+    }
+};
+
+export type TokenScope = 'files:read' | 'files:write' | 'publish' | 'hosts:manage';
+
+export interface ApiToken {
+    id: number;
+    projectId: number;
+    name: string;
+    scopes: TokenScope[];
+    createdBy: number | null;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    lastUsedAt: string | null;
+    createdAt: string;
+}
+
+/**
+ * Get the API tokens of a project
+ */
+export const getApiTokens = async (id: number): Promise<ApiToken[]> => {
+    const response = await apiFetch(`/api/projects/${id}/tokens`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch tokens');
+    }
+    const data = await response.json();
+    return data.tokens;
+};
+
+/**
+ * Create an API token for a project
+ * @returns The token itself, which can't be retrieved again later
+ */
+export const createApiToken = async (id: number, name: string, scopes: TokenScope[], expiresAt: string | null): Promise<string> => {
+    const response = await apiFetch(`/api/projects/${id}/tokens`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ name, scopes, expiresAt })
+    });
+    if (!response.ok) {
+        throw new Error('Failed to create token');
+    }
+    const data = await response.json();
+    return data.token;
+};
+
+/**
+ * Revoke an API token of a project
+ */
+export const revokeApiToken = async (id: number, tokenId: number): Promise<void> => {
+    const response = await apiFetch(`/api/projects/${id}/tokens/${tokenId}`, {
+        method: 'DELETE'
+    });
+    if (!response.ok) {
+        throw new Error('Failed to revoke token');
+    }
+};
+
+export interface Activity {
+    id: number;
+    projectId: number | null;
+    type: string;
+    actor: string;
+    userId: number | null;
+    tokenId: number | null;
+    details: Record<string, unknown>;
+    createdAt: string;
+}
+
+export interface ActivityFilter {
+    projectId?: number;
+    type?: string;
+    since?: string;
+    limit?: number;
+}
+
+/**
+ * Get the activity log, newest first
+ */
+export const getActivity = async (filter: ActivityFilter = {}): Promise<Activity[]> => {
+    const params = new URLSearchParams();
+    Object.entries(filter).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+            params.set(key, String(value));
+        }
+    });
+
+    const response = await apiFetch(`/api/activity?${params}`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch activity');
+    }
+    const data = await response.json();
+    return data.activity;
+};
+
+/**
+ * Get the most recent Assistant runs of a project with their usage
+ */
+export const getAssistantRuns = async (projectId: number): Promise<AssistantRun[]> => {
+    const response = await apiFetch(`/api/projects/${projectId}/assistant/runs`);
+    if (!response.ok) {
+        throw new Error('Failed to fetch Assistant runs');
+    }
+    return response.json();
+};
@@ -0,0 +1,73 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import * as activityService from "../db/activityService.js";
+import * as userService from "../db/userService.js";
+import { authenticate, requireUser, hasProjectAccess } from "../middleware/auth.js";
+import cors from "cors";
+
+// Create a new router for the activity log
+export const activityRouter = Router();
+
+activityRouter.use("/activity", cors());
+activityRouter.use("/activity", authenticate, requireUser);
+
+// Zod schema for activity queries
+const activityQuerySchema = z.object({
+    projectId: z.coerce.number().int().positive("Project ID must be a positive integer").optional(),
+    type: z.string().regex(/^[a-z]+(\.[a-z]+)*$/, "Type must be an activity type or prefix, e.g. file or file.write").optional(),
+    since: z.iso.datetime({ offset: true }).optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+/**
+ * GET /api/activity?projectId=&type=&since=&limit=
+ * List the activity log, newest first
+ * Without a project, administrators see everything and other users the projects they're a member of
+ */
+activityRouter.get("/activity", async (req: Request, res: Response) => {
+    try {
+        // Validate query parameters with Zod
+        const validationResult = activityQuerySchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { projectId, type, since, limit } = validationResult.data;
+        const { user } = req.principal!;
+
+        let projectIds: number[] | undefined;
+        if (projectId !== undefined) {
+            if (!(await hasProjectAccess(req.principal!, projectId, "viewer"))) {
+                res.status(403).json({
+                    error: "Forbidden"
+                });
+                return;
+            }
+            projectIds = [projectId];
+        } else if (!user!.isAdmin) {
+            projectIds = (await userService.getMemberships(user!.id)).map(m => m.projectId);
+        }
+
+        const activity = await activityService.getActivity({
+            projectIds,
+            type,
+            since: since ? new Date(since) : undefined,
+            limit
+        });
+
+        res.json({
+            activity,
+            count: activity.length
+        });
+    } catch (error) {
+        console.error("Error fetching activity:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
@@ -0,0 +1,407 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import type { Model, ModelRequest, ModelProvider, StreamEvent } from "@openai/agents";
+import { assistantRouter } from "./assistant.js";
+import * as assistantRunService from "../db/assistantRunService.js";
+import * as conversationService from "../db/conversationService.js";
+import * as stagedFileService from "../db/stagedFileService.js";
+import * as assistantSettingsService from "../db/assistantSettingsService.js";
+import * as fileAccessService from "../services/fileAccessService.js";
+import { Principal } from "../middleware/auth.js";
+import { StagedFile } from "../db/stagedFiles.js";
+import { AssistantSettings } from "../db/assistantSettings.js";
+import { Project } from "../db/projects.js";
+
+vi.hoisted(() => {
+    process.env.OPENAI_AGENTS_DISABLE_TRACING = "1";
+});
+
+// Model turns of the current test, each one a list of events streamed for one model request
+const turns = vi.hoisted(() => [] as ((request: ModelRequest) => AsyncIterable<StreamEvent>)[]);
+
+vi.mock("../services/assistantConfig.js", async importOriginal => {
+    const model: Model = {
+        getResponse: async () => {
+            throw new Error("Only streamed responses are used");
+        },
+        getStreamedResponse: request => turns.shift()!(request)
+    };
+    const provider: ModelProvider = { getModel: () => model };
+    return {
+        ...await importOriginal<typeof import("../services/assistantConfig.js")>(),
+        getAssistantConfig: () => ({ provider: "openai", model: "test", maxTurns: 10 }),
+        getModelProvider: () => provider
+    };
+});
+
+vi.mock("../db/projectService.js", () => ({
+    findProjectById: async (id: number) => id === 1 ? project : undefined
+}));
+
+// Assistant settings of the project differing from the defaults
+const settings = vi.hoisted(() => ({ current: {} as Partial<AssistantSettings> }));
+
+vi.mock("../db/assistantSettingsService.js", () => ({
+    getAssistantSettings: async () => ({
+        model: null, temperature: null, maxTurns: null, maxFilesPerRun: null, maxBytesPerRun: null, maxTokensPerRun: null,
+        protectedPaths: [], instructions: null, ...settings.current
+    }),
+    setAssistantSettings: vi.fn(async (projectId: number, settings: object) => settings)
+}));
+
+vi.mock("../services/assistantInstructions.js", async importOriginal => ({
+    ...await importOriginal<typeof import("../services/assistantInstructions.js")>(),
+    getProjectInstructions: async () => undefined
+}));
+
+vi.mock("../db/conversationService.js", () => ({
+    createConversation: vi.fn(async () => ({ id: 7 })),
+    appendExchange: vi.fn(async () => undefined)
+}));
+
+vi.mock("../db/assistantRunService.js", () => ({
+    recordRun: vi.fn(async () => undefined)
+}));
+
+vi.mock("../db/activityService.js", () => ({
+    recordActivity: async () => undefined
+}));
+
+vi.mock("../services/fileAccessService.js", async importOriginal => ({
+    ...await importOriginal<typeof import("../services/fileAccessService.js")>(),
+    listFiles: async () => ["index.html", "style.css"],
+    writeFile: vi.fn(async () => undefined),
+    deleteFile: vi.fn(async () => undefined)
+}));
+
+vi.mock("../db/stagedFileService.js", () => ({
+    findStagedFileById: vi.fn(),
+    removeStagedFile: vi.fn(async () => true)
+}));
+
+vi.mock("../db/userService.js", () => ({
+    getProjectRole: async (userId: number, projectId: number) => userId === 2 && projectId === 1 ? "viewer" : undefined
+}));
+
+const project: Project = { id: 1, hosts: ["demo.test"], previewHosts: [], name: "Demo", color: "#000000", folder: "demo" };
+
+const admin: Principal = { user: { id: 1, username: "admin", isAdmin: true } };
+
+// Caller of the requests
+let principal: Principal = admin;
+
+// Serve the assistant API, authenticated as the principal above
+function listen() {
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+        req.principal = principal;
+        next();
+    });
+    app.use("/api", assistantRouter);
+    const server = app.listen(0);
+    return { server, url: `http://localhost:${(server.address() as AddressInfo).port}/api` };
+}
+
+const usage = { requests: 1, inputTokens: 10, outputTokens: 2, totalTokens: 12 };
+
+// A model turn answering with a message, streamed in pieces
+function reply(...deltas: string[]) {
+    return async function* (): AsyncIterable<StreamEvent> {
+        for (const delta of deltas) {
+            yield { type: "output_text_delta", delta };
+        }
+        yield {
+            type: "response_done",
+            response: {
+                id: "response",
+                usage,
+                output: [{
+                    type: "message",
+                    role: "assistant",
+                    status: "completed",
+                    content: [{ type: "output_text", text: deltas.join("") }]
+                }]
+            }
+        };
+    };
+}
+
+// A model turn calling a tool
+function callTool(name: string, args: object) {
+    return async function* (): AsyncIterable<StreamEvent> {
+        yield {
+            type: "response_done",
+            response: {
+                id: "response",
+                usage,
+                output: [{ type: "function_call", callId: "call", name, arguments: JSON.stringify(args), status: "completed" }]
+            }
+        };
+    };
+}
+
+// A model turn that starts replying, then waits until the request is cancelled
+function stall() {
+    return async function* (request: ModelRequest): AsyncIterable<StreamEvent> {
+        yield { type: "output_text_delta", delta: "Working" };
+        await new Promise(resolve => request.signal?.addEventListener("abort", resolve));
+        throw new Error("Aborted");
+    };
+}
+
+describe("POST /api/assistant with stream", () => {
+    let server: Server;
+    let url: string;
+
+    // Run a prompt, returning the events of the streamed response
+    const run = async (prompt: string) => {
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ prompt, projectId: 1, stream: true })
+        });
+        expect(response.headers.get("content-type")).toBe("application/x-ndjson");
+        const body = await response.text();
+        return body.trim().split("\n").map(line => JSON.parse(line));
+    };
+
+    beforeAll(() => {
+        ({ server, url } = listen());
+        url += "/assistant";
+    });
+
+    afterAll(() => {
+        server.close();
+        vi.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        turns.length = 0;
+        settings.current = {};
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    it("streams the reply, then the result", async () => {
+        turns.push(reply("Hel", "lo"));
+
+        const events = await run("Hi");
+        expect(events.slice(0, 2)).toEqual([{ type: "text", delta: "Hel" }, { type: "text", delta: "lo" }]);
+        expect(events[2]).toMatchObject({ type: "done", response: "Hello", project: "Demo", conversationId: 7, changeSet: null });
+        expect(events[2].usage).toMatchObject({ requests: 1, totalTokens: 12 });
+        expect(events).toHaveLength(3);
+
+        expect(assistantRunService.recordRun).toHaveBeenCalledWith(expect.objectContaining({ status: "completed", totalTokens: 12 }));
+        expect(conversationService.appendExchange).toHaveBeenCalledWith(7, "Hi", "Hello", [], null, expect.any(Array));
+    });
+
+    it("streams the tool calls as they happen", async () => {
+        turns.push(callTool("list_files", {}), reply("Two files"));
+
+        const events = await run("What's there?");
+        expect(events.map(event => event.type)).toEqual(["tool", "text", "done"]);
+        expect(events[0]).toEqual({ type: "tool", tool: "list_files" });
+        expect(events[2]).toMatchObject({ toolCalls: [{ tool: "list_files" }], usage: { requests: 2, totalTokens: 24 } });
+    });
+
+    it("ends with an error event if the run fails", async () => {
+        turns.push(async function* () {
+            yield { type: "output_text_delta", delta: "Hm" };
+            throw new Error("Model unavailable");
+        });
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        const events = await run("Hi");
+        expect(events.at(-1)).toEqual({ type: "error", error: "Internal server error", details: "Model unavailable" });
+        expect(assistantRunService.recordRun).toHaveBeenCalledWith(expect.objectContaining({ status: "failed" }));
+        expect(conversationService.appendExchange).not.toHaveBeenCalled();
+    });
+
+    it("keeps the protected paths of the project from being changed", async () => {
+        settings.current = { protectedPaths: ["_secret/**"] };
+        turns.push(callTool("write_file", { path: ".//_secret/key.txt", content: "" }), reply("It is protected"));
+
+        const events = await run("Clear the key");
+        expect(events[0]).toEqual({ type: "tool", tool: "write_file", path: ".//_secret/key.txt" });
+        expect(events.at(-1)).toMatchObject({ type: "done", changeSet: null, usage: { filesChanged: 0 } });
+        expect(fileAccessService.writeFile).not.toHaveBeenCalled();
+    });
+
+    it("reports runs going past their token limit", async () => {
+        settings.current = { maxTokensPerRun: 10 };
+        turns.push(reply("Done"));
+
+        const events = await run("Hi");
+        expect(events.at(-1)).toMatchObject({
+            type: "done",
+            response: "Done",
+            limitReached: "The run used 12 tokens, more than the limit of 10"
+        });
+        expect(assistantRunService.recordRun).toHaveBeenCalledWith(expect.objectContaining({ status: "limited" }));
+    });
+
+    it("stops runs at their token limit before the next tool call", async () => {
+        settings.current = { maxTokensPerRun: 10 };
+        turns.push(callTool("write_file", { path: "index.html", content: "" }), reply("Never sent"));
+
+        const events = await run("Hi");
+        expect(events.at(-1)).toMatchObject({ type: "error", error: "The run used 12 tokens, more than the limit of 10" });
+        expect(fileAccessService.writeFile).not.toHaveBeenCalled();
+        expect(assistantRunService.recordRun).toHaveBeenCalledWith(expect.objectContaining({ status: "limited" }));
+        expect(conversationService.appendExchange).not.toHaveBeenCalled();
+    });
+
+    it("cancels the run when the connection is closed", async () => {
+        turns.push(stall());
+        const controller = new AbortController();
+
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ prompt: "Hi", projectId: 1, stream: true }),
+            signal: controller.signal
+        });
+        const reader = response.body!.getReader();
+        const { value } = await reader.read();
+        expect(JSON.parse(new TextDecoder().decode(value))).toEqual({ type: "text", delta: "Working" });
+        controller.abort();
+
+        await vi.waitFor(() => {
+            expect(assistantRunService.recordRun).toHaveBeenCalledWith(expect.objectContaining({ status: "cancelled" }));
+        });
+        expect(conversationService.appendExchange).not.toHaveBeenCalled();
+    });
+});
+
+describe("staged files", () => {
+    let server: Server;
+    let url: string;
+
+    const proposed = (content: string | null): StagedFile => ({
+        id: 5, projectId: 1, path: "index.html", content, prompt: "Update the site", userId: 1,
+        createdAt: "2024-05-01T12:00:00Z", updatedAt: "2024-05-01T12:00:00Z"
+    });
+
+    const post = (path: string) => fetch(`${url}${path}`, { method: "POST" });
+
+    beforeAll(() => {
+        ({ server, url } = listen());
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        principal = admin;
+    });
+
+    it("applies approved changes and removes them from review", async () => {
+        vi.mocked(stagedFileService.findStagedFileById).mockResolvedValue(proposed("<h1>New</h1>"));
+
+        expect((await post("/assistant/staged/5/approve")).status).toBe(200);
+        expect(fileAccessService.writeFile).toHaveBeenCalledWith(project, "index.html", "<h1>New</h1>");
+        expect(stagedFileService.removeStagedFile).toHaveBeenCalledWith(5);
+    });
+
+    it("deletes files whose deletion is approved", async () => {
+        vi.mocked(stagedFileService.findStagedFileById).mockResolvedValue(proposed(null));
+
+        expect((await post("/assistant/staged/5/approve")).status).toBe(200);
+        expect(fileAccessService.deleteFile).toHaveBeenCalledWith(project, "index.html");
+        expect(fileAccessService.writeFile).not.toHaveBeenCalled();
+    });
+
+    it("discards rejected changes", async () => {
+        vi.mocked(stagedFileService.findStagedFileById).mockResolvedValue(proposed("<h1>New</h1>"));
+
+        expect((await post("/assistant/staged/5/reject")).status).toBe(200);
+        expect(fileAccessService.writeFile).not.toHaveBeenCalled();
+        expect(stagedFileService.removeStagedFile).toHaveBeenCalledWith(5);
+    });
+
+    it("hides the changes from callers who can't edit the project", async () => {
+        vi.mocked(stagedFileService.findStagedFileById).mockResolvedValue(proposed("<h1>New</h1>"));
+        principal = { user: { id: 2, username: "viewer", isAdmin: false } };
+
+        expect((await post("/assistant/staged/5/approve")).status).toBe(404);
+        expect((await post("/assistant/staged/5/reject")).status).toBe(404);
+        expect(fileAccessService.writeFile).not.toHaveBeenCalled();
+        expect(stagedFileService.removeStagedFile).not.toHaveBeenCalled();
+    });
+
+    it("responds with 404 for unknown changes", async () => {
+        vi.mocked(stagedFileService.findStagedFileById).mockResolvedValue(undefined);
+
+        expect((await post("/assistant/staged/6/approve")).status).toBe(404);
+        expect((await post("/assistant/staged/abc/approve")).status).toBe(400);
+    });
+});
+
+describe("assistant settings", () => {
+    let server: Server;
+    let url: string;
+
+    const put = (body: object) => fetch(`${url}/projects/1/assistant`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+    });
+
+    beforeAll(() => {
+        ({ server, url } = listen());
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        principal = admin;
+    });
+
+    it("responds with the settings and the server defaults they override", async () => {
+        const response = await fetch(`${url}/projects/1/assistant`);
+
+        expect(await response.json()).toMatchObject({
+            settings: { model: null, temperature: null },
+            defaults: { provider: "openai", model: "test", temperature: null, maxTurns: 10, maxTokensPerRun: null }
+        });
+    });
+
+    it("stores valid settings, null restoring the server configuration", async () => {
+        const response = await put({ model: "gpt-5", temperature: 0.2, maxTurns: null });
+
+        expect(response.status).toBe(200);
+        expect(assistantSettingsService.setAssistantSettings).toHaveBeenCalledWith(1, {
+            model: "gpt-5", temperature: 0.2, maxTurns: null, maxFilesPerRun: null, maxBytesPerRun: null, maxTokensPerRun: null,
+            protectedPaths: [], instructions: null
+        });
+    });
+
+    it("rejects settings out of range", async () => {
+        for (const settings of [
+            { model: "", temperature: null, maxTurns: null },
+            { model: null, temperature: 2.5, maxTurns: null },
+            { model: null, temperature: null, maxTurns: 0 },
+            { model: null, temperature: null }
+        ]) {
+            const response = await put(settings);
+            expect(response.status).toBe(400);
+            expect(await response.json()).toMatchObject({ error: "Validation failed" });
+        }
+        expect(assistantSettingsService.setAssistantSettings).not.toHaveBeenCalled();
+    });
+
+    it("only lets owners change them", async () => {
+        principal = { user: { id: 2, username: "viewer", isAdmin: false } };
+
+        expect((await fetch(`${url}/projects/1/assistant`)).status).toBe(403);
+        expect((await put({ model: null, temperature: null, maxTurns: null })).status).toBe(403);
+    });
+});
@@ -1,78 +1,103 @@
 import { Router, Request, Response, response } from "express";
 import { z } from "zod";
-import { Agent, run, RunContext, tool} from "@openai/agents";
+import { Agent, Runner, RunContext, Usage, user, AgentInputItem } from "@openai/agents";
+import picomatch from "picomatch";
 import * as projectService from "../db/projectService.js";
+import * as conversationService from "../db/conversationService.js";
+import * as changeSetService from "../db/changeSetService.js";
+import * as stagedFileService from "../db/stagedFileService.js";
+import * as assistantSettingsService from "../db/assistantSettingsService.js";
+import * as assistantRunService from "../db/assistantRunService.js";
 import * as fileAccessService from "../services/fileAccessService.js";
+import * as activityService from "../db/activityService.js";
+import { diffFileChange } from "../services/fileDiff.js";
+import { getAssistantConfig, getModelProvider } from "../services/assistantConfig.js";
+import { getProjectInstructions, withProjectInstructions } from "../services/assistantInstructions.js";
+import { ToolContext, RunLimits, assistantTools, readLiveFile, normalizePath, exceedsTokenLimit } from "../services/assistantTools.js";
+import { FileNotFoundError, AccessDeniedError } from "../services/errors.js";
 import cors from "cors";
+import { authenticate, requireProjectAccess, hasProjectAccess, actorOf } from "../middleware/auth.js";
 import { Project } from "../db/projects.js";
+import { ToolCall } from "../db/conversations.js";
+import { ChangeSet } from "../db/changeSets.js";
+import { StagedFile } from "../db/stagedFiles.js";
+import { RunStatus, RunUsage } from "../db/assistantRuns.js";
 
 // Create a new router for Assistant API endpoints
 export const assistantRouter = Router();
 
-assistantRouter.use(cors());
+assistantRouter.use(["/assistant", "/projects"], cors());
+assistantRouter.use("/assistant", authenticate);
+assistantRouter.use("/projects", authenticate);
 
 // Zod schema for Assistant request
 const assistantRequestSchema = z.object({
     prompt: z.string().min(1, "Prompt is required"),
-    projectId: z.number().int().positive("Project ID must be a positive integer")
+    projectId: z.number().int().positive("Project ID must be a positive integer"),
+    conversationId: z.number().int().positive("Conversation ID must be a positive integer").optional(),
+    // Stream text deltas and tool calls as newline delimited JSON instead of a single response
+    stream: z.boolean().default(false),
+    // "propose" stages the changes for review instead of applying them
+    mode: z.enum(["apply", "propose"]).default("apply")
 });
 
-interface ToolContext {
-    project: Project;
-}
-
-const listFilesTool = tool({
-    name:"list_files",
-    description: "List all files in the project. Use this tool first to ensure to provide a valid path when editing a file.",
-    parameters: z.object({}),
-    execute: async (input, context?: RunContext<ToolContext>) => {
-        console.log('calling tool list_files');
-        const project = context?.context.project;
+// Zod schema for the assistant settings of a project, null uses the server configuration
+const assistantSettingsSchema = z.object({
+    model: z.string().min(1).max(200).nullable(),
+    temperature: z.number().min(0).max(2).nullable(),
+    maxTurns: z.number().int().min(1).max(100).nullable(),
+    maxFilesPerRun: z.number().int().positive().nullable().default(null),
+    maxBytesPerRun: z.number().int().positive().nullable().default(null),
+    maxTokensPerRun: z.number().int().positive().nullable().default(null),
+    protectedPaths: z.array(z.string().min(1).max(200)).max(100).default([]),
+    instructions: z.string().max(20000).nullable().default(null)
+});
 
-        if (!project) {
-            throw new Error("No project provided");
-        }
-        return (await fileAccessService.listFiles(project)).join("\n");
-    }
+// Zod schema for reverting a change set, force overwrites files changed since the run
+const revertSchema = z.object({
+    force: z.boolean().default(false)
 });
 
-const readFileTool = tool({
-    name: "read_file",
-    description: "Read the contents of a specific file.",
-    parameters: z.object({path: z.string() }),
-    execute: async ({path}, context?: RunContext<ToolContext>) => {
-        console.log('calling tool read_file');
-        const project = context?.context.project;
-        if (!project) {
-            throw new Error("No project provided");
-        }
-        return (await fileAccessService.readFile(project, path)).toString();
-    }
+// Zod schema for listing the conversations or staged files of a project
+const projectQuerySchema = z.object({
+    projectId: z.coerce.number().int().positive("Project ID must be a positive integer")
 });
 
-const writeFileTool = tool({
-    name: "write_file",
-    description: "Write the contents of a specific file. If the file exists, the content will be overwritten.",
-    parameters: z.object({path: z.string(), content: z.string() }),
-    execute: async ({path, content}, context?: RunContext<ToolContext>) => {
-        console.log('calling tool write_file');
-        const project = context?.context.project;
-        if (!project) {
-            throw new Error("No project provided");
-            }
-        await fileAccessService.writeFile(project, path, content);
-    }
-})
+/**
+ * Events of a streamed assistant response, one JSON object per line
+ */
+type AssistantStreamEvent =
+    | { type: "text"; delta: string }
+    | ({ type: "tool" } & ToolCall)
+    | { type: "done"; response: string; project: string; conversationId: number; toolCalls: ToolCall[]; changeSet: ChangeSetSummary | null; staged: string[]; usage: RunUsage; limitReached?: string }
+    | { type: "error"; error: string; details?: string; usage?: RunUsage };
 
-// Initialize OpenAI agent
-const agent = new Agent<ToolContext>({
-    name: "Snapdash Coder",
-    instructions: `You are a helpful AI assistant that manages files in web projects.
+type ChangeSetSummary = ReturnType<typeof changeSetSummary>;
+
+/**
+ * Describe a change set with a unified diff per file, the content itself is left out
+ */
+function changeSetSummary(changeSet: ChangeSet) {
+    return {
+        id: changeSet.id,
+        projectId: changeSet.projectId,
+        prompt: changeSet.prompt,
+        createdAt: changeSet.createdAt,
+        revertedAt: changeSet.revertedAt,
+        files: changeSet.changes.map(diffFileChange)
+    };
+}
+
+// General instructions of the agent, the project instructions are appended on every run
+const agentInstructions = `You are a helpful AI assistant that manages files in web projects.
 
 Tool Usage:
-- List files when you need to discover paths or understand project structure
+- List files or a directory when you need to discover paths or understand project structure
 - Read files before modifying them to understand current content
 - Validate file paths exist before attempting to write
+- Search with grep_files to find every place a text is used instead of reading all files
+- Use move_file to rename pages and update the links pointing to them, delete_file to remove files no longer needed
+- Use get_file_info to check the size and type of images and other binary files
 
 Error Handling:
 - If any tool operation fails, immediately report the error and stop processing
@@ -89,47 +114,116 @@ Layout System (_layout.html):
 - The layout system ONLY applies to HTML files (*.html)
 - Create '_layout.html' to define common HTML structure (navigation, footer, head)
 - HTML files are automatically wrapped with _layout.html if it exists
+- Named layouts live in _layouts/, "layout: post" in the front-matter of a page uses _layouts/post.html
+- Pages in a folder use the layout named after their top level folder if it exists (blog/a.html uses _layouts/blog.html)
+- Layouts extend other layouts with "layout: <name>" in their own front-matter, "default" refers to _layout.html
 - CSS, JavaScript, images, and other file types are NOT affected by the layout system
 - Use {{content}} as the placeholder where page content will be injected
-- Available placeholders in _layout.html:
+- Pages and layouts are Handlebars templates, values are HTML-escaped, use {{{value}}} for raw HTML
+- Available placeholders in pages and _layout.html:
   - {{name}} - Project name
   - {{color}} - Project color (hex format, e.g., #07b379ff)
   - {{folder}} - Project folder identifier
+  - {{page.<key>}} - Front-matter of the page, e.g. {{page.title}}
+  - {{data.<key>}} - Site data from _data.json, e.g. navigation items
+  - {{layout.<key>}} - Front-matter of the layout being rendered
+- Pages can start with YAML front-matter between --- lines, "layout: false" skips the layout
+- {{> header}} includes the partial _partials/header.html
+- Markdown pages (*.md) are served as HTML at their extensionless or .html URL and wrapped with the layout, they can
+  have front-matter too but are not templates themselves
+- Use {{#each data.nav}}...{{/each}} for loops and {{#if page.title}}...{{else}}...{{/if}} for conditionals
 
 Example _layout.html:
   <!DOCTYPE html>
   <html>
   <head>
-    <title>{{name}}</title>
+    <title>{{#if page.title}}{{page.title}} - {{/if}}{{name}}</title>
     <link rel="stylesheet" href="style.css">
     <style>
       :root { --theme-color: {{color}}; }
     </style>
   </head>
   <body>
-    <nav><!-- common navigation --></nav>
+    <nav>{{#each data.nav}}<a href="{{url}}">{{label}}</a>{{/each}}</nav>
     {{content}}
+    {{> footer}}
   </body>
   </html>
 
+Example page with front-matter:
+  ---
+  title: About us
+  ---
+  <h1>{{page.title}}</h1>
+
 Project Structure:
 - Project root is the web root
-- index.html serves as the default homepage
+- index.html serves as the default homepage, every folder can have its own index.html
+- Pages are available without extension, /team serves team.html or team.md
+- _config.json configures how the site is served, e.g. { "urls": { "trailingSlash": "always", "canonical": false } }
+- 404.html is shown for missing pages, _redirects holds redirect rules, one "from to [status]" per line
+  (e.g. "/old /new 301", "/blog/* /news/:splat 302", "/app/* /app/index.html 200" for a single page app)
 - Use relative paths for assets (./style.css, ./script.js, ./images/logo.png)
 - Common structure: index.html, style.css, script.js, images/, etc.
+- _assistant.md holds the instructions of the project for you, it is not served
+
+Serverless Functions (api/ folder):
+- Files 'api/<name>.js' are NOT served, they run on the server for requests to /api/<name>
+- Export the handler: module.exports = async (request) => json({ ok: true })
+- request has method, path, query, headers and body (parsed JSON or form data)
+- Available helpers: json(data, status), text(body, status), html(body, status), redirect(url, status), console.log, crypto.randomUUID()
+- Returning a plain object responds with JSON, no Node.js modules (require, fs, fetch) are available
+- Persist data with the project's data store: await data.get(collection, key), await data.set(collection, key, value),
+  await data.delete(collection, key), await data.list(collection, { prefix, limit, offset })
+- Pages can read collections marked as public with fetch('/_data/<collection>') or fetch('/_data/<collection>/<key>')
 
 Asset Files:
 - CSS files: Standard stylesheets, reference with <link rel="stylesheet" href="style.css">
 - JS files: Standard scripts, include with <script src="script.js"></script>
 - Images/fonts: Can be placed in subdirectories and referenced normally
-- These files are served as-is, NOT wrapped with any layout`,
-    model: "gpt-5-nano",
-    tools: [listFilesTool, readFileTool, writeFileTool]
+- These files are served as-is, NOT wrapped with any layout`;
+
+// Initialize OpenAI agent
+const agent = new Agent<ToolContext>({
+    name: "Snapdash Coder",
+    instructions: runContext => withProjectInstructions(agentInstructions, runContext.context.projectInstructions),
+    tools: assistantTools
 });
 
+/**
+ * Create the runner for a project's assistant, the project settings override the server configuration
+ */
+async function createRunner(project: Project) {
+    const config = getAssistantConfig();
+    const settings = await assistantSettingsService.getAssistantSettings(project.id!);
+    const model = settings.model ?? config.model;
+    const temperature = settings.temperature ?? config.temperature;
+    const isProtected = picomatch(settings.protectedPaths, { dot: true });
+
+    const limits: RunLimits = {
+        maxFiles: settings.maxFilesPerRun ?? config.maxFilesPerRun,
+        maxBytes: settings.maxBytesPerRun ?? config.maxBytesPerRun,
+        maxTokens: settings.maxTokensPerRun ?? config.maxTokensPerRun,
+        isProtected: path => settings.protectedPaths.length > 0 && isProtected(normalizePath(path))
+    };
+
+    return {
+        runner: new Runner({
+            modelProvider: getModelProvider(),
+            model,
+            modelSettings: temperature !== undefined ? { temperature } : {}
+        }),
+        model,
+        maxTurns: settings.maxTurns ?? config.maxTurns,
+        limits,
+        projectInstructions: await getProjectInstructions(project, settings.instructions)
+    };
+}
+
 /**
  * POST /api/assistant
  * Send a prompt to the Assistant with file management tools
+ * With stream set, responds with newline delimited JSON events while the run progresses
  */
 assistantRouter.post("/assistant", async (req: Request, res: Response) => {
     try {
@@ -144,7 +238,15 @@ assistantRouter.post("/assistant", async (req: Request, res: Response) => {
             return;
         }
 
-        const { prompt, projectId } = validationResult.data;
+        const { prompt, projectId, conversationId, stream, mode } = validationResult.data;
+
+        // The assistant writes files, so it needs the same rights as editing them
+        if (!(await hasProjectAccess(req.principal!, projectId, "editor", "files:write"))) {
+            res.status(403).json({
+                error: "Forbidden"
+            });
+            return;
+        }
 
         // Get the project
         const project = await projectService.findProjectById(projectId);
@@ -154,19 +256,779 @@ assistantRouter.post("/assistant", async (req: Request, res: Response) => {
             });
             return;
         }
-        const result = await run(agent, prompt, {context: {project}})
 
-        // Return the final response
-        res.json({
-            response: result.finalOutput,
-            project: project.name,
+        // Continue the conversation, or start a new one
+        let history: AgentInputItem[] = [];
+        if (conversationId !== undefined) {
+            const conversation = await conversationService.findConversationById(conversationId);
+            if (!conversation || conversation.projectId !== projectId) {
+                res.status(404).json({
+                    error: "Conversation not found"
+                });
+                return;
+            }
+            history = await conversationService.getHistory(conversationId);
+        }
+
+        const { runner, model, maxTurns, limits, projectInstructions } = await createRunner(project);
+        const input = [...history, user(prompt)];
+
+        // Closing the connection of a streamed run or reaching the token limit stops the run
+        const abortController = new AbortController();
+        const context: ToolContext = {
+            project,
+            prompt,
+            userId: req.principal!.user?.id ?? null,
+            mode,
+            limits,
+            projectInstructions,
+            changedFiles: new Set(),
+            bytesWritten: 0,
+            abortController,
+            staged: [],
+            toolCalls: []
+        };
+        // Passed to the runner as is, so the token usage can be read even if the run fails
+        const runContext = new RunContext<ToolContext>(context);
+
+        // The change set of the run, null without one or if creating it failed (the tool call that created it failed too)
+        const getChangeSetId = async (): Promise<number | null> => {
+            return await context.changeSet?.catch(error => {
+                console.error("Error creating change set:", error);
+                return null;
+            }) ?? null;
+        };
+
+        // Record failed runs as well, the tools may have changed files before the failure
+        const recordRun = async (status: RunStatus): Promise<RunUsage> => {
+            const changeSetId = await getChangeSetId();
+            const { requests, inputTokens, outputTokens, totalTokens } = runContext.usage;
+            const usage: RunUsage = {
+                requests,
+                inputTokens,
+                outputTokens,
+                totalTokens,
+                filesChanged: context.changedFiles.size,
+                bytesWritten: context.bytesWritten
+            };
+
+            await assistantRunService.recordRun({
+                projectId,
+                userId: context.userId,
+                mode,
+                model,
+                status,
+                changeSetId,
+                ...usage
+            });
+            await activityService.recordActivity(actorOf(req.principal!), "assistant.run", projectId, {
+                prompt: prompt.slice(0, 500),
+                mode,
+                status,
+                toolCalls: context.toolCalls,
+                staged: context.staged,
+                changeSetId,
+                totalTokens,
+                completed: status === "completed"
+            });
+            return usage;
+        };
+
+        // The change set of the run for the response, changes are kept when a run fails
+        const getChangeSet = async () => {
+            const changeSetId = await getChangeSetId();
+            const changeSet = changeSetId ? await changeSetService.findChangeSetById(changeSetId) : undefined;
+            return changeSet ? changeSetSummary(changeSet) : null;
+        };
+
+        // Append the exchange to the conversation, starting it on the first prompt
+        const saveExchange = async (reply: string, runHistory: AgentInputItem[]) => {
+            const changeSetId = await getChangeSetId();
+            const conversation = conversationId !== undefined
+                ? { id: conversationId }
+                : await conversationService.createConversation(projectId, req.principal!.user?.id ?? null, prompt);
+            await conversationService.appendExchange(conversation.id, prompt, reply, context.toolCalls, changeSetId, runHistory);
+
+            return {
+                conversationId: conversation.id,
+                changeSet: await getChangeSet()
+            };
+        };
+
+        if (!stream) {
+            let result;
+            let usage: RunUsage;
+            try {
+                result = await runner.run(agent, input, { context: runContext, maxTurns, signal: abortController.signal });
+                // A reply without tool calls can go past the budget as well, the finished run is kept but reported
+                exceedsTokenLimit(context, runContext.usage);
+            } catch (error) {
+                // A run stopped by its token limit is answered below
+                if (context.limitReached === undefined) {
+                    throw error;
+                }
+            } finally {
+                usage = await recordRun(context.limitReached ? "limited" : result ? "completed" : "failed");
+            }
+
+            if (!result) {
+                res.status(429).json({
+                    error: context.limitReached,
+                    toolCalls: context.toolCalls,
+                    changeSet: await getChangeSet(),
+                    staged: context.staged,
+                    usage
+                });
+                return;
+            }
+
+            const saved = await saveExchange(result.finalOutput ?? "", result.history);
+
+            // Return the final response
+            res.json({
+                response: result.finalOutput,
+                project: project.name,
+                conversationId: saved.conversationId,
+                toolCalls: context.toolCalls,
+                changeSet: saved.changeSet,
+                staged: context.staged,
+                usage,
+                limitReached: context.limitReached
+            });
+            return;
+        }
+
+        // Stream the run, closing the connection cancels it
+        res.on("close", () => {
+            if (!res.writableEnded) {
+                abortController.abort();
+            }
         });
 
+        res.status(200).set({
+            "Content-Type": "application/x-ndjson",
+            "Cache-Control": "no-cache",
+            "X-Accel-Buffering": "no"
+        });
+        res.flushHeaders();
+
+        const send = (event: AssistantStreamEvent) => {
+            if (!res.writableEnded) {
+                res.write(JSON.stringify(event) + "\n");
+            }
+        };
+        context.onToolCall = call => send({ type: "tool", ...call });
+
+        let status: RunStatus = "failed";
+        let result;
+        try {
+            result = await runner.run(agent, input, { context: runContext, maxTurns, stream: true, signal: abortController.signal });
+            for await (const event of result) {
+                if (event.type === "raw_model_stream_event" && event.data.type === "output_text_delta") {
+                    send({ type: "text", delta: event.data.delta });
+                }
+                // Streamed runs don't add up the usage of their responses, the usage and token limit need it
+                if (event.type === "raw_model_stream_event" && event.data.type === "response_done") {
+                    runContext.usage.add(new Usage(event.data.response.usage));
+                }
+            }
+            await result.completed;
+            if (result.error) {
+                throw result.error;
+            }
+            if (!abortController.signal.aborted) {
+                status = "completed";
+                // A reply without tool calls can go past the budget as well, the finished run is kept but reported
+                exceedsTokenLimit(context, runContext.usage);
+            }
+        } catch (error: any) {
+            if (!abortController.signal.aborted) {
+                console.error("Error processing LLM request:", error);
+                send({ type: "error", error: "Internal server error", details: error.message });
+            }
+        }
+
+        // A cancelled run leaves the conversation as it was, its changes can still be reverted
+        const finished = status === "completed" && result !== undefined;
+        if (context.limitReached) {
+            status = "limited";
+        } else if (status !== "completed" && abortController.signal.aborted) {
+            status = "cancelled";
+        }
+
+        try {
+            const usage = await recordRun(status);
+            if (finished && result) {
+                const saved = await saveExchange(result.finalOutput ?? "", result.history);
+                send({
+                    type: "done",
+                    response: result.finalOutput ?? "",
+                    project: project.name,
+                    conversationId: saved.conversationId,
+                    toolCalls: context.toolCalls,
+                    changeSet: saved.changeSet,
+                    staged: context.staged,
+                    usage,
+                    limitReached: context.limitReached
+                });
+            } else if (status === "limited") {
+                send({ type: "error", error: context.limitReached!, usage });
+            }
+        } catch (error: any) {
+            console.error("Error processing LLM request:", error);
+            send({ type: "error", error: "Internal server error", details: error.message });
+        } finally {
+            res.end();
+        }
+
     } catch (error: any) {
         console.error("Error processing LLM request:", error);
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
         res.status(500).json({
             error: "Internal server error",
             details: error.message
         });
     }
 });
+
+/**
+ * Load a conversation the caller may continue, responding with an error otherwise
+ * @returns The conversation, or undefined if a response was sent
+ */
+async function resolveConversation(req: Request, res: Response) {
+    const id = parseInt(req.params.conversationId, 10);
+
+    if (isNaN(id)) {
+        res.status(400).json({
+            error: "Invalid conversation ID"
+        });
+        return undefined;
+    }
+
+    const conversation = await conversationService.findConversationById(id);
+
+    if (!conversation || !(await hasProjectAccess(req.principal!, conversation.projectId, "editor", "files:write"))) {
+        res.status(404).json({
+            error: "Conversation not found"
+        });
+        return undefined;
+    }
+
+    return conversation;
+}
+
+/**
+ * GET /api/assistant/conversations?projectId=xxx
+ * List the assistant conversations of a project
+ */
+assistantRouter.get("/assistant/conversations", async (req: Request, res: Response) => {
+    try {
+        const validationResult = projectQuerySchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { projectId } = validationResult.data;
+
+        if (!(await hasProjectAccess(req.principal!, projectId, "editor", "files:write"))) {
+            res.status(403).json({
+                error: "Forbidden"
+            });
+            return;
+        }
+
+        const conversations = await conversationService.getConversations(projectId);
+
+        res.json({
+            conversations,
+            count: conversations.length
+        });
+    } catch (error) {
+        console.error("Error listing conversations:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * GET /api/assistant/conversations/:conversationId
+ * Get a conversation with its messages
+ */
+assistantRouter.get("/assistant/conversations/:conversationId", async (req: Request, res: Response) => {
+    try {
+        const conversation = await resolveConversation(req, res);
+        if (!conversation) {
+            return;
+        }
+
+        res.json({
+            conversation,
+            messages: await conversationService.getMessages(conversation.id)
+        });
+    } catch (error) {
+        console.error("Error fetching conversation:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * DELETE /api/assistant/conversations/:conversationId
+ * Delete a conversation with its messages
+ */
+assistantRouter.delete("/assistant/conversations/:conversationId", async (req: Request, res: Response) => {
+    try {
+        const conversation = await resolveConversation(req, res);
+        if (!conversation) {
+            return;
+        }
+
+        await conversationService.deleteConversation(conversation.id);
+
+        res.json({
+            message: "Conversation deleted successfully"
+        });
+    } catch (error) {
+        console.error("Error deleting conversation:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * Load a change set the caller may access, responding with an error otherwise
+ * @returns The change set, or undefined if a response was sent
+ */
+async function resolveChangeSet(req: Request, res: Response, role: "viewer" | "editor") {
+    const id = parseInt(req.params.changeSetId, 10);
+
+    if (isNaN(id)) {
+        res.status(400).json({
+            error: "Invalid change set ID"
+        });
+        return undefined;
+    }
+
+    const changeSet = await changeSetService.findChangeSetById(id);
+    const scope = role === "viewer" ? "files:read" : "files:write";
+
+    if (!changeSet || !(await hasProjectAccess(req.principal!, changeSet.projectId, role, scope))) {
+        res.status(404).json({
+            error: "Change set not found"
+        });
+        return undefined;
+    }
+
+    return changeSet;
+}
+
+/**
+ * GET /api/assistant/change-sets/:changeSetId
+ * Get the files an assistant run changed, with a unified diff per file
+ */
+assistantRouter.get("/assistant/change-sets/:changeSetId", async (req: Request, res: Response) => {
+    try {
+        const changeSet = await resolveChangeSet(req, res, "viewer");
+        if (!changeSet) {
+            return;
+        }
+
+        res.json(changeSetSummary(changeSet));
+    } catch (error) {
+        console.error("Error fetching change set:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * POST /api/assistant/change-sets/:changeSetId/revert
+ * Restore every file of a change set to its content before the run
+ * Files changed since the run are listed in a 409 instead, unless the request body has { "force": true }
+ */
+assistantRouter.post("/assistant/change-sets/:changeSetId/revert", async (req: Request, res: Response) => {
+    try {
+        const validationResult = revertSchema.safeParse(req.body ?? {});
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const changeSet = await resolveChangeSet(req, res, "editor");
+        if (!changeSet) {
+            return;
+        }
+
+        if (changeSet.revertedAt !== null) {
+            res.status(409).json({
+                error: "Change set has already been reverted"
+            });
+            return;
+        }
+
+        const project = await projectService.findProjectById(changeSet.projectId);
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        // Reverting a file edited after the run would drop those edits, unless it is already back to its content before
+        if (!validationResult.data.force) {
+            const conflicts: string[] = [];
+            for (const change of changeSet.changes) {
+                const content = await readLiveFile(project, change.path);
+                if (content !== change.after && content !== change.before) {
+                    conflicts.push(change.path);
+                }
+            }
+            if (conflicts.length > 0) {
+                res.status(409).json({
+                    error: "Files changed since the run, revert with force to overwrite them",
+                    conflicts
+                });
+                return;
+            }
+        }
+
+        // Claim the revert before writing, so concurrent requests don't both restore the files
+        if (!(await changeSetService.markReverted(changeSet.id))) {
+            res.status(409).json({
+                error: "Change set has already been reverted"
+            });
+            return;
+        }
+
+        try {
+            for (const change of changeSet.changes) {
+                if (change.before === null) {
+                    try {
+                        await fileAccessService.deleteFile(project, change.path);
+                    } catch (error) {
+                        // Already gone
+                        if (!(error instanceof FileNotFoundError)) {
+                            throw error;
+                        }
+                    }
+                } else {
+                    await fileAccessService.writeFile(project, change.path, change.before);
+                }
+            }
+        } catch (error) {
+            // Let the revert be tried again, the files restored so far no longer conflict
+            await changeSetService.unmarkReverted(changeSet.id);
+            throw error;
+        }
+
+        await activityService.recordActivity(actorOf(req.principal!), "assistant.revert", changeSet.projectId, {
+            changeSetId: changeSet.id,
+            paths: changeSet.changes.map(change => change.path)
+        });
+
+        res.json(changeSetSummary((await changeSetService.findChangeSetById(changeSet.id))!));
+    } catch (error) {
+        console.error("Error reverting change set:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * Describe a staged file with a unified diff against the current content
+ */
+async function stagedFileSummary(project: Project, staged: StagedFile) {
+    return {
+        id: staged.id,
+        prompt: staged.prompt,
+        userId: staged.userId,
+        createdAt: staged.createdAt,
+        updatedAt: staged.updatedAt,
+        ...diffFileChange({
+            path: staged.path,
+            before: await readLiveFile(project, staged.path),
+            after: staged.content
+        })
+    };
+}
+
+/**
+ * GET /api/assistant/staged?projectId=xxx
+ * List the changes the assistant proposed for a project, with a unified diff per file
+ */
+assistantRouter.get("/assistant/staged", async (req: Request, res: Response) => {
+    try {
+        const validationResult = projectQuerySchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { projectId } = validationResult.data;
+
+        if (!(await hasProjectAccess(req.principal!, projectId, "viewer", "files:read"))) {
+            res.status(403).json({
+                error: "Forbidden"
+            });
+            return;
+        }
+
+        const project = await projectService.findProjectById(projectId);
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const files = [];
+        for (const staged of await stagedFileService.getStagedFiles(projectId)) {
+            files.push(await stagedFileSummary(project, staged));
+        }
+
+        res.json({
+            files,
+            count: files.length
+        });
+    } catch (error) {
+        console.error("Error listing staged files:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * Load a staged file and its project for review, responding with an error otherwise
+ * @returns The staged file with its project, or undefined if a response was sent
+ */
+async function resolveStagedFile(req: Request, res: Response) {
+    const id = parseInt(req.params.stagedFileId, 10);
+
+    if (isNaN(id)) {
+        res.status(400).json({
+            error: "Invalid staged file ID"
+        });
+        return undefined;
+    }
+
+    const staged = await stagedFileService.findStagedFileById(id);
+
+    if (!staged || !(await hasProjectAccess(req.principal!, staged.projectId, "editor", "files:write"))) {
+        res.status(404).json({
+            error: "Staged file not found"
+        });
+        return undefined;
+    }
+
+    const project = await projectService.findProjectById(staged.projectId);
+    if (!project) {
+        res.status(404).json({
+            error: "Project not found"
+        });
+        return undefined;
+    }
+
+    return { staged, project };
+}
+
+/**
+ * POST /api/assistant/staged/:stagedFileId/approve
+ * Apply a proposed change to the working copy
+ */
+assistantRouter.post("/assistant/staged/:stagedFileId/approve", async (req: Request, res: Response) => {
+    try {
+        const resolved = await resolveStagedFile(req, res);
+        if (!resolved) {
+            return;
+        }
+        const { staged, project } = resolved;
+
+        if (staged.content === null) {
+            try {
+                await fileAccessService.deleteFile(project, staged.path);
+            } catch (error) {
+                // Already gone
+                if (!(error instanceof FileNotFoundError)) {
+                    throw error;
+                }
+            }
+        } else {
+            await fileAccessService.writeFile(project, staged.path, staged.content);
+        }
+
+        await stagedFileService.removeStagedFile(staged.id);
+        await activityService.recordActivity(actorOf(req.principal!), "assistant.approve", staged.projectId, {
+            path: staged.path,
+            deleted: staged.content === null,
+            prompt: staged.prompt.slice(0, 500)
+        });
+
+        res.json({
+            message: "Change applied successfully"
+        });
+    } catch (error) {
+        if (error instanceof AccessDeniedError) {
+            res.status(403).json({
+                error: error.message
+            });
+            return;
+        }
+        console.error("Error approving staged file:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * POST /api/assistant/staged/:stagedFileId/reject
+ * Discard a proposed change
+ */
+assistantRouter.post("/assistant/staged/:stagedFileId/reject", async (req: Request, res: Response) => {
+    try {
+        const resolved = await resolveStagedFile(req, res);
+        if (!resolved) {
+            return;
+        }
+        const { staged } = resolved;
+
+        await stagedFileService.removeStagedFile(staged.id);
+        await activityService.recordActivity(actorOf(req.principal!), "assistant.reject", staged.projectId, {
+            path: staged.path,
+            deleted: staged.content === null,
+            prompt: staged.prompt.slice(0, 500)
+        });
+
+        res.json({
+            message: "Change rejected successfully"
+        });
+    } catch (error) {
+        console.error("Error rejecting staged file:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * GET /api/projects/:id/assistant
+ * Get the assistant settings of a project together with the server defaults they override
+ */
+assistantRouter.get("/projects/:id/assistant", requireProjectAccess("editor"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        if (!(await projectService.findProjectById(id))) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const config = getAssistantConfig();
+
+        res.json({
+            settings: await assistantSettingsService.getAssistantSettings(id),
+            defaults: {
+                provider: config.provider,
+                model: config.model,
+                temperature: config.temperature ?? null,
+                maxTurns: config.maxTurns,
+                maxFilesPerRun: config.maxFilesPerRun ?? null,
+                maxBytesPerRun: config.maxBytesPerRun ?? null,
+                maxTokensPerRun: config.maxTokensPerRun ?? null
+            }
+        });
+    } catch (error) {
+        console.error("Error fetching assistant settings:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * PUT /api/projects/:id/assistant
+ * Replace the assistant settings of a project
+ */
+assistantRouter.put("/projects/:id/assistant", requireProjectAccess("owner"), async (req: Request, res: Response) => {
+    try {
+        const validationResult = assistantSettingsSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const id = parseInt(req.params.id, 10);
+
+        if (!(await projectService.findProjectById(id))) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const settings = await assistantSettingsService.setAssistantSettings(id, validationResult.data);
+        await activityService.recordActivity(actorOf(req.principal!), "assistant.settings", id, settings);
+
+        res.json({
+            message: "Assistant settings updated successfully",
+            settings
+        });
+    } catch (error) {
+        console.error("Error updating assistant settings:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * GET /api/projects/:id/assistant/runs
+ * Get the most recent assistant runs of a project with their usage
+ */
+assistantRouter.get("/projects/:id/assistant/runs", requireProjectAccess("editor"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        if (!(await projectService.findProjectById(id))) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        res.json(await assistantRunService.getRuns(id));
+    } catch (error) {
+        console.error("Error fetching assistant runs:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
@@ -0,0 +1,115 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import * as userService from "../db/userService.js";
+import { authenticate, getBearerToken } from "../middleware/auth.js";
+import cors from "cors";
+
+// Create a new router for login and session endpoints
+export const authRouter = Router();
+
+authRouter.use("/auth", cors());
+
+// Zod schema for login
+const loginSchema = z.object({
+    username: z.string().min(1, "Username is required"),
+    password: z.string().min(1, "Password is required")
+});
+
+/**
+ * POST /api/auth/login
+ * Exchange a username and password for a session bearer token
+ */
+authRouter.post("/auth/login", async (req: Request, res: Response) => {
+    try {
+        // Validate request body with Zod
+        const validationResult = loginSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { username, password } = validationResult.data;
+
+        const user = await userService.authenticateUser(username, password);
+
+        if (!user) {
+            res.status(401).json({
+                error: "Invalid username or password"
+            });
+            return;
+        }
+
+        const session = await userService.createSession(user.id);
+
+        res.json({
+            message: "Logged in successfully",
+            token: session.token,
+            expiresAt: session.expiresAt,
+            user
+        });
+    } catch (error) {
+        console.error("Error logging in:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the session of the bearer token
+ */
+authRouter.post("/auth/logout", authenticate, async (req: Request, res: Response) => {
+    try {
+        if (req.principal!.token) {
+            res.status(400).json({
+                error: "API tokens are revoked through the project's token settings"
+            });
+            return;
+        }
+
+        await userService.deleteSession(getBearerToken(req)!);
+
+        res.json({
+            message: "Logged out successfully"
+        });
+    } catch (error) {
+        console.error("Error logging out:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the logged in user with their project roles, or the details of the API token
+ */
+authRouter.get("/auth/me", authenticate, async (req: Request, res: Response) => {
+    try {
+        const { user, token } = req.principal!;
+
+        if (token) {
+            res.json({
+                token
+            });
+            return;
+        }
+
+        const memberships = await userService.getMemberships(user.id);
+
+        res.json({
+            user,
+            memberships
+        });
+    } catch (error) {
+        console.error("Error fetching current user:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
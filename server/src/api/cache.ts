@@ -0,0 +1,29 @@
+import { Router, Request, Response } from "express";
+import * as cacheService from "../services/cacheService.js";
+import { authenticate, requireAdmin } from "../middleware/auth.js";
+import cors from "cors";
+
+// Create a new router for the caches of the server (administrators only)
+export const cacheRouter = Router();
+
+cacheRouter.use("/cache", cors());
+cacheRouter.use("/cache", authenticate, requireAdmin);
+
+/**
+ * GET /api/cache/stats
+ * Get the size and hit/miss counters of the caches
+ */
+cacheRouter.get("/cache/stats", (req: Request, res: Response) => {
+    res.json(cacheService.getCacheStats());
+});
+
+/**
+ * DELETE /api/cache
+ * Clear the caches, e.g. after changing projects or files from outside the server
+ */
+cacheRouter.delete("/cache", (req: Request, res: Response) => {
+    cacheService.clearCaches();
+    res.json({
+        message: "Caches cleared successfully"
+    });
+});
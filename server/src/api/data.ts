@@ -0,0 +1,352 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import * as projectService from "../db/projectService.js";
+import * as dataService from "../db/dataService.js";
+import * as activityService from "../db/activityService.js";
+import { DataQuotaExceededError } from "../services/errors.js";
+import { authenticate, requireProjectAccess, requireAdmin, actorOf } from "../middleware/auth.js";
+import cors from "cors";
+
+// Create a new router for the per-project data store endpoints
+export const dataRouter = Router();
+
+dataRouter.use("/projects", cors());
+dataRouter.use("/projects", authenticate);
+
+// Zod schema for data store settings
+const updateDataSettingsSchema = z.object({
+    quotaBytes: z.number().int().positive("Quota must be a positive integer").nullable()
+});
+
+// Zod schema for collection settings
+const updateCollectionSchema = z.object({
+    publicRead: z.boolean()
+});
+
+// Zod schema for writing a record (any JSON value)
+const putRecordSchema = z.object({
+    value: z.json()
+});
+
+// Zod schema for listing records
+const listRecordsSchema = z.object({
+    prefix: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(1000).optional(),
+    offset: z.coerce.number().int().min(0).optional()
+});
+
+/**
+ * Parse the project ID, collection name and record key of a request, responding with an error if one is invalid
+ * @returns The project ID, or undefined if a response was sent
+ */
+async function resolveProject(req: Request, res: Response): Promise<number | undefined> {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+        res.status(400).json({
+            error: "Invalid project ID"
+        });
+        return undefined;
+    }
+
+    if (req.params.collection !== undefined && !dataService.isValidCollectionName(req.params.collection)) {
+        res.status(400).json({
+            error: "Invalid collection name"
+        });
+        return undefined;
+    }
+
+    if (req.params.key !== undefined && !dataService.isValidRecordKey(req.params.key)) {
+        res.status(400).json({
+            error: "Invalid record key"
+        });
+        return undefined;
+    }
+
+    const project = await projectService.findProjectById(id);
+
+    if (!project) {
+        res.status(404).json({
+            error: "Project not found"
+        });
+        return undefined;
+    }
+
+    return id;
+}
+
+/**
+ * GET /api/projects/:id/data
+ * List the collections of a project with the data store usage
+ */
+dataRouter.get("/projects/:id/data", requireProjectAccess("viewer"), async (req: Request, res: Response) => {
+    try {
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        const [collections, usage] = await Promise.all([
+            dataService.getCollections(id),
+            dataService.getUsage(id)
+        ]);
+
+        res.json({
+            collections,
+            usage
+        });
+    } catch (error) {
+        console.error("Error listing collections:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * PUT /api/projects/:id/data
+ * Update the data store settings of a project (quotas are managed by administrators)
+ */
+dataRouter.put("/projects/:id/data", requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const validationResult = updateDataSettingsSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        await dataService.setQuota(id, validationResult.data.quotaBytes);
+        await activityService.recordActivity(actorOf(req.principal!), "data.settings", id, validationResult.data);
+
+        res.json({
+            message: "Data settings updated successfully",
+            usage: await dataService.getUsage(id)
+        });
+    } catch (error) {
+        console.error("Error updating data settings:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * GET /api/projects/:id/data/:collection?prefix=&limit=&offset=
+ * List the records of a collection
+ */
+dataRouter.get("/projects/:id/data/:collection", requireProjectAccess("viewer"), async (req: Request, res: Response) => {
+    try {
+        const validationResult = listRecordsSchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        const records = await dataService.listRecords(id, req.params.collection, validationResult.data);
+
+        res.json({
+            collection: req.params.collection,
+            records,
+            count: records.length
+        });
+    } catch (error) {
+        console.error("Error listing records:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * PUT /api/projects/:id/data/:collection
+ * Create a collection or update its settings
+ */
+dataRouter.put("/projects/:id/data/:collection", requireProjectAccess("editor"), async (req: Request, res: Response) => {
+    try {
+        const validationResult = updateCollectionSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        await dataService.updateCollection(id, req.params.collection, validationResult.data);
+        await activityService.recordActivity(actorOf(req.principal!), "data.collection.update", id, { collection: req.params.collection, ...validationResult.data });
+
+        res.json({
+            message: "Collection updated successfully",
+            collection: req.params.collection
+        });
+    } catch (error) {
+        console.error("Error updating collection:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * DELETE /api/projects/:id/data/:collection
+ * Delete a collection with all its records
+ */
+dataRouter.delete("/projects/:id/data/:collection", requireProjectAccess("editor"), async (req: Request, res: Response) => {
+    try {
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        const deleted = await dataService.deleteCollection(id, req.params.collection);
+
+        if (!deleted) {
+            res.status(404).json({
+                error: "Collection not found"
+            });
+            return;
+        }
+
+        await activityService.recordActivity(actorOf(req.principal!), "data.collection.delete", id, { collection: req.params.collection });
+
+        res.json({
+            message: "Collection deleted successfully"
+        });
+    } catch (error) {
+        console.error("Error deleting collection:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * GET /api/projects/:id/data/:collection/:key
+ * Get a single record
+ */
+dataRouter.get("/projects/:id/data/:collection/:key", requireProjectAccess("viewer"), async (req: Request, res: Response) => {
+    try {
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        const record = await dataService.getRecord(id, req.params.collection, req.params.key);
+
+        if (!record) {
+            res.status(404).json({
+                error: "Record not found"
+            });
+            return;
+        }
+
+        res.json({
+            record
+        });
+    } catch (error) {
+        console.error("Error fetching record:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * PUT /api/projects/:id/data/:collection/:key
+ * Create or replace a record
+ */
+dataRouter.put("/projects/:id/data/:collection/:key", requireProjectAccess("editor"), async (req: Request, res: Response) => {
+    try {
+        const validationResult = putRecordSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        const record = await dataService.putRecord(id, req.params.collection, req.params.key, validationResult.data.value);
+        await activityService.recordActivity(actorOf(req.principal!), "data.record.put", id, { collection: req.params.collection, key: req.params.key });
+
+        res.json({
+            message: "Record saved successfully",
+            record
+        });
+    } catch (error) {
+        if (error instanceof DataQuotaExceededError) {
+            res.status(413).json({
+                error: error.message
+            });
+            return;
+        }
+
+        console.error("Error saving record:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * DELETE /api/projects/:id/data/:collection/:key
+ * Delete a record
+ */
+dataRouter.delete("/projects/:id/data/:collection/:key", requireProjectAccess("editor"), async (req: Request, res: Response) => {
+    try {
+        const id = await resolveProject(req, res);
+        if (id === undefined) {
+            return;
+        }
+
+        const deleted = await dataService.deleteRecord(id, req.params.collection, req.params.key);
+
+        if (!deleted) {
+            res.status(404).json({
+                error: "Record not found"
+            });
+            return;
+        }
+
+        await activityService.recordActivity(actorOf(req.principal!), "data.record.delete", id, { collection: req.params.collection, key: req.params.key });
+
+        res.json({
+            message: "Record deleted successfully"
+        });
+    } catch (error) {
+        console.error("Error deleting record:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
@@ -0,0 +1,55 @@
+import { Router, Request, Response } from "express";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { createMcpServer } from "../services/mcpServer.js";
+import { authenticate } from "../middleware/auth.js";
+import cors from "cors";
+
+// Create a new router for the MCP endpoint (streamable HTTP transport)
+export const mcpRouter = Router();
+
+mcpRouter.use("/mcp", cors({ exposedHeaders: ["Mcp-Session-Id"] }));
+mcpRouter.use("/mcp", authenticate);
+
+/**
+ * POST /api/mcp
+ * Handle an MCP message, stateless: every request gets its own server acting for the caller
+ */
+mcpRouter.post("/mcp", async (req: Request, res: Response) => {
+    try {
+        // Stateless, the caller is authenticated by every request
+        const principal = req.principal!;
+        const server = createMcpServer(async () => principal);
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: undefined
+        });
+
+        res.on("close", () => {
+            transport.close();
+            server.close();
+        });
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+        console.error("Error handling MCP request:", error);
+        if (!res.headersSent) {
+            res.status(500).json({
+                jsonrpc: "2.0",
+                error: { code: -32603, message: "Internal server error" },
+                id: null
+            });
+        }
+    }
+});
+
+/**
+ * GET and DELETE /api/mcp
+ * Not supported, the server keeps no sessions to stream to or end
+ */
+mcpRouter.all("/mcp", (req: Request, res: Response) => {
+    res.status(405).set("Allow", "POST").json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "Method not allowed" },
+        id: null
+    });
+});
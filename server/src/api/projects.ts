@@ -1,28 +1,47 @@
 import { Router, Request, Response } from "express";
 import { z } from "zod";
 import * as projectService from "../db/projectService.js";
+import * as versionService from "../db/versionService.js";
 import * as fileAccessService from "../services/fileAccessService.js";
-import { FileNotFoundError, PathNotFileError, AccessDeniedError } from "../services/errors.js";
+import * as userService from "../db/userService.js";
+import * as activityService from "../db/activityService.js";
+import { authenticate, requireProjectAccess, requireUser, hasProjectAccess, actorOf } from "../middleware/auth.js";
+import { PROJECT_ROLES, ProjectMember } from "../db/users.js";
+import { TOKEN_SCOPES } from "../db/apiTokens.js";
+import { FileNotFoundError, PathNotFileError, AccessDeniedError, ReservedPathError } from "../services/errors.js";
+import { checkFunctionPath } from "../middleware/functionHandler.js";
 import cors from "cors";
 import multer from "multer";
 
 // Create a new router for project API endpoints
 export const projectsRouter = Router();
 
-// Zod schema for project creation
+// Ensure a host isn't listed twice across the live and preview host lists
+const distinctHosts = (data: { hosts?: string[]; previewHosts?: string[] }) => {
+    const all = [...(data.hosts ?? []), ...(data.previewHosts ?? [])];
+    return new Set(all).size === all.length;
+};
+
+// Zod schema for project creation (preview hosts default to the configured pattern)
 const createProjectSchema = z.object({
     hosts: z.array(z.string()).min(1, "At least one host is required"),
+    previewHosts: z.array(z.string().min(1, "Preview host must not be empty")).optional(),
     name: z.string().min(1, "Name is required"),
     color: z.string().regex(/^#[0-9a-fA-F]{6,8}$/, "Color must be a valid hex color (e.g., #07b379ff)")
+}).refine(distinctHosts, {
+    message: "Hosts must be unique across hosts and preview hosts"
 });
 
 // Zod schema for project update
 const updateProjectSchema = z.object({
     name: z.string().min(1, "Name is required").optional(),
     color: z.string().regex(/^#[0-9a-fA-F]{6,8}$/, "Color must be a valid hex color").optional(),
-    hosts: z.array(z.string()).min(1, "At least one host is required").optional()
-}).refine(data => data.name !== undefined || data.color !== undefined || data.hosts !== undefined, {
-    message: "At least one field (name, color, or hosts) must be provided"
+    hosts: z.array(z.string()).min(1, "At least one host is required").optional(),
+    previewHosts: z.array(z.string().min(1, "Preview host must not be empty")).optional()
+}).refine(data => data.name !== undefined || data.color !== undefined || data.hosts !== undefined || data.previewHosts !== undefined, {
+    message: "At least one field (name, color, hosts, or previewHosts) must be provided"
+}).refine(distinctHosts, {
+    message: "Hosts must be unique across hosts and preview hosts"
 });
 
 // Zod schema for host transfer
@@ -31,7 +50,23 @@ const transferHostSchema = z.object({
     targetProjectId: z.number().int().positive("Target project ID must be a positive integer")
 });
 
-projectsRouter.use(cors());
+// Zod schema for version creation
+const createVersionSchema = z.object({
+    description: z.string().max(500, "Description must be at most 500 characters").optional()
+});
+
+// Zod schema for publishing a version (null unpublishes the project)
+const publishSchema = z.object({
+    versionId: z.number().int().positive("Version ID must be a positive integer").nullable()
+});
+
+// Zod schema for adding a member or changing their role
+const setMemberSchema = z.object({
+    role: z.enum(PROJECT_ROLES)
+});
+
+projectsRouter.use("/projects", cors());
+projectsRouter.use("/projects", authenticate);
 
 // Configure multer for file uploads (store in memory)
 const upload = multer({
@@ -45,7 +80,7 @@ const upload = multer({
  * POST /api/projects
  * Create a new project
  */
-projectsRouter.post("/projects", async (req: Request, res: Response) => {
+projectsRouter.post("/projects", requireUser, async (req: Request, res: Response) => {
     try {
         // Validate request body with Zod
         const validationResult = createProjectSchema.safeParse(req.body);
@@ -58,11 +93,11 @@ projectsRouter.post("/projects", async (req: Request, res: Response) => {
             return;
         }
 
-        const { hosts, name, color } = validationResult.data;
+        const { hosts, previewHosts, name, color } = validationResult.data;
 
         // Check if any of the hosts already exist
         const duplicateHostChecks = await Promise.all(
-            hosts.map(async h => ({ host: h, exists: await projectService.hostExists(h) }))
+            [...hosts, ...(previewHosts ?? [])].map(async h => ({ host: h, exists: await projectService.hostExists(h) }))
         );
         const duplicateHosts = duplicateHostChecks.filter(h => h.exists).map(h => h.host);
 
@@ -74,8 +109,8 @@ projectsRouter.post("/projects", async (req: Request, res: Response) => {
             return;
         }
 
-        // Create the new project (folder name is auto-generated)
-        const newProject = await projectService.createProject(name, color, hosts);
+        // Create the new project (folder name is auto-generated), owned by its creator
+        const newProject = await projectService.createProject(name, color, hosts, previewHosts, actorOf(req.principal!));
 
         // Return success response
         res.status(201).json({
@@ -92,11 +127,21 @@ projectsRouter.post("/projects", async (req: Request, res: Response) => {
 
 /**
  * GET /api/projects
- * List all projects
+ * List all projects the caller is a member of (administrators see every project, API tokens their own)
  */
 projectsRouter.get("/projects", async (req: Request, res: Response) => {
     try {
-        const allProjects = await projectService.getAllProjects();
+        const { user, token } = req.principal!;
+        let allProjects = await projectService.getAllProjects();
+
+        if (token) {
+            allProjects = allProjects.filter(p => p.id === token.projectId);
+        } else if (!user.isAdmin) {
+            const memberships = await userService.getMemberships(user.id);
+            const projectIds = new Set(memberships.map(m => m.projectId));
+            allProjects = allProjects.filter(p => p.id !== undefined && projectIds.has(p.id));
+        }
+
         res.json({
             projects: allProjects,
             count: allProjects.length
@@ -113,7 +158,7 @@ projectsRouter.get("/projects", async (req: Request, res: Response) => {
  * GET /api/projects/:id
  * Get a single project by ID
  */
-projectsRouter.get("/projects/:id", async (req: Request, res: Response) => {
+projectsRouter.get("/projects/:id", requireProjectAccess("viewer", TOKEN_SCOPES), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -148,7 +193,7 @@ projectsRouter.get("/projects/:id", async (req: Request, res: Response) => {
  * PUT /api/projects/:id
  * Update an existing project
  */
-projectsRouter.put("/projects/:id", async (req: Request, res: Response) => {
+projectsRouter.put("/projects/:id", requireProjectAccess("owner", "hosts:manage"), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -172,8 +217,16 @@ projectsRouter.put("/projects/:id", async (req: Request, res: Response) => {
 
         const updates = validationResult.data;
 
+        // API tokens may only manage the hosts of their project
+        if (req.principal!.token && (updates.name !== undefined || updates.color !== undefined)) {
+            res.status(403).json({
+                error: "Forbidden"
+            });
+            return;
+        }
+
         // If updating hosts, check for duplicates (excluding current project's hosts)
-        if (updates.hosts) {
+        if (updates.hosts || updates.previewHosts) {
             const currentProject = await projectService.findProjectById(id);
             if (!currentProject) {
                 res.status(404).json({
@@ -183,11 +236,12 @@ projectsRouter.put("/projects/:id", async (req: Request, res: Response) => {
             }
 
             // Check if any of the new hosts are already used by other projects
+            const currentHosts = [...currentProject.hosts, ...currentProject.previewHosts];
             const duplicateHostChecks = await Promise.all(
-                updates.hosts.map(async h => ({
+                [...(updates.hosts ?? []), ...(updates.previewHosts ?? [])].map(async h => ({
                     host: h,
                     exists: await projectService.hostExists(h),
-                    inCurrentProject: currentProject.hosts.includes(h)
+                    inCurrentProject: currentHosts.includes(h)
                 }))
             );
             const duplicateHosts = duplicateHostChecks
@@ -204,7 +258,7 @@ projectsRouter.put("/projects/:id", async (req: Request, res: Response) => {
         }
 
         // Update the project
-        const updatedProject = await projectService.updateProject(id, updates);
+        const updatedProject = await projectService.updateProject(id, updates, actorOf(req.principal!));
 
         if (!updatedProject) {
             res.status(404).json({
@@ -229,7 +283,7 @@ projectsRouter.put("/projects/:id", async (req: Request, res: Response) => {
  * DELETE /api/projects/:id
  * Delete a project
  */
-projectsRouter.delete("/projects/:id", async (req: Request, res: Response) => {
+projectsRouter.delete("/projects/:id", requireProjectAccess("owner"), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -240,7 +294,7 @@ projectsRouter.delete("/projects/:id", async (req: Request, res: Response) => {
             return;
         }
 
-        const deleted = await projectService.deleteProject(id);
+        const deleted = await projectService.deleteProject(id, actorOf(req.principal!));
 
         if (!deleted) {
             res.status(404).json({
@@ -262,7 +316,7 @@ projectsRouter.delete("/projects/:id", async (req: Request, res: Response) => {
 
 /**
  * POST /api/projects/transfer-host
- * Transfer a hostname from one project to another
+ * Transfer a hostname from one project to another (requires ownership of both)
  */
 projectsRouter.post("/projects/transfer-host", async (req: Request, res: Response) => {
     try {
@@ -280,15 +334,25 @@ projectsRouter.post("/projects/transfer-host", async (req: Request, res: Respons
         const { host, targetProjectId } = validationResult.data;
 
         // Check if host exists
-        if (!(await projectService.hostExists(host))) {
+        const sourceProject = await projectService.findProjectByHost(host);
+        if (!sourceProject?.id) {
             res.status(404).json({
                 error: "Host not found"
             });
             return;
         }
 
+        // Moving a host takes ownership of both projects
+        if (!(await hasProjectAccess(req.principal!, sourceProject.id, "owner")) ||
+            !(await hasProjectAccess(req.principal!, targetProjectId, "owner"))) {
+            res.status(403).json({
+                error: "Forbidden"
+            });
+            return;
+        }
+
         // Transfer the host
-        const transferred = await projectService.transferHost(host, targetProjectId);
+        const transferred = await projectService.transferHost(host, targetProjectId, actorOf(req.principal!));
 
         if (!transferred) {
             res.status(404).json({
@@ -314,7 +378,7 @@ projectsRouter.post("/projects/transfer-host", async (req: Request, res: Respons
  * GET /api/projects/:id/files
  * List all files in a project
  */
-projectsRouter.get("/projects/:id/files", async (req: Request, res: Response) => {
+projectsRouter.get("/projects/:id/files", requireProjectAccess("viewer", "files:read"), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -354,7 +418,7 @@ projectsRouter.get("/projects/:id/files", async (req: Request, res: Response) =>
  * GET /api/projects/:id/file?path=xxx
  * Get a specific file's content
  */
-projectsRouter.get("/projects/:id/file", async (req: Request, res: Response) => {
+projectsRouter.get("/projects/:id/file", requireProjectAccess("viewer", "files:read"), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -425,7 +489,7 @@ projectsRouter.get("/projects/:id/file", async (req: Request, res: Response) =>
  * PUT /api/projects/:id/file
  * Set/update a file's content
  */
-projectsRouter.put("/projects/:id/file", async (req: Request, res: Response) => {
+projectsRouter.put("/projects/:id/file", requireProjectAccess("editor", "files:write"), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -463,7 +527,9 @@ projectsRouter.put("/projects/:id/file", async (req: Request, res: Response) =>
         }
 
         // Write the file using the service (includes security checks)
+        checkFunctionPath(filePath);
         await fileAccessService.writeFile(project, filePath, content);
+        await activityService.recordActivity(actorOf(req.principal!), "file.write", id, { path: filePath, size: Buffer.byteLength(content) });
 
         res.json({
             message: "File saved successfully",
@@ -471,6 +537,13 @@ projectsRouter.put("/projects/:id/file", async (req: Request, res: Response) =>
             path: filePath
         });
     } catch (error: any) {
+        if (error instanceof ReservedPathError) {
+            res.status(400).json({
+                error: error.message
+            });
+            return;
+        }
+
         if (error instanceof AccessDeniedError) {
             res.status(403).json({
                 error: "Access denied"
@@ -489,7 +562,7 @@ projectsRouter.put("/projects/:id/file", async (req: Request, res: Response) =>
  * DELETE /api/projects/:id/file?path=xxx
  * Delete a specific file
  */
-projectsRouter.delete("/projects/:id/file", async (req: Request, res: Response) => {
+projectsRouter.delete("/projects/:id/file", requireProjectAccess("editor", "files:write"), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -521,6 +594,7 @@ projectsRouter.delete("/projects/:id/file", async (req: Request, res: Response)
 
         // Delete the file using the service (validates file exists and is a file)
         await fileAccessService.deleteFile(project, filePath);
+        await activityService.recordActivity(actorOf(req.principal!), "file.delete", id, { path: filePath });
 
         res.json({
             message: "File deleted successfully",
@@ -560,7 +634,7 @@ projectsRouter.delete("/projects/:id/file", async (req: Request, res: Response)
  * POST /api/projects/:id/upload
  * Upload a file to a project (uses original filename)
  */
-projectsRouter.post("/projects/:id/upload", upload.single("file"), async (req: Request, res: Response) => {
+projectsRouter.post("/projects/:id/upload", requireProjectAccess("editor", "files:write"), upload.single("file"), async (req: Request, res: Response) => {
     try {
         const id = parseInt(req.params.id, 10);
 
@@ -592,7 +666,9 @@ projectsRouter.post("/projects/:id/upload", upload.single("file"), async (req: R
         const filename = req.file.originalname;
 
         // Write the file using the service (includes security checks)
+        checkFunctionPath(filename);
         await fileAccessService.writeBinaryFile(project, filename, req.file.buffer);
+        await activityService.recordActivity(actorOf(req.principal!), "file.upload", id, { path: filename, size: req.file.size, mimetype: req.file.mimetype });
 
         res.json({
             message: "File uploaded successfully",
@@ -602,6 +678,13 @@ projectsRouter.post("/projects/:id/upload", upload.single("file"), async (req: R
             mimetype: req.file.mimetype
         });
     } catch (error: any) {
+        if (error instanceof ReservedPathError) {
+            res.status(400).json({
+                error: error.message
+            });
+            return;
+        }
+
         if (error instanceof AccessDeniedError) {
             res.status(403).json({
                 error: "Access denied"
@@ -615,3 +698,288 @@ projectsRouter.post("/projects/:id/upload", upload.single("file"), async (req: R
         });
     }
 });
+
+
+/**
+ * GET /api/projects/:id/versions
+ * List all versions of a project
+ */
+projectsRouter.get("/projects/:id/versions", requireProjectAccess("viewer", "files:read"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        if (isNaN(id)) {
+            res.status(400).json({
+                error: "Invalid project ID"
+            });
+            return;
+        }
+
+        const project = await projectService.findProjectById(id);
+
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const versions = await versionService.getVersions(id);
+
+        res.json({
+            project: project.name,
+            publishedVersionId: project.publishedVersionId ?? null,
+            versions,
+            count: versions.length
+        });
+    } catch (error) {
+        console.error("Error listing versions:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * POST /api/projects/:id/versions
+ * Freeze the current working files into a new version
+ */
+projectsRouter.post("/projects/:id/versions", requireProjectAccess("editor", "publish"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        if (isNaN(id)) {
+            res.status(400).json({
+                error: "Invalid project ID"
+            });
+            return;
+        }
+
+        // Validate request body with Zod
+        const validationResult = createVersionSchema.safeParse(req.body ?? {});
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const project = await projectService.findProjectById(id);
+
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const version = await versionService.createVersion(project, validationResult.data.description);
+        await activityService.recordActivity(actorOf(req.principal!), "version.create", id, { versionId: version.id, number: version.number });
+
+        res.status(201).json({
+            message: "Version created successfully",
+            version
+        });
+    } catch (error) {
+        console.error("Error creating version:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * POST /api/projects/:id/publish
+ * Choose the version served on the project's hosts
+ */
+projectsRouter.post("/projects/:id/publish", requireProjectAccess("editor", "publish"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        if (isNaN(id)) {
+            res.status(400).json({
+                error: "Invalid project ID"
+            });
+            return;
+        }
+
+        // Validate request body with Zod
+        const validationResult = publishSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { versionId } = validationResult.data;
+
+        const project = await projectService.findProjectById(id);
+
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const published = await versionService.publishVersion(id, versionId);
+
+        if (!published) {
+            res.status(404).json({
+                error: "Version not found"
+            });
+            return;
+        }
+
+        await activityService.recordActivity(actorOf(req.principal!), "version.publish", id, { versionId });
+
+        res.json({
+            message: versionId === null ? "Project unpublished successfully" : "Version published successfully",
+            publishedVersionId: versionId
+        });
+    } catch (error) {
+        console.error("Error publishing version:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * Check whether a project with owners keeps at least one once a member is changed or removed
+ */
+function keepsOwner(members: ProjectMember[], userId: number, newRole?: string): boolean {
+    const owners = members.filter(m => m.role === "owner");
+    return owners.length === 0 || owners.some(m => m.userId !== userId) || newRole === "owner";
+}
+
+/**
+ * GET /api/projects/:id/members
+ * List the members of a project with their roles
+ */
+projectsRouter.get("/projects/:id/members", requireProjectAccess("viewer"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        const project = await projectService.findProjectById(id);
+
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const members = await userService.getProjectMembers(id);
+
+        res.json({
+            project: project.name,
+            members,
+            count: members.length
+        });
+    } catch (error) {
+        console.error("Error listing members:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * PUT /api/projects/:id/members/:username
+ * Add a user to a project or change their role
+ */
+projectsRouter.put("/projects/:id/members/:username", requireProjectAccess("owner"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        // Validate request body with Zod
+        const validationResult = setMemberSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { role } = validationResult.data;
+
+        const [project, user] = await Promise.all([
+            projectService.findProjectById(id),
+            userService.findUserByUsername(req.params.username)
+        ]);
+
+        if (!project || !user) {
+            res.status(404).json({
+                error: project ? "User not found" : "Project not found"
+            });
+            return;
+        }
+
+        if (!keepsOwner(await userService.getProjectMembers(id), user.id, role)) {
+            res.status(409).json({
+                error: "A project must keep at least one owner"
+            });
+            return;
+        }
+
+        await userService.setProjectMember(id, user.id, role);
+        await activityService.recordActivity(actorOf(req.principal!), "member.set", id, { username: user.username, role });
+
+        res.json({
+            message: "Member saved successfully",
+            member: { projectId: id, userId: user.id, username: user.username, role }
+        });
+    } catch (error) {
+        console.error("Error saving member:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * DELETE /api/projects/:id/members/:username
+ * Remove a user from a project
+ */
+projectsRouter.delete("/projects/:id/members/:username", requireProjectAccess("owner"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        const members = await userService.getProjectMembers(id);
+        const member = members.find(m => m.username === req.params.username);
+
+        if (!member) {
+            res.status(404).json({
+                error: "Member not found"
+            });
+            return;
+        }
+
+        if (!keepsOwner(members, member.userId)) {
+            res.status(409).json({
+                error: "A project must keep at least one owner"
+            });
+            return;
+        }
+
+        await userService.removeProjectMember(id, member.userId);
+        await activityService.recordActivity(actorOf(req.principal!), "member.remove", id, { username: member.username });
+
+        res.json({
+            message: "Member removed successfully"
+        });
+    } catch (error) {
+        console.error("Error removing member:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
@@ -0,0 +1,150 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import * as projectService from "../db/projectService.js";
+import * as apiTokenService from "../db/apiTokenService.js";
+import * as activityService from "../db/activityService.js";
+import { TOKEN_SCOPES } from "../db/apiTokens.js";
+import { authenticate, requireProjectAccess, actorOf } from "../middleware/auth.js";
+import cors from "cors";
+
+// Create a new router for managing the API tokens of a project
+export const tokensRouter = Router();
+
+tokensRouter.use("/projects", cors());
+tokensRouter.use("/projects", authenticate);
+
+// Zod schema for token creation
+const createTokenSchema = z.object({
+    name: z.string().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+    scopes: z.array(z.enum(TOKEN_SCOPES)).min(1, "At least one scope is required"),
+    expiresAt: z.iso.datetime({ offset: true }).nullable().optional()
+});
+
+/**
+ * GET /api/projects/:id/tokens
+ * List the API tokens of a project
+ */
+tokensRouter.get("/projects/:id/tokens", requireProjectAccess("owner"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        const project = await projectService.findProjectById(id);
+
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const tokens = await apiTokenService.getTokens(id);
+
+        res.json({
+            project: project.name,
+            tokens,
+            count: tokens.length
+        });
+    } catch (error) {
+        console.error("Error listing tokens:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * POST /api/projects/:id/tokens
+ * Create an API token, the token itself is only returned in this response
+ */
+tokensRouter.post("/projects/:id/tokens", requireProjectAccess("owner"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+
+        // Validate request body with Zod
+        const validationResult = createTokenSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { name, scopes, expiresAt } = validationResult.data;
+
+        if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+            res.status(400).json({
+                error: "Expiry must be in the future"
+            });
+            return;
+        }
+
+        const project = await projectService.findProjectById(id);
+
+        if (!project) {
+            res.status(404).json({
+                error: "Project not found"
+            });
+            return;
+        }
+
+        const { token, apiToken } = await apiTokenService.createToken(
+            id,
+            name,
+            [...new Set(scopes)],
+            req.principal!.user?.id ?? null,
+            expiresAt ? new Date(expiresAt) : null
+        );
+        await activityService.recordActivity(actorOf(req.principal!), "token.create", id, { tokenId: apiToken.id, name, scopes: apiToken.scopes });
+
+        res.status(201).json({
+            message: "Token created successfully",
+            token,
+            apiToken
+        });
+    } catch (error) {
+        console.error("Error creating token:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * DELETE /api/projects/:id/tokens/:tokenId
+ * Revoke an API token
+ */
+tokensRouter.delete("/projects/:id/tokens/:tokenId", requireProjectAccess("owner"), async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id, 10);
+        const tokenId = parseInt(req.params.tokenId, 10);
+
+        if (isNaN(tokenId)) {
+            res.status(400).json({
+                error: "Invalid token ID"
+            });
+            return;
+        }
+
+        const revoked = await apiTokenService.revokeToken(id, tokenId);
+
+        if (!revoked) {
+            res.status(404).json({
+                error: "Token not found"
+            });
+            return;
+        }
+
+        await activityService.recordActivity(actorOf(req.principal!), "token.revoke", id, { tokenId });
+
+        res.json({
+            message: "Token revoked successfully"
+        });
+    } catch (error) {
+        console.error("Error revoking token:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
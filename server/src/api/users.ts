@@ -0,0 +1,170 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import * as userService from "../db/userService.js";
+import { authenticate, requireAdmin } from "../middleware/auth.js";
+import cors from "cors";
+
+// Create a new router for user management endpoints (administrators only)
+export const usersRouter = Router();
+
+usersRouter.use("/users", cors());
+usersRouter.use("/users", authenticate, requireAdmin);
+
+// Zod schema for user creation
+const createUserSchema = z.object({
+    username: z.string().regex(/^[A-Za-z0-9_.-]{1,64}$/, "Username may only contain letters, digits, '_', '.' and '-'"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    isAdmin: z.boolean().optional()
+});
+
+// Zod schema for password change
+const setPasswordSchema = z.object({
+    password: z.string().min(8, "Password must be at least 8 characters")
+});
+
+/**
+ * GET /api/users
+ * List all users
+ */
+usersRouter.get("/users", async (req: Request, res: Response) => {
+    try {
+        const users = await userService.getAllUsers();
+        res.json({
+            users,
+            count: users.length
+        });
+    } catch (error) {
+        console.error("Error fetching users:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * POST /api/users
+ * Create a new user
+ */
+usersRouter.post("/users", async (req: Request, res: Response) => {
+    try {
+        // Validate request body with Zod
+        const validationResult = createUserSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const { username, password, isAdmin } = validationResult.data;
+
+        if (await userService.findUserByUsername(username)) {
+            res.status(409).json({
+                error: "Username is already taken"
+            });
+            return;
+        }
+
+        const user = await userService.createUser(username, password, isAdmin);
+
+        res.status(201).json({
+            message: "User created successfully",
+            user
+        });
+    } catch (error) {
+        console.error("Error creating user:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * PUT /api/users/:userId/password
+ * Set the password of a user, ending all of their sessions
+ */
+usersRouter.put("/users/:userId/password", async (req: Request, res: Response) => {
+    try {
+        const userId = parseInt(req.params.userId, 10);
+
+        if (isNaN(userId)) {
+            res.status(400).json({
+                error: "Invalid user ID"
+            });
+            return;
+        }
+
+        // Validate request body with Zod
+        const validationResult = setPasswordSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            res.status(400).json({
+                error: "Validation failed",
+                details: validationResult.error.issues
+            });
+            return;
+        }
+
+        const updated = await userService.setPassword(userId, validationResult.data.password);
+
+        if (!updated) {
+            res.status(404).json({
+                error: "User not found"
+            });
+            return;
+        }
+
+        res.json({
+            message: "Password changed successfully"
+        });
+    } catch (error) {
+        console.error("Error changing password:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
+
+/**
+ * DELETE /api/users/:userId
+ * Delete a user with their sessions and memberships
+ */
+usersRouter.delete("/users/:userId", async (req: Request, res: Response) => {
+    try {
+        const userId = parseInt(req.params.userId, 10);
+
+        if (isNaN(userId)) {
+            res.status(400).json({
+                error: "Invalid user ID"
+            });
+            return;
+        }
+
+        if (userId === req.principal!.user!.id) {
+            res.status(409).json({
+                error: "You cannot delete your own account"
+            });
+            return;
+        }
+
+        const deleted = await userService.deleteUser(userId);
+
+        if (!deleted) {
+            res.status(404).json({
+                error: "User not found"
+            });
+            return;
+        }
+
+        res.json({
+            message: "User deleted successfully"
+        });
+    } catch (error) {
+        console.error("Error deleting user:", error);
+        res.status(500).json({
+            error: "Internal server error"
+        });
+    }
+});
@@ -0,0 +1,47 @@
+export type ActivityType =
+    | "project.create"
+    | "project.update"
+    | "project.delete"
+    | "host.transfer"
+    | "file.write"
+    | "file.upload"
+    | "file.delete"
+    | "version.create"
+    | "version.publish"
+    | "member.set"
+    | "member.remove"
+    | "token.create"
+    | "token.revoke"
+    | "data.settings"
+    | "data.collection.update"
+    | "data.collection.delete"
+    | "data.record.put"
+    | "data.record.delete"
+    | "assistant.run"
+    | "assistant.revert"
+    | "assistant.approve"
+    | "assistant.reject"
+    | "assistant.settings";
+
+/**
+ * Who performed an action: a user, an API token or the system itself
+ */
+export type Actor = {
+    userId?: number | null,
+    tokenId?: number | null,
+    name: string
+}
+
+// Actor of actions that aren't triggered through the API
+export const SYSTEM_ACTOR: Actor = { name: "system" };
+
+export type Activity = {
+    id: number,
+    projectId: number | null,
+    type: ActivityType,
+    actor: string,
+    userId: number | null,
+    tokenId: number | null,
+    details: Record<string, unknown>,
+    createdAt: string
+}
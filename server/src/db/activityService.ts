@@ -0,0 +1,88 @@
+import pg from "pg";
+import { pool } from "./database.js";
+import { Activity, ActivityType, Actor } from "./activity.js";
+
+export interface ActivityRow {
+    id: number;
+    project_id: number | null;
+    type: ActivityType;
+    actor: string;
+    user_id: number | null;
+    token_id: number | null;
+    details: Record<string, unknown>;
+    created_at: string;
+}
+
+/**
+ * Convert database row to Activity object
+ */
+function rowToActivity(row: ActivityRow): Activity {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        type: row.type,
+        actor: row.actor,
+        userId: row.user_id,
+        tokenId: row.token_id,
+        details: row.details,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Record an action in the activity log
+ * @param client - Optional transaction client, so the entry is only kept if the action is committed
+ */
+export async function recordActivity(
+    actor: Actor,
+    type: ActivityType,
+    projectId: number | null,
+    details: Record<string, unknown> = {},
+    client: pg.Pool | pg.PoolClient = pool
+): Promise<void> {
+    await client.query(`
+        INSERT INTO activity (project_id, type, actor, user_id, token_id, details)
+        VALUES ($1, $2, $3, $4, $5, $6)
+    `, [projectId, type, actor.name, actor.userId ?? null, actor.tokenId ?? null, JSON.stringify(details)]);
+}
+
+/**
+ * Get the activity log, newest first
+ * @param filter.projectIds - Restrict to these projects (entries without a project are excluded)
+ * @param filter.type - An exact type or a type prefix, e.g. "file" for all file.* entries
+ */
+export async function getActivity(filter: {
+    projectIds?: number[];
+    type?: string;
+    since?: Date;
+    limit?: number;
+} = {}): Promise<Activity[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.projectIds !== undefined) {
+        params.push(filter.projectIds);
+        conditions.push(`project_id = ANY($${params.length})`);
+    }
+
+    if (filter.type !== undefined) {
+        params.push(filter.type);
+        conditions.push(`(type = $${params.length} OR type LIKE $${params.length} || '.%')`);
+    }
+
+    if (filter.since !== undefined) {
+        params.push(filter.since);
+        conditions.push(`created_at >= $${params.length}`);
+    }
+
+    params.push(filter.limit ?? 100);
+
+    const result = await pool.query(`
+        SELECT * FROM activity
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${params.length}
+    `, params);
+
+    return (result.rows as ActivityRow[]).map(rowToActivity);
+}
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createToken, useToken } from "./apiTokenService.js";
+import { pool } from "./database.js";
+import { hashToken } from "../services/credentials.js";
+
+vi.mock("./database.js", () => ({
+    pool: { query: vi.fn() }
+}));
+
+const query = vi.mocked(pool.query) as unknown as ReturnType<typeof vi.fn>;
+
+const row = {
+    id: 3, project_id: 10, name: "ci", token_hash: "hash", scopes: ["publish"],
+    created_by: 1, expires_at: null, revoked_at: null, last_used_at: null, created_at: "2024-05-01T12:00:00Z"
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("createToken", () => {
+    it("stores only the hash of the token", async () => {
+        query.mockResolvedValue({ rows: [row] });
+
+        const { token, apiToken } = await createToken(10, "ci", ["publish"], 1);
+        expect(token).toMatch(/^sdt_/);
+        expect(query.mock.calls[0][1]).toEqual([10, "ci", hashToken(token), ["publish"], 1, null]);
+        expect(apiToken).not.toHaveProperty("tokenHash");
+        expect(JSON.stringify(apiToken)).not.toContain("hash");
+    });
+});
+
+describe("useToken", () => {
+    it("looks tokens up by their hash, skipping revoked and expired ones", async () => {
+        query.mockResolvedValue({ rows: [row] });
+
+        expect(await useToken("sdt_abc")).toMatchObject({ id: 3, projectId: 10, scopes: ["publish"] });
+        const [sql, params] = query.mock.calls[0];
+        expect(params).toEqual([hashToken("sdt_abc")]);
+        expect(sql).toContain("revoked_at IS NULL");
+        expect(sql).toContain("expires_at > CURRENT_TIMESTAMP");
+    });
+
+    it("finds nothing for unknown tokens", async () => {
+        query.mockResolvedValue({ rows: [] });
+
+        expect(await useToken("sdt_unknown")).toBeUndefined();
+    });
+});
@@ -0,0 +1,98 @@
+import { pool } from "./database.js";
+import { ApiToken, TokenScope, API_TOKEN_PREFIX } from "./apiTokens.js";
+import { generateToken, hashToken } from "../services/credentials.js";
+
+export interface ApiTokenRow {
+    id: number;
+    project_id: number;
+    name: string;
+    scopes: TokenScope[];
+    created_by: number | null;
+    expires_at: string | null;
+    revoked_at: string | null;
+    last_used_at: string | null;
+    created_at: string;
+}
+
+/**
+ * Convert database row to ApiToken object (never exposes the token hash)
+ */
+function rowToApiToken(row: ApiTokenRow): ApiToken {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        name: row.name,
+        scopes: row.scopes,
+        createdBy: row.created_by,
+        expiresAt: row.expires_at,
+        revokedAt: row.revoked_at,
+        lastUsedAt: row.last_used_at,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Get all API tokens of a project, including revoked and expired ones
+ */
+export async function getTokens(projectId: number): Promise<ApiToken[]> {
+    const result = await pool.query(`
+        SELECT * FROM api_tokens WHERE project_id = $1 ORDER BY created_at DESC, id DESC
+    `, [projectId]);
+
+    return (result.rows as ApiTokenRow[]).map(rowToApiToken);
+}
+
+/**
+ * Create a new API token for a project
+ * @param expiresAt - Optional expiry, the token is valid until revoked without one
+ * @returns The token (only returned once, just its hash is stored) and its details
+ */
+export async function createToken(
+    projectId: number,
+    name: string,
+    scopes: TokenScope[],
+    createdBy: number | null,
+    expiresAt: Date | null = null
+): Promise<{ token: string; apiToken: ApiToken }> {
+    const token = generateToken(API_TOKEN_PREFIX);
+
+    const result = await pool.query(`
+        INSERT INTO api_tokens (project_id, name, token_hash, scopes, created_by, expires_at)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+    `, [projectId, name, hashToken(token), scopes, createdBy, expiresAt]);
+
+    return { token, apiToken: rowToApiToken(result.rows[0] as ApiTokenRow) };
+}
+
+/**
+ * Revoke an API token of a project
+ * @returns True if the token existed and wasn't revoked yet
+ */
+export async function revokeToken(projectId: number, tokenId: number): Promise<boolean> {
+    const result = await pool.query(`
+        UPDATE api_tokens SET revoked_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND project_id = $2 AND revoked_at IS NULL
+    `, [tokenId, projectId]);
+
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Find an unexpired, unrevoked API token and record that it was used
+ */
+export async function useToken(token: string): Promise<ApiToken | undefined> {
+    const result = await pool.query(`
+        UPDATE api_tokens SET last_used_at = CURRENT_TIMESTAMP
+        WHERE token_hash = $1
+          AND revoked_at IS NULL
+          AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+        RETURNING *
+    `, [hashToken(token)]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToApiToken(result.rows[0] as ApiTokenRow);
+}
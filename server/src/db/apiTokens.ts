@@ -0,0 +1,19 @@
+export type TokenScope = "files:read" | "files:write" | "publish" | "hosts:manage";
+
+// Actions an API token can be allowed to perform within its project
+export const TOKEN_SCOPES: TokenScope[] = ["files:read", "files:write", "publish", "hosts:manage"];
+
+// Prefix making API tokens recognizable (and distinguishable from session tokens)
+export const API_TOKEN_PREFIX = "sdt_";
+
+export type ApiToken = {
+    id: number,
+    projectId: number,
+    name: string,
+    scopes: TokenScope[],
+    createdBy: number | null,
+    expiresAt: string | null,
+    revokedAt: string | null,
+    lastUsedAt: string | null,
+    createdAt: string
+}
@@ -0,0 +1,83 @@
+import { pool } from "./database.js";
+import { AssistantRun } from "./assistantRuns.js";
+
+export interface AssistantRunRow {
+    id: number;
+    project_id: number;
+    user_id: number | null;
+    mode: string;
+    model: string;
+    status: AssistantRun["status"];
+    requests: number;
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+    files_changed: number;
+    bytes_written: number;
+    change_set_id: number | null;
+    created_at: string;
+}
+
+/**
+ * Convert database row to AssistantRun object
+ */
+function rowToAssistantRun(row: AssistantRunRow): AssistantRun {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        userId: row.user_id,
+        mode: row.mode,
+        model: row.model,
+        status: row.status,
+        requests: row.requests,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        totalTokens: row.total_tokens,
+        filesChanged: row.files_changed,
+        bytesWritten: row.bytes_written,
+        changeSetId: row.change_set_id,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Get the most recent assistant runs of a project, newest first
+ */
+export async function getRuns(projectId: number, limit: number = 50): Promise<AssistantRun[]> {
+    const result = await pool.query(`
+        SELECT * FROM assistant_runs WHERE project_id = $1
+        ORDER BY created_at DESC, id DESC
+        LIMIT $2
+    `, [projectId, limit]);
+
+    return (result.rows as AssistantRunRow[]).map(rowToAssistantRun);
+}
+
+/**
+ * Record an assistant run with its usage
+ */
+export async function recordRun(run: Omit<AssistantRun, "id" | "createdAt">): Promise<AssistantRun> {
+    const result = await pool.query(`
+        INSERT INTO assistant_runs (
+            project_id, user_id, mode, model, status, requests, input_tokens, output_tokens, total_tokens,
+            files_changed, bytes_written, change_set_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *
+    `, [
+        run.projectId,
+        run.userId,
+        run.mode,
+        run.model,
+        run.status,
+        run.requests,
+        run.inputTokens,
+        run.outputTokens,
+        run.totalTokens,
+        run.filesChanged,
+        run.bytesWritten,
+        run.changeSetId
+    ]);
+
+    return rowToAssistantRun(result.rows[0] as AssistantRunRow);
+}
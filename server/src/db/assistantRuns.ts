@@ -0,0 +1,25 @@
+export type RunStatus = "completed" | "failed" | "cancelled" | "limited";
+
+/**
+ * Resources an assistant run used
+ */
+export type RunUsage = {
+    requests: number,
+    inputTokens: number,
+    outputTokens: number,
+    totalTokens: number,
+    filesChanged: number,
+    bytesWritten: number
+}
+
+export type AssistantRun = RunUsage & {
+    id: number,
+    projectId: number,
+    userId: number | null,
+    mode: string,
+    model: string,
+    // "limited" runs were stopped by the token limit of the project
+    status: RunStatus,
+    changeSetId: number | null,
+    createdAt: string
+}
@@ -0,0 +1,15 @@
+/**
+ * Assistant settings of a project, null values fall back to the server configuration
+ */
+export type AssistantSettings = {
+    model: string | null,
+    temperature: number | null,
+    maxTurns: number | null,
+    maxFilesPerRun: number | null,
+    maxBytesPerRun: number | null,
+    maxTokensPerRun: number | null,
+    // Glob patterns of files the assistant can read but not change
+    protectedPaths: string[],
+    // Merged into the agent instructions on every run, together with the project's _assistant.md
+    instructions: string | null
+}
@@ -0,0 +1,89 @@
+import { pool } from "./database.js";
+import { AssistantSettings } from "./assistantSettings.js";
+
+export interface AssistantSettingsRow {
+    model: string | null;
+    temperature: number | null;
+    max_turns: number | null;
+    max_files_per_run: number | null;
+    max_bytes_per_run: number | null;
+    max_tokens_per_run: number | null;
+    protected_paths: string[];
+    instructions: string | null;
+}
+
+/**
+ * Convert database row to AssistantSettings object
+ */
+function rowToAssistantSettings(row: AssistantSettingsRow): AssistantSettings {
+    return {
+        model: row.model,
+        temperature: row.temperature,
+        maxTurns: row.max_turns,
+        maxFilesPerRun: row.max_files_per_run,
+        maxBytesPerRun: row.max_bytes_per_run,
+        maxTokensPerRun: row.max_tokens_per_run,
+        protectedPaths: row.protected_paths,
+        instructions: row.instructions
+    };
+}
+
+/**
+ * Get the assistant settings of a project, a project without settings gets all null values
+ */
+export async function getAssistantSettings(projectId: number): Promise<AssistantSettings> {
+    const result = await pool.query(`
+        SELECT * FROM project_assistant_settings WHERE project_id = $1
+    `, [projectId]);
+
+    if (result.rows.length === 0) {
+        return {
+            model: null,
+            temperature: null,
+            maxTurns: null,
+            maxFilesPerRun: null,
+            maxBytesPerRun: null,
+            maxTokensPerRun: null,
+            protectedPaths: [],
+            instructions: null
+        };
+    }
+
+    return rowToAssistantSettings(result.rows[0] as AssistantSettingsRow);
+}
+
+/**
+ * Replace the assistant settings of a project
+ */
+export async function setAssistantSettings(projectId: number, settings: AssistantSettings): Promise<AssistantSettings> {
+    const result = await pool.query(`
+        INSERT INTO project_assistant_settings (
+            project_id, model, temperature, max_turns, max_files_per_run, max_bytes_per_run, max_tokens_per_run, protected_paths,
+            instructions
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (project_id) DO UPDATE SET
+            model = EXCLUDED.model,
+            temperature = EXCLUDED.temperature,
+            max_turns = EXCLUDED.max_turns,
+            max_files_per_run = EXCLUDED.max_files_per_run,
+            max_bytes_per_run = EXCLUDED.max_bytes_per_run,
+            max_tokens_per_run = EXCLUDED.max_tokens_per_run,
+            protected_paths = EXCLUDED.protected_paths,
+            instructions = EXCLUDED.instructions,
+            updated_at = CURRENT_TIMESTAMP
+        RETURNING *
+    `, [
+        projectId,
+        settings.model,
+        settings.temperature,
+        settings.maxTurns,
+        settings.maxFilesPerRun,
+        settings.maxBytesPerRun,
+        settings.maxTokensPerRun,
+        settings.protectedPaths,
+        settings.instructions
+    ]);
+
+    return rowToAssistantSettings(result.rows[0] as AssistantSettingsRow);
+}
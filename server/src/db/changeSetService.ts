@@ -0,0 +1,105 @@
+import { pool } from "./database.js";
+import { ChangeSet, FileChange } from "./changeSets.js";
+
+export interface ChangeSetRow {
+    id: number;
+    project_id: number;
+    user_id: number | null;
+    prompt: string;
+    created_at: string;
+    reverted_at: string | null;
+}
+
+export interface FileChangeRow {
+    path: string;
+    before_content: string | null;
+    after_content: string | null;
+}
+
+/**
+ * Convert database rows to ChangeSet object
+ */
+function rowToChangeSet(row: ChangeSetRow, changes: FileChangeRow[]): ChangeSet {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        userId: row.user_id,
+        prompt: row.prompt,
+        createdAt: row.created_at,
+        revertedAt: row.reverted_at,
+        changes: changes.map(change => ({
+            path: change.path,
+            before: change.before_content,
+            after: change.after_content
+        }))
+    };
+}
+
+/**
+ * Find a change set by ID, with the files it changed
+ */
+export async function findChangeSetById(id: number): Promise<ChangeSet | undefined> {
+    const result = await pool.query(`
+        SELECT * FROM assistant_change_sets WHERE id = $1
+    `, [id]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    const changes = await pool.query(`
+        SELECT path, before_content, after_content FROM assistant_changes
+        WHERE change_set_id = $1
+        ORDER BY id
+    `, [id]);
+
+    return rowToChangeSet(result.rows[0] as ChangeSetRow, changes.rows as FileChangeRow[]);
+}
+
+/**
+ * Start an empty change set for an assistant run
+ * @returns The ID of the change set
+ */
+export async function createChangeSet(projectId: number, userId: number | null, prompt: string): Promise<number> {
+    const result = await pool.query(`
+        INSERT INTO assistant_change_sets (project_id, user_id, prompt)
+        VALUES ($1, $2, $3)
+        RETURNING id
+    `, [projectId, userId, prompt]);
+
+    return result.rows[0].id;
+}
+
+/**
+ * Record a change to a file, a file changed repeatedly keeps the content it had before the first change
+ */
+export async function recordChange(changeSetId: number, change: FileChange): Promise<void> {
+    await pool.query(`
+        INSERT INTO assistant_changes (change_set_id, path, before_content, after_content)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (change_set_id, path) DO UPDATE SET after_content = EXCLUDED.after_content
+    `, [changeSetId, change.path, change.before, change.after]);
+}
+
+/**
+ * Mark a change set as reverted
+ * @returns False if it was reverted before
+ */
+export async function markReverted(id: number): Promise<boolean> {
+    const result = await pool.query(`
+        UPDATE assistant_change_sets SET reverted_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND reverted_at IS NULL
+    `, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Undo markReverted() after the files of a change set could not be restored
+ */
+export async function unmarkReverted(id: number): Promise<void> {
+    await pool.query(`
+        UPDATE assistant_change_sets SET reverted_at = NULL
+        WHERE id = $1
+    `, [id]);
+}
@@ -0,0 +1,17 @@
+export type FileChange = {
+    path: string,
+    // null if the file did not exist before the run
+    before: string | null,
+    // null if the run deleted the file
+    after: string | null
+}
+
+export type ChangeSet = {
+    id: number,
+    projectId: number,
+    userId: number | null,
+    prompt: string,
+    createdAt: string,
+    revertedAt: string | null,
+    changes: FileChange[]
+}
@@ -0,0 +1,161 @@
+import { AgentInputItem } from "@openai/agents";
+import { pool } from "./database.js";
+import { Conversation, ConversationMessage, ConversationRole, ToolCall } from "./conversations.js";
+
+export interface ConversationRow {
+    id: number;
+    project_id: number;
+    user_id: number | null;
+    title: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface ConversationMessageRow {
+    id: number;
+    conversation_id: number;
+    role: ConversationRole;
+    content: string;
+    tool_calls: ToolCall[];
+    change_set_id: number | null;
+    created_at: string;
+}
+
+/**
+ * Convert database row to Conversation object
+ */
+function rowToConversation(row: ConversationRow): Conversation {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        userId: row.user_id,
+        title: row.title,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
+/**
+ * Convert database row to ConversationMessage object
+ */
+function rowToMessage(row: ConversationMessageRow): ConversationMessage {
+    return {
+        id: row.id,
+        conversationId: row.conversation_id,
+        role: row.role,
+        content: row.content,
+        toolCalls: row.tool_calls,
+        changeSetId: row.change_set_id,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Get the conversations of a project, most recently active first
+ */
+export async function getConversations(projectId: number): Promise<Conversation[]> {
+    const result = await pool.query(`
+        SELECT id, project_id, user_id, title, created_at, updated_at FROM assistant_conversations
+        WHERE project_id = $1
+        ORDER BY updated_at DESC, id DESC
+    `, [projectId]);
+
+    return (result.rows as ConversationRow[]).map(rowToConversation);
+}
+
+/**
+ * Find a conversation by ID
+ */
+export async function findConversationById(id: number): Promise<Conversation | undefined> {
+    const result = await pool.query(`
+        SELECT id, project_id, user_id, title, created_at, updated_at FROM assistant_conversations WHERE id = $1
+    `, [id]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToConversation(result.rows[0] as ConversationRow);
+}
+
+/**
+ * Get the messages of a conversation in chronological order
+ */
+export async function getMessages(conversationId: number): Promise<ConversationMessage[]> {
+    const result = await pool.query(`
+        SELECT * FROM assistant_messages WHERE conversation_id = $1 ORDER BY id
+    `, [conversationId]);
+
+    return (result.rows as ConversationMessageRow[]).map(rowToMessage);
+}
+
+/**
+ * Get the agent history of a conversation, the input to continue it with
+ */
+export async function getHistory(conversationId: number): Promise<AgentInputItem[]> {
+    const result = await pool.query(`
+        SELECT history FROM assistant_conversations WHERE id = $1
+    `, [conversationId]);
+
+    return result.rows[0]?.history ?? [];
+}
+
+/**
+ * Start a new conversation, titled after its first prompt
+ */
+export async function createConversation(projectId: number, userId: number | null, prompt: string): Promise<Conversation> {
+    const title = prompt.length > 80 ? `${prompt.slice(0, 77)}...` : prompt;
+
+    const result = await pool.query(`
+        INSERT INTO assistant_conversations (project_id, user_id, title)
+        VALUES ($1, $2, $3)
+        RETURNING id, project_id, user_id, title, created_at, updated_at
+    `, [projectId, userId, title]);
+
+    return rowToConversation(result.rows[0] as ConversationRow);
+}
+
+/**
+ * Store a prompt with the assistant's reply and the resulting agent history
+ * @param changeSetId - Files changed by the run, null if it changed none
+ */
+export async function appendExchange(
+    conversationId: number,
+    prompt: string,
+    reply: string,
+    toolCalls: ToolCall[],
+    changeSetId: number | null,
+    history: AgentInputItem[]
+): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+
+        await client.query(`
+            INSERT INTO assistant_messages (conversation_id, role, content, tool_calls, change_set_id)
+            VALUES ($1, 'user', $2, '[]', NULL), ($1, 'assistant', $3, $4, $5)
+        `, [conversationId, prompt, reply, JSON.stringify(toolCalls), changeSetId]);
+
+        await client.query(`
+            UPDATE assistant_conversations SET history = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2
+        `, [JSON.stringify(history), conversationId]);
+
+        await client.query('COMMIT');
+    } catch (e) {
+        await client.query('ROLLBACK');
+        throw e;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Delete a conversation with its messages
+ */
+export async function deleteConversation(id: number): Promise<boolean> {
+    const result = await pool.query(`
+        DELETE FROM assistant_conversations WHERE id = $1
+    `, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,26 @@
+export type ConversationRole = "user" | "assistant";
+
+export type ToolCall = {
+    tool: string,
+    path?: string
+}
+
+export type Conversation = {
+    id: number,
+    projectId: number,
+    userId: number | null,
+    title: string,
+    createdAt: string,
+    updatedAt: string
+}
+
+export type ConversationMessage = {
+    id: number,
+    conversationId: number,
+    role: ConversationRole,
+    content: string,
+    toolCalls: ToolCall[],
+    // Files changed by the run that produced an assistant reply
+    changeSetId: number | null,
+    createdAt: string
+}
@@ -0,0 +1,18 @@
+export type DataCollection = {
+    name: string,
+    publicRead: boolean,
+    recordCount: number,
+    size: number
+}
+
+export type DataRecord = {
+    key: string,
+    value: unknown,
+    createdAt: string,
+    updatedAt: string
+}
+
+export type DataUsage = {
+    usedBytes: number,
+    quotaBytes: number
+}
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as dataService from "./dataService.js";
+import { pool } from "./database.js";
+import { DataQuotaExceededError } from "../services/errors.js";
+
+vi.mock("./database.js", () => ({
+    pool: { query: vi.fn(), connect: vi.fn() }
+}));
+
+const query = vi.mocked(pool.query) as unknown as ReturnType<typeof vi.fn>;
+
+// Transaction client answering the quota and usage queries of putRecord()
+function client(quota: number | null, used: number) {
+    const client = {
+        query: vi.fn(async (sql: string, params?: unknown[]) => {
+            if (sql.includes("data_quota_bytes")) {
+                return { rows: [{ data_quota_bytes: quota }] };
+            }
+            if (sql.includes("AS used")) {
+                return { rows: [{ used: String(used) }] };
+            }
+            if (sql.includes("INSERT INTO project_data_collections")) {
+                return { rows: [{ id: 5 }] };
+            }
+            if (sql.includes("INSERT INTO project_data ")) {
+                return { rows: [{ key: "a", value: "x", created_at: "now", updated_at: "now" }] };
+            }
+            return { rows: [] };
+        }),
+        release: vi.fn()
+    };
+    vi.mocked(pool.connect).mockResolvedValue(client as never);
+    return client;
+}
+
+const statements = (client: { query: ReturnType<typeof vi.fn> }) => client.query.mock.calls.map(([sql]) => sql.trim());
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("names and keys", () => {
+    it("accepts URL-safe names and keys", () => {
+        expect(dataService.isValidCollectionName("guest_book-2")).toBe(true);
+        expect(dataService.isValidRecordKey("user@example.com:1.0")).toBe(true);
+    });
+
+    it("rejects anything else", () => {
+        expect(dataService.isValidCollectionName("a/b")).toBe(false);
+        expect(dataService.isValidCollectionName("")).toBe(false);
+        expect(dataService.isValidCollectionName("x".repeat(65))).toBe(false);
+        expect(dataService.isValidCollectionName(undefined)).toBe(false);
+        expect(dataService.isValidRecordKey("a b")).toBe(false);
+        expect(dataService.isValidRecordKey("../a")).toBe(false);
+        expect(dataService.isValidRecordKey("%")).toBe(false);
+    });
+});
+
+describe("isCollectionPublic", () => {
+    it("only allows collections marked as publicly readable", async () => {
+        query.mockResolvedValueOnce({ rows: [{ public_read: true }] });
+        expect(await dataService.isCollectionPublic(1, "posts")).toBe(true);
+
+        query.mockResolvedValueOnce({ rows: [{ public_read: false }] });
+        expect(await dataService.isCollectionPublic(1, "secrets")).toBe(false);
+
+        query.mockResolvedValueOnce({ rows: [] });
+        expect(await dataService.isCollectionPublic(1, "missing")).toBe(false);
+    });
+});
+
+describe("listRecords", () => {
+    it("matches the prefix literally", async () => {
+        query.mockResolvedValue({ rows: [] });
+
+        await dataService.listRecords(1, "posts", { prefix: "50%_off\\" });
+        expect(query.mock.calls[0][1]).toEqual([1, "posts", "50\\%\\_off\\\\%", 100, 0]);
+
+        await dataService.listRecords(1, "posts", { limit: 10, offset: 20 });
+        expect(query.mock.calls[1][1]).toEqual([1, "posts", "%", 10, 20]);
+    });
+});
+
+describe("putRecord", () => {
+    it("stores records within the quota", async () => {
+        const transaction = client(100, 40);
+
+        // 1 byte key, 3 bytes JSON
+        await dataService.putRecord(1, "posts", "a", "x");
+        expect(statements(transaction).at(-1)).toBe("COMMIT");
+        expect(transaction.query.mock.calls.find(([sql]) => sql.includes("INSERT INTO project_data "))?.[1]).toEqual([5, "a", "\"x\"", 4]);
+        expect(transaction.release).toHaveBeenCalled();
+    });
+
+    it("refuses records exceeding the quota and rolls back", async () => {
+        const transaction = client(100, 97);
+
+        await expect(dataService.putRecord(1, "posts", "a", "x")).rejects.toThrow(DataQuotaExceededError);
+        expect(statements(transaction).at(-1)).toBe("ROLLBACK");
+        expect(statements(transaction).some(sql => sql.startsWith("INSERT"))).toBe(false);
+        expect(transaction.release).toHaveBeenCalled();
+    });
+
+    it("counts the records other than the one replaced against the quota", async () => {
+        const transaction = client(100, 96);
+
+        await dataService.putRecord(1, "posts", "a", "x");
+        expect(transaction.query.mock.calls.find(([sql]) => sql.includes("AS used"))?.[1]).toEqual([1, "posts", "a"]);
+    });
+
+    it("applies the default quota to projects without their own", async () => {
+        client(null, 5 * 1024 * 1024 - 4);
+        await expect(dataService.putRecord(1, "posts", "a", "x")).resolves.toBeDefined();
+
+        client(null, 5 * 1024 * 1024 - 3);
+        await expect(dataService.putRecord(1, "posts", "a", "x")).rejects.toThrow("quota of 5242880 bytes exceeded");
+    });
+});
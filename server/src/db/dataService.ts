@@ -0,0 +1,223 @@
+import { pool } from "./database.js";
+import { DataCollection, DataRecord, DataUsage } from "./data.js";
+import { DataQuotaExceededError } from "../services/errors.js";
+
+// Default data store quota per project
+const DATA_QUOTA_BYTES = parseInt(process.env.DATA_QUOTA_BYTES || String(5 * 1024 * 1024));
+
+const COLLECTION_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+const RECORD_KEY = /^[A-Za-z0-9_.:@-]{1,200}$/;
+
+export interface DataRecordRow {
+    collection_id: number;
+    key: string;
+    value: unknown;
+    size: number;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Convert database row to DataRecord object
+ */
+function rowToRecord(row: DataRecordRow): DataRecord {
+    return {
+        key: row.key,
+        value: row.value,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
+/**
+ * Check if a collection name is valid (letters, digits, underscores and hyphens)
+ */
+export function isValidCollectionName(name: unknown): name is string {
+    return typeof name === "string" && COLLECTION_NAME.test(name);
+}
+
+/**
+ * Check if a record key is valid (URL-safe characters only)
+ */
+export function isValidRecordKey(key: unknown): key is string {
+    return typeof key === "string" && RECORD_KEY.test(key);
+}
+
+/**
+ * Get the collections of a project with their record count and size
+ */
+export async function getCollections(projectId: number): Promise<DataCollection[]> {
+    const result = await pool.query(`
+        SELECT c.name, c.public_read, COUNT(d.key) AS record_count, COALESCE(SUM(d.size), 0) AS size
+        FROM project_data_collections c
+        LEFT JOIN project_data d ON d.collection_id = c.id
+        WHERE c.project_id = $1
+        GROUP BY c.id
+        ORDER BY c.name
+    `, [projectId]);
+
+    return result.rows.map(row => ({
+        name: row.name,
+        publicRead: row.public_read,
+        recordCount: parseInt(row.record_count),
+        size: parseInt(row.size)
+    }));
+}
+
+/**
+ * Check if the records of a collection may be read through the public endpoint
+ */
+export async function isCollectionPublic(projectId: number, name: string): Promise<boolean> {
+    const result = await pool.query(`
+        SELECT public_read FROM project_data_collections WHERE project_id = $1 AND name = $2
+    `, [projectId, name]);
+
+    return result.rows.length > 0 && result.rows[0].public_read === true;
+}
+
+/**
+ * Create or update the settings of a collection
+ */
+export async function updateCollection(projectId: number, name: string, settings: { publicRead: boolean }): Promise<void> {
+    await pool.query(`
+        INSERT INTO project_data_collections (project_id, name, public_read)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (project_id, name) DO UPDATE SET public_read = EXCLUDED.public_read
+    `, [projectId, name, settings.publicRead]);
+}
+
+/**
+ * Delete a collection with all its records
+ */
+export async function deleteCollection(projectId: number, name: string): Promise<boolean> {
+    const result = await pool.query(`
+        DELETE FROM project_data_collections WHERE project_id = $1 AND name = $2
+    `, [projectId, name]);
+
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * List the records of a collection ordered by key
+ */
+export async function listRecords(projectId: number, collection: string, options: { prefix?: string; limit?: number; offset?: number } = {}): Promise<DataRecord[]> {
+    const result = await pool.query(`
+        SELECT d.* FROM project_data d
+        JOIN project_data_collections c ON c.id = d.collection_id
+        WHERE c.project_id = $1 AND c.name = $2 AND d.key LIKE $3
+        ORDER BY d.key
+        LIMIT $4 OFFSET $5
+    `, [projectId, collection, `${(options.prefix ?? "").replace(/[\\%_]/g, "\\$&")}%`, options.limit ?? 100, options.offset ?? 0]);
+
+    return (result.rows as DataRecordRow[]).map(rowToRecord);
+}
+
+/**
+ * Find a record by key
+ */
+export async function getRecord(projectId: number, collection: string, key: string): Promise<DataRecord | undefined> {
+    const result = await pool.query(`
+        SELECT d.* FROM project_data d
+        JOIN project_data_collections c ON c.id = d.collection_id
+        WHERE c.project_id = $1 AND c.name = $2 AND d.key = $3
+    `, [projectId, collection, key]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToRecord(result.rows[0] as DataRecordRow);
+}
+
+/**
+ * Create or replace a record, creating the collection on first use
+ * @throws {DataQuotaExceededError} if the project's quota would be exceeded
+ */
+export async function putRecord(projectId: number, collection: string, key: string, value: unknown): Promise<DataRecord> {
+    const size = Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(value));
+
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+
+        // Lock the project row so concurrent writes can't overrun the quota together
+        const projectResult = await client.query(`
+            SELECT data_quota_bytes FROM projects WHERE id = $1 FOR UPDATE
+        `, [projectId]);
+        const quota = projectResult.rows[0]?.data_quota_bytes ?? DATA_QUOTA_BYTES;
+
+        const usedResult = await client.query(`
+            SELECT COALESCE(SUM(d.size), 0) AS used FROM project_data d
+            JOIN project_data_collections c ON c.id = d.collection_id
+            WHERE c.project_id = $1 AND NOT (c.name = $2 AND d.key = $3)
+        `, [projectId, collection, key]);
+
+        if (parseInt(usedResult.rows[0].used) + size > quota) {
+            throw new DataQuotaExceededError(`Data store quota of ${quota} bytes exceeded`);
+        }
+
+        const collectionResult = await client.query(`
+            INSERT INTO project_data_collections (project_id, name)
+            VALUES ($1, $2)
+            ON CONFLICT (project_id, name) DO UPDATE SET name = EXCLUDED.name
+            RETURNING id
+        `, [projectId, collection]);
+
+        const recordResult = await client.query(`
+            INSERT INTO project_data (collection_id, key, value, size)
+            VALUES ($1, $2, $3, $4)
+            ON CONFLICT (collection_id, key) DO UPDATE
+                SET value = EXCLUDED.value, size = EXCLUDED.size, updated_at = CURRENT_TIMESTAMP
+            RETURNING *
+        `, [collectionResult.rows[0].id, key, JSON.stringify(value), size]);
+
+        await client.query('COMMIT');
+
+        return rowToRecord(recordResult.rows[0] as DataRecordRow);
+    } catch (e) {
+        await client.query('ROLLBACK');
+        throw e;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Delete a record by key
+ */
+export async function deleteRecord(projectId: number, collection: string, key: string): Promise<boolean> {
+    const result = await pool.query(`
+        DELETE FROM project_data d
+        USING project_data_collections c
+        WHERE c.id = d.collection_id AND c.project_id = $1 AND c.name = $2 AND d.key = $3
+    `, [projectId, collection, key]);
+
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Get the used and available data store size of a project
+ */
+export async function getUsage(projectId: number): Promise<DataUsage> {
+    const result = await pool.query(`
+        SELECT
+            (SELECT data_quota_bytes FROM projects WHERE id = $1) AS quota,
+            (SELECT COALESCE(SUM(d.size), 0) FROM project_data d
+                JOIN project_data_collections c ON c.id = d.collection_id
+                WHERE c.project_id = $1) AS used
+    `, [projectId]);
+
+    return {
+        usedBytes: parseInt(result.rows[0].used),
+        quotaBytes: result.rows[0].quota ?? DATA_QUOTA_BYTES
+    };
+}
+
+/**
+ * Set the data store quota of a project (null restores the default)
+ */
+export async function setQuota(projectId: number, quotaBytes: number | null): Promise<void> {
+    await pool.query(`
+        UPDATE projects SET data_quota_bytes = $1 WHERE id = $2
+    `, [quotaBytes, projectId]);
+}
@@ -1,4 +1,7 @@
 import pg from "pg";
+import crypto from "crypto";
+import { previewHostFor } from "./projects.js";
+import { hashPassword } from "../services/credentials.js";
 
 const { Pool } = pg;
 
@@ -55,6 +58,257 @@ export async function initializeDatabase() {
         )
     `);
 
+    // Preview hosts serve the working copy instead of the published version
+    await pool.query(`
+        ALTER TABLE project_hosts ADD COLUMN IF NOT EXISTS preview BOOLEAN NOT NULL DEFAULT false
+    `);
+
+    // Create project_versions table (immutable snapshots of the working copy)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS project_versions (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER NOT NULL,
+            number INTEGER NOT NULL,
+            description TEXT NOT NULL DEFAULT '',
+            file_count INTEGER NOT NULL DEFAULT 0,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (project_id, number),
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Pointer to the version served on the project's hosts
+    await pool.query(`
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS published_version_id INTEGER
+            REFERENCES project_versions(id) ON DELETE SET NULL
+    `);
+
+    // Create project_data_collections table (namespaces of the per-project data store)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS project_data_collections (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            public_read BOOLEAN NOT NULL DEFAULT false,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (project_id, name),
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Create project_data table (JSON records of a collection)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS project_data (
+            collection_id INTEGER NOT NULL,
+            key TEXT NOT NULL,
+            value JSONB NOT NULL,
+            size INTEGER NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (collection_id, key),
+            FOREIGN KEY (collection_id) REFERENCES project_data_collections(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Per-project override of the data store quota (NULL uses DATA_QUOTA_BYTES)
+    await pool.query(`
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS data_quota_bytes INTEGER
+    `);
+
+    // Create users table
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS users (
+            id SERIAL PRIMARY KEY,
+            username TEXT NOT NULL UNIQUE,
+            password_hash TEXT NOT NULL,
+            is_admin BOOLEAN NOT NULL DEFAULT false,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Create sessions table (only a hash of the bearer token is stored)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS sessions (
+            id SERIAL PRIMARY KEY,
+            user_id INTEGER NOT NULL,
+            token_hash TEXT NOT NULL UNIQUE,
+            expires_at TIMESTAMP NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Create project_members table (role of a user within a project)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS project_members (
+            project_id INTEGER NOT NULL,
+            user_id INTEGER NOT NULL,
+            role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+            PRIMARY KEY (project_id, user_id),
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Create api_tokens table (project scoped tokens for scripts, only a hash of the token is stored)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS api_tokens (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            token_hash TEXT NOT NULL UNIQUE,
+            scopes TEXT[] NOT NULL,
+            created_by INTEGER,
+            expires_at TIMESTAMP,
+            revoked_at TIMESTAMP,
+            last_used_at TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+            FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+        )
+    `);
+
+    // Create activity table (audit trail, kept when a project is deleted so no foreign keys)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS activity (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER,
+            type TEXT NOT NULL,
+            actor TEXT NOT NULL,
+            user_id INTEGER,
+            token_id INTEGER,
+            details JSONB NOT NULL DEFAULT '{}',
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Create assistant_conversations table (history holds the agent input to continue a conversation with)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS assistant_conversations (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER NOT NULL,
+            user_id INTEGER,
+            title TEXT NOT NULL,
+            history JSONB NOT NULL DEFAULT '[]',
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+        )
+    `);
+
+    // Create assistant_messages table (the messages shown in the chat)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS assistant_messages (
+            id SERIAL PRIMARY KEY,
+            conversation_id INTEGER NOT NULL,
+            role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+            content TEXT NOT NULL,
+            tool_calls JSONB NOT NULL DEFAULT '[]',
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (conversation_id) REFERENCES assistant_conversations(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Create assistant_change_sets table (the files an assistant run changed, to review and revert them)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS assistant_change_sets (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER NOT NULL,
+            user_id INTEGER,
+            prompt TEXT NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            reverted_at TIMESTAMP,
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+        )
+    `);
+
+    // Create assistant_changes table (NULL content means the file did not exist before or after the run)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS assistant_changes (
+            id SERIAL PRIMARY KEY,
+            change_set_id INTEGER NOT NULL,
+            path TEXT NOT NULL,
+            before_content TEXT,
+            after_content TEXT,
+            UNIQUE (change_set_id, path),
+            FOREIGN KEY (change_set_id) REFERENCES assistant_change_sets(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Link assistant replies to the files their run changed
+    await pool.query(`
+        ALTER TABLE assistant_messages ADD COLUMN IF NOT EXISTS change_set_id INTEGER
+            REFERENCES assistant_change_sets(id) ON DELETE SET NULL
+    `);
+
+    // Create assistant_staged_files table (changes proposed by the assistant, NULL content proposes a deletion)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS assistant_staged_files (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER NOT NULL,
+            path TEXT NOT NULL,
+            content TEXT,
+            prompt TEXT NOT NULL,
+            user_id INTEGER,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (project_id, path),
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+        )
+    `);
+
+    // Create project_assistant_settings table (NULL values use the server configuration)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS project_assistant_settings (
+            project_id INTEGER PRIMARY KEY,
+            model TEXT,
+            temperature REAL,
+            max_turns INTEGER,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Limits of a single assistant run
+    await pool.query(`
+        ALTER TABLE project_assistant_settings
+            ADD COLUMN IF NOT EXISTS max_files_per_run INTEGER,
+            ADD COLUMN IF NOT EXISTS max_bytes_per_run INTEGER,
+            ADD COLUMN IF NOT EXISTS max_tokens_per_run INTEGER,
+            ADD COLUMN IF NOT EXISTS protected_paths TEXT[] NOT NULL DEFAULT '{}'
+    `);
+
+    // Instructions of the project for its assistant
+    await pool.query(`
+        ALTER TABLE project_assistant_settings ADD COLUMN IF NOT EXISTS instructions TEXT
+    `);
+
+    // Create assistant_runs table (the usage of every assistant run)
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS assistant_runs (
+            id SERIAL PRIMARY KEY,
+            project_id INTEGER NOT NULL,
+            user_id INTEGER,
+            mode TEXT NOT NULL,
+            model TEXT NOT NULL,
+            status TEXT NOT NULL CHECK (status IN ('completed', 'failed', 'cancelled', 'limited')),
+            requests INTEGER NOT NULL DEFAULT 0,
+            input_tokens INTEGER NOT NULL DEFAULT 0,
+            output_tokens INTEGER NOT NULL DEFAULT 0,
+            total_tokens INTEGER NOT NULL DEFAULT 0,
+            files_changed INTEGER NOT NULL DEFAULT 0,
+            bytes_written INTEGER NOT NULL DEFAULT 0,
+            change_set_id INTEGER,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+            FOREIGN KEY (change_set_id) REFERENCES assistant_change_sets(id) ON DELETE SET NULL
+        )
+    `);
+
     // Create indexes for performance
     await pool.query(`
         CREATE INDEX IF NOT EXISTS idx_project_hosts_host ON project_hosts(host)
@@ -62,6 +316,36 @@ export async function initializeDatabase() {
     await pool.query(`
         CREATE INDEX IF NOT EXISTS idx_project_hosts_project_id ON project_hosts(project_id)
     `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_project_versions_project_id ON project_versions(project_id)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_project_data_collections_project_id ON project_data_collections(project_id)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_api_tokens_project_id ON api_tokens(project_id)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_activity_project_id_created_at ON activity(project_id, created_at)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_activity_created_at ON activity(created_at)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_assistant_conversations_project_id ON assistant_conversations(project_id)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_assistant_change_sets_project_id ON assistant_change_sets(project_id)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_assistant_runs_project_id_created_at ON assistant_runs(project_id, created_at)
+    `);
+    await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_assistant_messages_conversation_id ON assistant_messages(conversation_id)
+    `);
 
     console.log("Database initialized successfully");
 }
@@ -70,6 +354,23 @@ export async function initializeDatabase() {
  * Seed database with initial data if empty
  */
 export async function seedDatabase() {
+    const userResult = await pool.query("SELECT COUNT(*) as count FROM users");
+
+    if (parseInt(userResult.rows[0].count) === 0) {
+        // Bootstrap the first administrator, everything else is managed through the API
+        const username = process.env.ADMIN_USERNAME || "admin";
+        const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(12).toString("base64url");
+
+        await pool.query(`
+            INSERT INTO users (username, password_hash, is_admin)
+            VALUES ($1, $2, true)
+        `, [username, await hashPassword(password)]);
+
+        console.log(process.env.ADMIN_PASSWORD
+            ? `Created administrator "${username}"`
+            : `Created administrator "${username}" with password: ${password}`);
+    }
+
     const result = await pool.query("SELECT COUNT(*) as count FROM projects");
     const count = parseInt(result.rows[0].count);
 
@@ -95,6 +396,11 @@ export async function seedDatabase() {
             VALUES ($1, $2)
         `, [demoId, "demo.lvh.me"]);
 
+        await pool.query(`
+            INSERT INTO project_hosts (project_id, host, preview)
+            VALUES ($1, $2, true)
+        `, [demoId, previewHostFor("demo")]);
+
         // Seed explorer project
         const explorerResult = await pool.query(`
             INSERT INTO projects (name, color, folder)
@@ -109,6 +415,11 @@ export async function seedDatabase() {
             VALUES ($1, $2)
         `, [explorerId, "explorer.lvh.me"]);
 
+        await pool.query(`
+            INSERT INTO project_hosts (project_id, host, preview)
+            VALUES ($1, $2, true)
+        `, [explorerId, previewHostFor("the-explorer")]);
+
         console.log("Database seeded successfully");
     }
 }
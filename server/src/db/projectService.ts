@@ -1,11 +1,15 @@
 import { pool } from "./database.js";
-import { Project } from "./projects.js";
+import { Project, previewHostFor } from "./projects.js";
+import { Actor, SYSTEM_ACTOR } from "./activity.js";
+import { recordActivity } from "./activityService.js";
+import { hostCache, invalidateProjects } from "../services/cacheService.js";
 
 export interface ProjectRow {
     id: number;
     name: string;
     color: string;
     folder: string;
+    published_version_id: number | null;
     created_at: string;
 }
 
@@ -13,6 +17,7 @@ export interface ProjectHostRow {
     id: number;
     project_id: number;
     host: string;
+    preview: boolean;
 }
 
 /**
@@ -24,7 +29,9 @@ function rowsToProject(projectRow: ProjectRow, hostRows: ProjectHostRow[]): Proj
         name: projectRow.name,
         color: projectRow.color,
         folder: projectRow.folder,
-        hosts: hostRows.map(h => h.host)
+        hosts: hostRows.filter(h => !h.preview).map(h => h.host),
+        previewHosts: hostRows.filter(h => h.preview).map(h => h.host),
+        publishedVersionId: projectRow.published_version_id
     };
 }
 
@@ -46,8 +53,23 @@ export async function getAllProjects(): Promise<Project[]> {
 
 /**
  * Find project by hostname
+ * Results are cached, as every request to a project host needs them
  */
 export async function findProjectByHost(hostname: string): Promise<Project | undefined> {
+    const cached = hostCache.get(hostname);
+    if (cached !== undefined) {
+        return cached ?? undefined;
+    }
+
+    const project = await queryProjectByHost(hostname);
+    hostCache.set(hostname, project ?? null);
+    return project;
+}
+
+/**
+ * Find project by hostname in the database
+ */
+async function queryProjectByHost(hostname: string): Promise<Project | undefined> {
     const hostResult = await pool.query(`
         SELECT project_id FROM project_hosts WHERE host = $1
     `, [hostname]);
@@ -151,11 +173,18 @@ export async function findProjectById(id: number): Promise<Project | undefined>
 
 /**
  * Create a new project
+ * Without explicit preview hosts, the default preview host of the folder is assigned if it's still free
+ * @param actor - Who creates the project, a creating user becomes its owner
  */
-export async function createProject(name: string, color: string, hosts: string[]): Promise<Project> {
+export async function createProject(name: string, color: string, hosts: string[], previewHosts?: string[], actor: Actor = SYSTEM_ACTOR): Promise<Project> {
     // Generate unique folder name
     const folder = await generateUniqueFolderName(name);
 
+    if (previewHosts === undefined) {
+        const defaultPreviewHost = previewHostFor(folder);
+        previewHosts = (await hostExists(defaultPreviewHost)) ? [] : [defaultPreviewHost];
+    }
+
     const client = await pool.connect();
     try {
         await client.query('BEGIN');
@@ -177,7 +206,26 @@ export async function createProject(name: string, color: string, hosts: string[]
             `, [projectId, host]);
         }
 
+        // Insert preview hosts
+        for (const host of previewHosts) {
+            await client.query(`
+                INSERT INTO project_hosts (project_id, host, preview)
+                VALUES ($1, $2, true)
+            `, [projectId, host]);
+        }
+
+        // Make the creator the owner of the project
+        if (actor.userId) {
+            await client.query(`
+                INSERT INTO project_members (project_id, user_id, role)
+                VALUES ($1, $2, 'owner')
+            `, [projectId, actor.userId]);
+        }
+
+        await recordActivity(actor, "project.create", projectId, { name, color, folder, hosts, previewHosts }, client);
+
         await client.query('COMMIT');
+        invalidateProjects();
 
         // Fetch and return the created project
         const projectResult = await pool.query(`
@@ -204,7 +252,7 @@ export async function createProject(name: string, color: string, hosts: string[]
 /**
  * Update an existing project
  */
-export async function updateProject(id: number, updates: { name?: string; color?: string; hosts?: string[] }): Promise<Project | null> {
+export async function updateProject(id: number, updates: { name?: string; color?: string; hosts?: string[]; previewHosts?: string[] }, actor: Actor = SYSTEM_ACTOR): Promise<Project | null> {
     const projectResult = await pool.query(`
         SELECT * FROM projects WHERE id = $1
     `, [id]);
@@ -229,23 +277,38 @@ export async function updateProject(id: number, updates: { name?: string; color?
             `, [name, color, id]);
         }
 
-        // Update hosts if provided
+        // Delete replaced hosts first, so a host can move between the live and preview lists
         if (updates.hosts !== undefined) {
-            // Delete existing hosts
             await client.query(`
-                DELETE FROM project_hosts WHERE project_id = $1
+                DELETE FROM project_hosts WHERE project_id = $1 AND NOT preview
             `, [id]);
+        }
+        if (updates.previewHosts !== undefined) {
+            await client.query(`
+                DELETE FROM project_hosts WHERE project_id = $1 AND preview
+            `, [id]);
+        }
 
-            // Insert new hosts
-            for (const host of updates.hosts) {
-                await client.query(`
-                    INSERT INTO project_hosts (project_id, host)
-                    VALUES ($1, $2)
-                `, [id, host]);
-            }
+        // Insert new hosts
+        for (const host of updates.hosts ?? []) {
+            await client.query(`
+                INSERT INTO project_hosts (project_id, host)
+                VALUES ($1, $2)
+            `, [id, host]);
         }
 
+        // Insert new preview hosts
+        for (const host of updates.previewHosts ?? []) {
+            await client.query(`
+                INSERT INTO project_hosts (project_id, host, preview)
+                VALUES ($1, $2, true)
+            `, [id, host]);
+        }
+
+        await recordActivity(actor, "project.update", id, updates, client);
+
         await client.query('COMMIT');
+        invalidateProjects();
 
         // Fetch and return the updated project
         const updatedProjectResult = await pool.query(`
@@ -272,7 +335,7 @@ export async function updateProject(id: number, updates: { name?: string; color?
 /**
  * Delete a project by ID
  */
-export async function deleteProject(id: number): Promise<boolean> {
+export async function deleteProject(id: number, actor: Actor = SYSTEM_ACTOR): Promise<boolean> {
     const projectResult = await pool.query(`
         SELECT * FROM projects WHERE id = $1
     `, [id]);
@@ -295,7 +358,12 @@ export async function deleteProject(id: number): Promise<boolean> {
             DELETE FROM projects WHERE id = $1
         `, [id]);
 
+        // The log outlives the project, so keep its name for reference
+        const projectRow = projectResult.rows[0] as ProjectRow;
+        await recordActivity(actor, "project.delete", id, { name: projectRow.name, folder: projectRow.folder }, client);
+
         await client.query('COMMIT');
+        invalidateProjects();
         return true;
     } catch (e) {
         await client.query('ROLLBACK');
@@ -308,7 +376,7 @@ export async function deleteProject(id: number): Promise<boolean> {
 /**
  * Transfer a hostname from one project to another
  */
-export async function transferHost(host: string, targetProjectId: number): Promise<boolean> {
+export async function transferHost(host: string, targetProjectId: number, actor: Actor = SYSTEM_ACTOR): Promise<boolean> {
     // Check if host exists
     const hostResult = await pool.query(`
         SELECT * FROM project_hosts WHERE host = $1
@@ -327,10 +395,30 @@ export async function transferHost(host: string, targetProjectId: number): Promi
         return false;
     }
 
-    // Update the host's project_id
-    await pool.query(`
-        UPDATE project_hosts SET project_id = $1 WHERE host = $2
-    `, [targetProjectId, host]);
+    const sourceProjectId = (hostResult.rows[0] as ProjectHostRow).project_id;
+
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+
+        // Update the host's project_id
+        await client.query(`
+            UPDATE project_hosts SET project_id = $1 WHERE host = $2
+        `, [targetProjectId, host]);
+
+        // Logged on both projects, so it shows up in either timeline
+        await recordActivity(actor, "host.transfer", sourceProjectId, { host, sourceProjectId, targetProjectId }, client);
+        if (targetProjectId !== sourceProjectId) {
+            await recordActivity(actor, "host.transfer", targetProjectId, { host, sourceProjectId, targetProjectId }, client);
+        }
 
-    return true;
+        await client.query('COMMIT');
+        invalidateProjects();
+        return true;
+    } catch (e) {
+        await client.query('ROLLBACK');
+        throw e;
+    } finally {
+        client.release();
+    }
 }
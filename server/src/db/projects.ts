@@ -1,7 +1,19 @@
 export type Project = {
     id?: number,
     hosts: string[],
+    previewHosts: string[],
     name: string,
     color: string,
-    folder: string
+    folder: string,
+    publishedVersionId?: number | null
+}
+
+// Pattern for the preview host every project gets, {folder} is replaced by the project folder
+const PREVIEW_HOST_PATTERN = process.env.PREVIEW_HOST_PATTERN || "preview-{folder}.lvh.me";
+
+/**
+ * Build the default preview hostname of a project folder
+ */
+export function previewHostFor(folder: string): string {
+    return PREVIEW_HOST_PATTERN.replace("{folder}", folder);
 }
@@ -0,0 +1,101 @@
+import { pool } from "./database.js";
+import { StagedFile } from "./stagedFiles.js";
+
+export interface StagedFileRow {
+    id: number;
+    project_id: number;
+    path: string;
+    content: string | null;
+    prompt: string;
+    user_id: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Convert database row to StagedFile object
+ */
+function rowToStagedFile(row: StagedFileRow): StagedFile {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        path: row.path,
+        content: row.content,
+        prompt: row.prompt,
+        userId: row.user_id,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
+/**
+ * Get the staged files of a project, ordered by path
+ */
+export async function getStagedFiles(projectId: number): Promise<StagedFile[]> {
+    const result = await pool.query(`
+        SELECT * FROM assistant_staged_files WHERE project_id = $1 ORDER BY path
+    `, [projectId]);
+
+    return (result.rows as StagedFileRow[]).map(rowToStagedFile);
+}
+
+/**
+ * Find a staged file by ID
+ */
+export async function findStagedFileById(id: number): Promise<StagedFile | undefined> {
+    const result = await pool.query(`
+        SELECT * FROM assistant_staged_files WHERE id = $1
+    `, [id]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToStagedFile(result.rows[0] as StagedFileRow);
+}
+
+/**
+ * Find the staged change to a file of a project
+ */
+export async function findStagedFile(projectId: number, path: string): Promise<StagedFile | undefined> {
+    const result = await pool.query(`
+        SELECT * FROM assistant_staged_files WHERE project_id = $1 AND path = $2
+    `, [projectId, path]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToStagedFile(result.rows[0] as StagedFileRow);
+}
+
+/**
+ * Stage a change to a file, replacing a change staged for it before
+ * @param content - The proposed content, null to propose deleting the file
+ */
+export async function stageFile(projectId: number, path: string, content: string | null, prompt: string, userId: number | null): Promise<StagedFile> {
+    const result = await pool.query(`
+        INSERT INTO assistant_staged_files (project_id, path, content, prompt, user_id)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (project_id, path) DO UPDATE SET
+            content = EXCLUDED.content,
+            prompt = EXCLUDED.prompt,
+            user_id = EXCLUDED.user_id,
+            updated_at = CURRENT_TIMESTAMP
+        RETURNING *
+    `, [projectId, path, content, prompt, userId]);
+
+    return rowToStagedFile(result.rows[0] as StagedFileRow);
+}
+
+/**
+ * Remove a staged file once it was approved or rejected
+ * @returns False if it was removed before
+ */
+export async function removeStagedFile(id: number): Promise<boolean> {
+    const result = await pool.query(`
+        DELETE FROM assistant_staged_files WHERE id = $1
+    `, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,14 @@
+/**
+ * A file change the assistant proposed, waiting to be approved or rejected
+ */
+export type StagedFile = {
+    id: number,
+    projectId: number,
+    path: string,
+    // null if the assistant proposed to delete the file
+    content: string | null,
+    prompt: string,
+    userId: number | null,
+    createdAt: string,
+    updatedAt: string
+}
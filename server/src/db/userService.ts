@@ -0,0 +1,238 @@
+import { pool } from "./database.js";
+import { User, ProjectRole, ProjectMember } from "./users.js";
+import { hashPassword, verifyPassword, generateToken, hashToken } from "../services/credentials.js";
+
+// Lifetime of a login session
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || "168");
+
+export interface UserRow {
+    id: number;
+    username: string;
+    password_hash: string;
+    is_admin: boolean;
+    created_at: string;
+}
+
+export interface ProjectMemberRow {
+    project_id: number;
+    user_id: number;
+    username: string;
+    role: ProjectRole;
+}
+
+/**
+ * Convert database row to User object (never exposes the password hash)
+ */
+function rowToUser(row: UserRow): User {
+    return {
+        id: row.id,
+        username: row.username,
+        isAdmin: row.is_admin
+    };
+}
+
+/**
+ * Convert database row to ProjectMember object
+ */
+function rowToMember(row: ProjectMemberRow): ProjectMember {
+    return {
+        projectId: row.project_id,
+        userId: row.user_id,
+        username: row.username,
+        role: row.role
+    };
+}
+
+/**
+ * Get all users
+ */
+export async function getAllUsers(): Promise<User[]> {
+    const result = await pool.query("SELECT * FROM users ORDER BY username");
+    return (result.rows as UserRow[]).map(rowToUser);
+}
+
+/**
+ * Find user by ID
+ */
+export async function findUserById(id: number): Promise<User | undefined> {
+    const result = await pool.query(`
+        SELECT * FROM users WHERE id = $1
+    `, [id]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToUser(result.rows[0] as UserRow);
+}
+
+/**
+ * Find user by username
+ */
+export async function findUserByUsername(username: string): Promise<User | undefined> {
+    const result = await pool.query(`
+        SELECT * FROM users WHERE username = $1
+    `, [username]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToUser(result.rows[0] as UserRow);
+}
+
+/**
+ * Create a new user
+ */
+export async function createUser(username: string, password: string, isAdmin: boolean = false): Promise<User> {
+    const result = await pool.query(`
+        INSERT INTO users (username, password_hash, is_admin)
+        VALUES ($1, $2, $3)
+        RETURNING *
+    `, [username, await hashPassword(password), isAdmin]);
+
+    return rowToUser(result.rows[0] as UserRow);
+}
+
+/**
+ * Change the password of a user and end all of their sessions
+ */
+export async function setPassword(id: number, password: string): Promise<boolean> {
+    const result = await pool.query(`
+        UPDATE users SET password_hash = $1 WHERE id = $2
+    `, [await hashPassword(password), id]);
+
+    await pool.query(`
+        DELETE FROM sessions WHERE user_id = $1
+    `, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Delete a user by ID
+ */
+export async function deleteUser(id: number): Promise<boolean> {
+    const result = await pool.query(`
+        DELETE FROM users WHERE id = $1
+    `, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Check a username and password
+ * @returns The user if the credentials are valid
+ */
+export async function authenticateUser(username: string, password: string): Promise<User | undefined> {
+    const result = await pool.query(`
+        SELECT * FROM users WHERE username = $1
+    `, [username]);
+
+    const row = result.rows[0] as UserRow | undefined;
+    if (!row || !(await verifyPassword(password, row.password_hash))) {
+        return undefined;
+    }
+
+    return rowToUser(row);
+}
+
+/**
+ * Start a session for a user
+ * @returns The bearer token of the session (only its hash is stored)
+ */
+export async function createSession(userId: number): Promise<{ token: string; expiresAt: Date }> {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+    await pool.query(`
+        INSERT INTO sessions (user_id, token_hash, expires_at)
+        VALUES ($1, $2, $3)
+    `, [userId, hashToken(token), expiresAt]);
+
+    return { token, expiresAt };
+}
+
+/**
+ * Find the user of an unexpired session
+ */
+export async function findUserBySessionToken(token: string): Promise<User | undefined> {
+    const result = await pool.query(`
+        SELECT u.* FROM sessions s
+        JOIN users u ON u.id = s.user_id
+        WHERE s.token_hash = $1 AND s.expires_at > CURRENT_TIMESTAMP
+    `, [hashToken(token)]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToUser(result.rows[0] as UserRow);
+}
+
+/**
+ * End a session
+ */
+export async function deleteSession(token: string): Promise<void> {
+    await pool.query(`
+        DELETE FROM sessions WHERE token_hash = $1 OR expires_at <= CURRENT_TIMESTAMP
+    `, [hashToken(token)]);
+}
+
+/**
+ * Get the role of a user within a project
+ */
+export async function getProjectRole(userId: number, projectId: number): Promise<ProjectRole | undefined> {
+    const result = await pool.query(`
+        SELECT role FROM project_members WHERE user_id = $1 AND project_id = $2
+    `, [userId, projectId]);
+
+    return result.rows[0]?.role;
+}
+
+/**
+ * Get the roles of a user in all projects they're a member of
+ */
+export async function getMemberships(userId: number): Promise<{ projectId: number; role: ProjectRole }[]> {
+    const result = await pool.query(`
+        SELECT project_id, role FROM project_members WHERE user_id = $1
+    `, [userId]);
+
+    return result.rows.map(row => ({ projectId: row.project_id, role: row.role }));
+}
+
+/**
+ * Get the members of a project
+ */
+export async function getProjectMembers(projectId: number): Promise<ProjectMember[]> {
+    const result = await pool.query(`
+        SELECT m.project_id, m.user_id, u.username, m.role FROM project_members m
+        JOIN users u ON u.id = m.user_id
+        WHERE m.project_id = $1
+        ORDER BY u.username
+    `, [projectId]);
+
+    return (result.rows as ProjectMemberRow[]).map(rowToMember);
+}
+
+/**
+ * Add a user to a project or change their role
+ */
+export async function setProjectMember(projectId: number, userId: number, role: ProjectRole): Promise<void> {
+    await pool.query(`
+        INSERT INTO project_members (project_id, user_id, role)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role
+    `, [projectId, userId, role]);
+}
+
+/**
+ * Remove a user from a project
+ */
+export async function removeProjectMember(projectId: number, userId: number): Promise<boolean> {
+    const result = await pool.query(`
+        DELETE FROM project_members WHERE project_id = $1 AND user_id = $2
+    `, [projectId, userId]);
+
+    return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,17 @@
+export type User = {
+    id: number,
+    username: string,
+    isAdmin: boolean
+}
+
+export type ProjectRole = "viewer" | "editor" | "owner";
+
+// Roles in ascending order of privileges, each role includes the ones before it
+export const PROJECT_ROLES: ProjectRole[] = ["viewer", "editor", "owner"];
+
+export type ProjectMember = {
+    projectId: number,
+    userId: number,
+    username: string,
+    role: ProjectRole
+}
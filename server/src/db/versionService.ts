@@ -0,0 +1,148 @@
+import { pool } from "./database.js";
+import { Project } from "./projects.js";
+import { ProjectVersion } from "./versions.js";
+import * as fileAccessService from "../services/fileAccessService.js";
+import * as siteConfig from "../services/siteConfig.js";
+import * as compression from "../services/compression.js";
+import { invalidateProjects } from "../services/cacheService.js";
+import { SiteConfigError } from "../services/errors.js";
+
+export interface ProjectVersionRow {
+    id: number;
+    project_id: number;
+    number: number;
+    description: string;
+    file_count: number;
+    created_at: string;
+}
+
+/**
+ * Convert database row to ProjectVersion object
+ */
+function rowToVersion(row: ProjectVersionRow): ProjectVersion {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        number: row.number,
+        description: row.description,
+        fileCount: row.file_count,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Read the compression options of a project's working copy
+ * An invalid configuration doesn't prevent creating a version, serving it reports the problem
+ */
+async function getCompressionOptions(project: Project): Promise<compression.CompressionOptions> {
+    try {
+        return (await siteConfig.getSiteConfig(project)).compression;
+    } catch (error) {
+        if (error instanceof SiteConfigError) {
+            return { enabled: true, precompress: false };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Get all versions of a project, newest first
+ */
+export async function getVersions(projectId: number): Promise<ProjectVersion[]> {
+    const result = await pool.query(`
+        SELECT * FROM project_versions WHERE project_id = $1 ORDER BY number DESC
+    `, [projectId]);
+
+    return (result.rows as ProjectVersionRow[]).map(rowToVersion);
+}
+
+/**
+ * Find a version of a project by ID
+ */
+export async function findVersionById(projectId: number, versionId: number): Promise<ProjectVersion | undefined> {
+    const result = await pool.query(`
+        SELECT * FROM project_versions WHERE id = $1 AND project_id = $2
+    `, [versionId, projectId]);
+
+    if (result.rows.length === 0) {
+        return undefined;
+    }
+
+    return rowToVersion(result.rows[0] as ProjectVersionRow);
+}
+
+/**
+ * Freeze the current working copy of a project into a new version
+ * Every file is copied to the version's own storage root, so later edits don't affect it
+ * With "precompress" in _config.json, Brotli and gzip variants of text files are stored alongside them
+ */
+export async function createVersion(project: Project, description: string = ""): Promise<ProjectVersion> {
+    // Reserve the ID first, so the files can be copied before the version exists.
+    // Copying takes a while and must not keep the project locked, updates and publishing would have to wait
+    const idResult = await pool.query(`
+        SELECT nextval(pg_get_serial_sequence('project_versions', 'id')) AS id
+    `);
+    const versionId = Number(idResult.rows[0].id);
+    const root = fileAccessService.versionRoot(project, versionId);
+
+    let committed = false;
+    const client = await pool.connect();
+    try {
+        // Copy the working files into the snapshot
+        const files = await fileAccessService.listFiles(project);
+        for (const file of files) {
+            await fileAccessService.copyFile(project, file, root, file);
+        }
+
+        // Compress text files once for all requests, if the project asks for it
+        if ((await getCompressionOptions(project)).precompress) {
+            await compression.storeVariants(root, files);
+        }
+
+        await client.query('BEGIN');
+
+        // Lock the project row so concurrent snapshots get distinct numbers
+        await client.query(`
+            SELECT id FROM projects WHERE id = $1 FOR UPDATE
+        `, [project.id]);
+
+        const result = await client.query(`
+            INSERT INTO project_versions (id, project_id, number, description, file_count)
+            VALUES ($1, $2, (SELECT COALESCE(MAX(number), 0) + 1 FROM project_versions WHERE project_id = $2), $3, $4)
+            RETURNING *
+        `, [versionId, project.id, description, files.length]);
+
+        await client.query('COMMIT');
+        committed = true;
+
+        return rowToVersion(result.rows[0] as ProjectVersionRow);
+    } catch (e) {
+        await client.query('ROLLBACK');
+        throw e;
+    } finally {
+        client.release();
+        // Don't leave the files of a version that doesn't exist behind
+        if (!committed) {
+            await fileAccessService.deleteFolder(root).catch(error => {
+                console.error(`Error deleting the files of failed version ${versionId}:`, error);
+            });
+        }
+    }
+}
+
+/**
+ * Choose the version served on the project's hosts
+ * Passing null unpublishes the project, so the working copy is served again
+ */
+export async function publishVersion(projectId: number, versionId: number | null): Promise<boolean> {
+    if (versionId !== null && !(await findVersionById(projectId, versionId))) {
+        return false;
+    }
+
+    const result = await pool.query(`
+        UPDATE projects SET published_version_id = $1 WHERE id = $2
+    `, [versionId, projectId]);
+
+    invalidateProjects();
+    return (result.rowCount ?? 0) > 0;
+}
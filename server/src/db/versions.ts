@@ -0,0 +1,8 @@
+export type ProjectVersion = {
+    id: number,
+    projectId: number,
+    number: number,
+    description: string,
+    fileCount: number,
+    createdAt: string
+}
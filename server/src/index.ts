@@ -1,13 +1,26 @@
 import express, { Request, Response } from "express";
 import { projectResolver } from "./middleware/projectResolver.js";
+import { publicData } from "./middleware/publicData.js";
+import { functionHandler } from "./middleware/functionHandler.js";
 import { fileLoader } from "./middleware/fileLoader.js";
 import { projectsRouter } from "./api/projects.js";
 import { assistantRouter } from "./api/assistant.js";
+import { dataRouter } from "./api/data.js";
+import { authRouter } from "./api/auth.js";
+import { usersRouter } from "./api/users.js";
+import { tokensRouter } from "./api/tokens.js";
+import { activityRouter } from "./api/activity.js";
+import { mcpRouter } from "./api/mcp.js";
+import { cacheRouter } from "./api/cache.js";
 import { initializeDatabase, seedDatabase, waitForDatabase } from "./db/database.js";
 import { initializeBucket, waitForS3 } from "./services/fileAccessService.js";
+import { loadAssistantConfig } from "./services/assistantConfig.js";
 
 // Async initialization function
 async function startServer() {
+    // Fail early on an invalid assistant configuration
+    loadAssistantConfig();
+
     await waitForDatabase();
     // Initialize database
     await initializeDatabase();
@@ -23,16 +36,31 @@ async function startServer() {
     // Set the network port
     const port = process.env.PORT || 3001;
 
-    // Add JSON body parser middleware
+    // Add JSON and form body parser middleware
     app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
 
-    // Mount API routes
+    // Mount API routes (each router authenticates and allows CORS on its own paths, leaving /api/<name> to project
+    // functions, except for the names in RESERVED_FUNCTION_NAMES)
+    app.use("/api", authRouter);
+    app.use("/api", usersRouter);
     app.use("/api", projectsRouter);
     app.use("/api", assistantRouter);
+    app.use("/api", dataRouter);
+    app.use("/api", tokensRouter);
+    app.use("/api", activityRouter);
+    app.use("/api", mcpRouter);
+    app.use("/api", cacheRouter);
 
     // Apply project resolution middleware globally
     app.use(projectResolver);
 
+    // Serve publicly readable data store collections on /_data/<collection>
+    app.use(publicData);
+
+    // Run the project's serverless functions on /api/<name>
+    app.use(functionHandler);
+
     // Apply file loader middleware to serve files from project folders
     app.use(fileLoader);
 
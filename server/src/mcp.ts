@@ -0,0 +1,43 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createMcpServer } from "./services/mcpServer.js";
+import { resolvePrincipal } from "./middleware/auth.js";
+import { waitForDatabase } from "./db/database.js";
+import { waitForS3 } from "./services/fileAccessService.js";
+
+// stdout carries the MCP protocol, so log messages go to stderr
+console.log = console.error;
+
+/**
+ * Run the MCP server over stdio for local agents
+ * The caller is identified by a session or API token in SNAPDASH_TOKEN
+ */
+async function startMcpServer() {
+    const token = process.env.SNAPDASH_TOKEN;
+    if (!token) {
+        throw new Error("SNAPDASH_TOKEN is required");
+    }
+
+    await waitForDatabase();
+    await waitForS3();
+
+    // Resolved again for every tool call, the server keeps running after its token is revoked but can't act anymore
+    const getPrincipal = async () => {
+        const principal = await resolvePrincipal(token);
+        if (!principal) {
+            throw new Error("SNAPDASH_TOKEN is invalid, expired or revoked");
+        }
+        return principal;
+    };
+
+    // Refuse to start with a token that doesn't work at all
+    await getPrincipal();
+
+    const server = createMcpServer(getPrincipal);
+    await server.connect(new StdioServerTransport());
+}
+
+// Start the server
+startMcpServer().catch(err => {
+    console.error("Failed to start MCP server:", err);
+    process.exit(1);
+});
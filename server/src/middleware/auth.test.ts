@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Request, Response } from "express";
+import { actorOf, hasProjectAccess, requireAdmin, requireProjectAccess, requireUser, resolvePrincipal, Principal } from "./auth.js";
+import * as userService from "../db/userService.js";
+import * as apiTokenService from "../db/apiTokenService.js";
+import { ProjectRole } from "../db/users.js";
+import { ApiToken } from "../db/apiTokens.js";
+
+vi.mock("../db/userService.js", () => ({
+    getProjectRole: vi.fn(),
+    findUserBySessionToken: vi.fn()
+}));
+
+vi.mock("../db/apiTokenService.js", () => ({
+    useToken: vi.fn()
+}));
+
+const getProjectRole = vi.mocked(userService.getProjectRole);
+
+const admin: Principal = { user: { id: 1, username: "admin", isAdmin: true } };
+const user: Principal = { user: { id: 2, username: "ada", isAdmin: false } };
+
+const apiToken: ApiToken = {
+    id: 3, projectId: 10, name: "ci", scopes: ["files:read", "publish"],
+    createdBy: 1, expiresAt: null, revokedAt: null, lastUsedAt: null, createdAt: "2024-05-01T12:00:00Z"
+};
+const token: Principal = { token: apiToken };
+
+// Make the user a member of project 10 with the given role
+function memberOf(role: ProjectRole | undefined) {
+    getProjectRole.mockImplementation(async (userId, projectId) => userId === 2 && projectId === 10 ? role : undefined);
+}
+
+// Run a middleware with a request, returning the status it responded with or "next"
+async function run(middleware: (req: Request, res: Response, next: () => void) => unknown, req: Partial<Request>) {
+    let status: number | "next" | undefined;
+    const res = {
+        status(code: number) {
+            status = code;
+            return this;
+        },
+        json() {
+            return this;
+        }
+    } as unknown as Response;
+    await middleware(req as Request, res, () => { status = "next"; });
+    return status;
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("hasProjectAccess for users", () => {
+    it("grants members their role and the roles below it", async () => {
+        memberOf("editor");
+
+        expect(await hasProjectAccess(user, 10, "viewer")).toBe(true);
+        expect(await hasProjectAccess(user, 10, "editor")).toBe(true);
+        expect(await hasProjectAccess(user, 10, "owner")).toBe(false);
+    });
+
+    it("refuses users outside the project", async () => {
+        memberOf("owner");
+
+        expect(await hasProjectAccess(user, 11, "viewer")).toBe(false);
+    });
+
+    it("grants administrators every role without a membership", async () => {
+        memberOf(undefined);
+
+        expect(await hasProjectAccess(admin, 10, "owner")).toBe(true);
+        expect(getProjectRole).not.toHaveBeenCalled();
+    });
+});
+
+describe("requireProjectAccess", () => {
+    it("lets members with the role through", async () => {
+        memberOf("owner");
+
+        expect(await run(requireProjectAccess("owner"), { params: { id: "10" }, principal: user })).toBe("next");
+    });
+
+    it("refuses members with a lower role and anonymous requests", async () => {
+        memberOf("viewer");
+
+        expect(await run(requireProjectAccess("editor"), { params: { id: "10" }, principal: user })).toBe(403);
+        expect(await run(requireProjectAccess("viewer"), { params: { id: "10" } })).toBe(403);
+    });
+
+    it("rejects invalid project IDs", async () => {
+        expect(await run(requireProjectAccess("viewer"), { params: { id: "abc" }, principal: admin })).toBe(400);
+    });
+
+    it("responds with 500 if the role can't be looked up", async () => {
+        getProjectRole.mockRejectedValue(new Error("Database down"));
+        const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        expect(await run(requireProjectAccess("viewer"), { params: { id: "10" }, principal: user })).toBe(500);
+        consoleError.mockRestore();
+    });
+});
+
+describe("requireUser and requireAdmin", () => {
+    it("only let the right users through", async () => {
+        expect(await run(requireUser, { principal: user })).toBe("next");
+        expect(await run(requireUser, {})).toBe(403);
+        expect(await run(requireAdmin, { principal: admin })).toBe("next");
+        expect(await run(requireAdmin, { principal: user })).toBe(403);
+    });
+});
+
+describe("hasProjectAccess for API tokens", () => {
+    it("grants the scopes of the token within its project", async () => {
+        expect(await hasProjectAccess(token, 10, "editor", "publish")).toBe(true);
+        expect(await hasProjectAccess(token, 10, "viewer", ["files:write", "files:read"])).toBe(true);
+    });
+
+    it("refuses other scopes and projects", async () => {
+        expect(await hasProjectAccess(token, 10, "editor", "files:write")).toBe(false);
+        expect(await hasProjectAccess(token, 11, "viewer", "files:read")).toBe(false);
+    });
+
+    it("refuses actions without a scope", async () => {
+        expect(await hasProjectAccess(token, 10, "viewer")).toBe(false);
+        expect(await hasProjectAccess(token, 10, "viewer", [])).toBe(false);
+    });
+
+    it("ignores project roles", async () => {
+        await hasProjectAccess(token, 10, "owner", "publish");
+        expect(getProjectRole).not.toHaveBeenCalled();
+    });
+
+    it("are refused where a user is required", async () => {
+        expect(await run(requireUser, { principal: token })).toBe(403);
+        expect(await run(requireAdmin, { principal: token })).toBe(403);
+    });
+
+    it("are named in the activity log", () => {
+        expect(actorOf(token)).toEqual({ tokenId: 3, name: "token:ci" });
+        expect(actorOf(user)).toEqual({ userId: 2, name: "ada" });
+    });
+});
+
+describe("resolvePrincipal", () => {
+    it("looks up API tokens by their prefix", async () => {
+        vi.mocked(apiTokenService.useToken).mockImplementation(async value => value === "sdt_valid" ? apiToken : undefined);
+
+        expect(await resolvePrincipal("sdt_valid")).toEqual(token);
+        expect(await resolvePrincipal("sdt_revoked")).toBeUndefined();
+        expect(userService.findUserBySessionToken).not.toHaveBeenCalled();
+    });
+
+    it("finds the user of a session", async () => {
+        vi.mocked(userService.findUserBySessionToken).mockImplementation(async token => token === "valid" ? user.user : undefined);
+
+        expect(await resolvePrincipal("valid")).toEqual(user);
+        expect(await resolvePrincipal("expired")).toBeUndefined();
+    });
+});
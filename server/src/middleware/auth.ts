@@ -0,0 +1,148 @@
+import { Request, Response, NextFunction } from "express";
+import { User, ProjectRole, PROJECT_ROLES } from "../db/users.js";
+import { ApiToken, TokenScope, API_TOKEN_PREFIX } from "../db/apiTokens.js";
+import { Actor } from "../db/activity.js";
+import * as userService from "../db/userService.js";
+import * as apiTokenService from "../db/apiTokenService.js";
+
+/**
+ * The authenticated caller of an API request, either a logged in user or an API token
+ */
+export type Principal =
+    | { user: User; token?: undefined }
+    | { token: ApiToken; user?: undefined };
+
+// Extend Express Request type to include the authenticated caller
+declare global {
+    namespace Express {
+        interface Request {
+            principal?: Principal;
+        }
+    }
+}
+
+/**
+ * Describe a caller for the activity log
+ */
+export function actorOf(principal: Principal): Actor {
+    if (principal.token) {
+        return { tokenId: principal.token.id, name: `token:${principal.token.name}` };
+    }
+    return { userId: principal.user.id, name: principal.user.username };
+}
+
+/**
+ * Extract the bearer token of a request
+ */
+export function getBearerToken(req: Request): string | undefined {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith("Bearer ")) {
+        return undefined;
+    }
+    return header.slice("Bearer ".length).trim() || undefined;
+}
+
+/**
+ * Check whether a caller may perform an action within a project
+ * Users need at least the given role (administrators have every role in every project),
+ * API tokens need to belong to the project and carry the given scope
+ * @param scope - Scope an API token needs (any of them if several), tokens are refused if the action has none
+ */
+export async function hasProjectAccess(principal: Principal, projectId: number, role: ProjectRole, scope?: TokenScope | TokenScope[]): Promise<boolean> {
+    if (principal.token) {
+        const scopes = scope === undefined ? [] : Array.isArray(scope) ? scope : [scope];
+        return principal.token.projectId === projectId && scopes.some(s => principal.token.scopes.includes(s));
+    }
+
+    if (principal.user.isAdmin) {
+        return true;
+    }
+
+    const memberRole = await userService.getProjectRole(principal.user.id, projectId);
+    return memberRole !== undefined && PROJECT_ROLES.indexOf(memberRole) >= PROJECT_ROLES.indexOf(role);
+}
+
+/**
+ * Find the caller of a session or API token
+ * @returns The caller, or undefined if the token is invalid, expired or revoked
+ */
+export async function resolvePrincipal(token: string): Promise<Principal | undefined> {
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+        const apiToken = await apiTokenService.useToken(token);
+        return apiToken ? { token: apiToken } : undefined;
+    }
+
+    const user = await userService.findUserBySessionToken(token);
+    return user ? { user } : undefined;
+}
+
+/**
+ * Middleware to authenticate API requests with a session or API bearer token
+ * Attaches the caller to req.principal, responds with 401 if the token is missing or invalid
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+    // Let CORS preflight requests through, they never carry credentials
+    if (req.method === "OPTIONS" || req.principal) {
+        return next();
+    }
+
+    try {
+        const token = getBearerToken(req);
+        const principal = token ? await resolvePrincipal(token) : undefined;
+
+        if (!principal) {
+            return res.status(401).json({ error: "Authentication required" });
+        }
+
+        req.principal = principal;
+        next();
+    } catch (error) {
+        console.error("Error authenticating request:", error);
+        res.status(500).json({ error: "Internal server error" });
+    }
+};
+
+/**
+ * Middleware factory requiring access to the project given by the :id route parameter
+ * @param scope - Scope an API token needs (any of them if several), tokens are refused if omitted
+ */
+export function requireProjectAccess(role: ProjectRole, scope?: TokenScope | TokenScope[]) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const id = parseInt(req.params.id, 10);
+
+            if (isNaN(id)) {
+                return res.status(400).json({ error: "Invalid project ID" });
+            }
+
+            if (!req.principal || !(await hasProjectAccess(req.principal, id, role, scope))) {
+                return res.status(403).json({ error: "Forbidden" });
+            }
+
+            next();
+        } catch (error) {
+            console.error("Error authorizing request:", error);
+            res.status(500).json({ error: "Internal server error" });
+        }
+    };
+}
+
+/**
+ * Middleware requiring a logged in user, refusing API tokens
+ */
+export const requireUser = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal?.user) {
+        return res.status(403).json({ error: "Forbidden" });
+    }
+    next();
+};
+
+/**
+ * Middleware requiring an administrator
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal?.user?.isAdmin) {
+        return res.status(403).json({ error: "Forbidden" });
+    }
+    next();
+};
@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express, { Request } from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { Readable } from "stream";
+import { S3Client, HeadObjectCommand } from "@aws-sdk/client-s3";
+import { fileLoader, requestedRange } from "./fileLoader.js";
+import { Project } from "../db/projects.js";
+
+// A request with the methods of express, for the headers given
+function request(headers: Record<string, string>): Request {
+    return Object.assign(Object.create(express.request), { headers });
+}
+
+describe("requestedRange", () => {
+    const lastModified = new Date("2024-05-01T12:00:00Z");
+    const stats = { size: 1000, etag: "\"abc\"", lastModified };
+
+    it("serves the whole file without a Range header", () => {
+        expect(requestedRange(request({}), stats)).toBeUndefined();
+    });
+
+    it("finds a single range", () => {
+        expect(requestedRange(request({ range: "bytes=0-99" }), stats)).toEqual({ start: 0, end: 99 });
+        expect(requestedRange(request({ range: "bytes=900-" }), stats)).toEqual({ start: 900, end: 999 });
+        expect(requestedRange(request({ range: "bytes=-100" }), stats)).toEqual({ start: 900, end: 999 });
+        expect(requestedRange(request({ range: "bytes=990-2000" }), stats)).toEqual({ start: 990, end: 999 });
+    });
+
+    it("combines overlapping ranges", () => {
+        expect(requestedRange(request({ range: "bytes=0-49,50-99" }), stats)).toEqual({ start: 0, end: 99 });
+    });
+
+    it("refuses ranges it can't serve", () => {
+        expect(requestedRange(request({ range: "bytes=1000-" }), stats)).toBe("unsatisfiable");
+        expect(requestedRange(request({ range: "bytes=abc" }), stats)).toBe("unsatisfiable");
+        expect(requestedRange(request({ range: "bytes=0-9,500-509" }), stats)).toBe("unsatisfiable");
+    });
+
+    it("ignores headers without a unit and other units", () => {
+        expect(requestedRange(request({ range: "0-9" }), stats)).toBeUndefined();
+        expect(requestedRange(request({ range: "items=0-9" }), stats)).toBeUndefined();
+    });
+
+    it("only serves a range of the version named by If-Range", () => {
+        expect(requestedRange(request({ range: "bytes=0-9", "if-range": "\"abc\"" }), stats)).toEqual({ start: 0, end: 9 });
+        expect(requestedRange(request({ range: "bytes=0-9", "if-range": lastModified.toUTCString() }), stats)).toEqual({ start: 0, end: 9 });
+        expect(requestedRange(request({ range: "bytes=0-9", "if-range": "\"old\"" }), stats)).toBeUndefined();
+    });
+});
+
+describe("fileLoader", () => {
+    const project: Project = { id: 1, hosts: ["demo.test"], previewHosts: [], name: "Demo", color: "#000000", folder: "demo" };
+    const files: Record<string, string> = {
+        "demo/_layout.html": "<main>{{{content}}}</main>",
+        "demo/_redirects": "/old /about 301",
+        "demo/_config.json": "{}",
+        "demo/about.html": "<h1>{{project.name}}</h1>",
+        "demo/_data.json": "{\"secret\": true}",
+        "demo/_assistant.md": "Never change the footer"
+    };
+
+    // Storage holding the files above, counting the calls made to it
+    const send = vi.spyOn(S3Client.prototype, "send").mockImplementation(async (command: any) => {
+        const content = files[command.input.Key];
+        if (content === undefined) {
+            throw Object.assign(new Error("Not found"), { name: command instanceof HeadObjectCommand ? "NotFound" : "NoSuchKey" });
+        }
+        return command instanceof HeadObjectCommand
+            ? { ContentLength: content.length }
+            : { Body: Readable.from([Buffer.from(content)]) };
+    });
+
+    let server: Server;
+    const get = async (urlPath: string) => {
+        const { port } = server.address() as AddressInfo;
+        return fetch(`http://localhost:${port}${urlPath}`, { redirect: "manual" });
+    };
+
+    beforeAll(() => {
+        const app = express();
+        app.use((req, res, next) => {
+            req.project = project;
+            req.fileRoot = project;
+            next();
+        });
+        app.use(fileLoader);
+        server = app.listen(0);
+    });
+
+    afterAll(() => {
+        server.close();
+        send.mockRestore();
+    });
+
+    it("serves a repeated page request without storage calls", async () => {
+        const first = await get("/about");
+        expect(first.status).toBe(200);
+        expect(await first.text()).toBe("<main><h1>Demo</h1></main>");
+        expect(send).toHaveBeenCalled();
+
+        send.mockClear();
+        const second = await get("/about");
+        expect(await second.text()).toBe("<main><h1>Demo</h1></main>");
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it("applies a repeated redirect rule without storage calls", async () => {
+        expect((await get("/old")).headers.get("location")).toBe("/about");
+
+        send.mockClear();
+        expect((await get("/old")).headers.get("location")).toBe("/about");
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it("hides the inputs of the pages", async () => {
+        for (const urlPath of ["/_layout.html", "/_layout", "/_data.json", "/_config.json", "/_redirects"]) {
+            expect((await get(urlPath)).status).toBe(404);
+        }
+    });
+
+    it("hides the instructions of the assistant", async () => {
+        for (const urlPath of ["/_assistant.md", "/_assistant", "/_assistant.html"]) {
+            expect((await get(urlPath)).status).toBe(404);
+        }
+    });
+});
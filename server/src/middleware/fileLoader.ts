@@ -1,102 +1,323 @@
-import { Request, Response, NextFunction } from "express";
+import { Request, Response } from "express";
 import path from "path";
 import mime from "mime-types";
 import * as fileAccessService from "../services/fileAccessService.js";
-import { FileNotFoundError, AccessDeniedError, PathNotFileError } from "../services/errors.js";
+import * as templateService from "../services/templateService.js";
+import * as siteConfig from "../services/siteConfig.js";
+import * as urlResolver from "../services/urlResolver.js";
+import * as routeRules from "../services/routeRules.js";
+import * as httpCache from "../services/httpCache.js";
+import * as compression from "../services/compression.js";
+import {
+    FileNotFoundError,
+    AccessDeniedError,
+    PathNotFileError,
+    TemplateError,
+    SiteConfigError
+} from "../services/errors.js";
 
 /**
- * Middleware to load and serve files from the project's data folder
- * If no file is specified, serves index.html
- * Returns 404 if project is not found or file doesn't exist
+ * Append the query string of the request to a redirect target without one
  */
-export const fileLoader = async (req: Request, res: Response, next: NextFunction) => {
-    try {
-        // Check if project is resolved
-        if (!req.project) {
-            return res.status(404).json({ error: "Project not found" });
+function withQuery(req: Request, location: string): string {
+    const query = req.originalUrl.indexOf("?");
+    return query >= 0 && !location.includes("?") ? location + req.originalUrl.slice(query) : location;
+}
+
+/**
+ * Serve the error page of a project
+ * Browsers get the project's <status>.html (or .md) rendered with its layout, or a minimal page if it has none,
+ * other clients get JSON
+ */
+async function sendError(req: Request, res: Response, status: number, message: string, details?: string): Promise<void> {
+    if (req.accepts(["json", "html"]) !== "html") {
+        res.status(status).json(details ? { error: message, details } : { error: message });
+        return;
+    }
+
+    res.status(status).type("html");
+    if (req.project && req.fileRoot) {
+        const variables = { error: { status, message } };
+        for (const errorPage of [`${status}.html`, `${status}.md`]) {
+            try {
+                res.send(await templateService.renderPage(req.fileRoot, req.project, errorPage, variables));
+                return;
+            } catch (error) {
+                // A broken error page must not hide the original error
+                if (!(error instanceof FileNotFoundError)) {
+                    console.error(`Error rendering ${errorPage}:`, error);
+                    break;
+                }
+            }
         }
+    }
+    res.send(templateService.defaultErrorPage(status, message, details));
+}
 
-        // Get the requested path, default to index.html if root
-        let requestedPath = req.path === "/" ? "index.html" : req.path;
+/**
+ * Find the part of a file a request asks for with its Range header
+ * Only single ranges are supported, multiple ranges are rejected
+ * @returns The range, undefined to serve the whole file, "unsatisfiable" if the range can't be served
+ */
+export function requestedRange(
+    req: Request,
+    stats: { size: number, etag?: string, lastModified?: Date }
+): fileAccessService.ByteRange | "unsatisfiable" | undefined {
+    if (!req.headers.range) {
+        return undefined;
+    }
 
-        // Remove leading slash
-        requestedPath = requestedPath.startsWith("/") ? requestedPath.slice(1) : requestedPath;
+    // A range of a different version than the client already has would mix up the two
+    const ifRange = req.headers["if-range"];
+    if (ifRange && ifRange !== stats.etag && ifRange !== stats.lastModified?.toUTCString()) {
+        return undefined;
+    }
 
-        // Determine content type based on file extension
-        const ext = path.extname(requestedPath).toLowerCase();
+    const ranges = req.range(stats.size, { combine: true });
+    // Headers without a unit and other units than bytes are ignored, invalid byte ranges can't be served
+    if (ranges === -2 || (typeof ranges === "object" && ranges.type !== "bytes")) {
+        return undefined;
+    }
+    if (ranges === -1 || ranges === undefined || ranges.length !== 1) {
+        return "unsatisfiable";
+    }
+    return { start: ranges[0].start, end: ranges[0].end };
+}
 
-        // Non-HTML files are streamed directly
-        if (ext !== ".html") {
-            // Create read stream through the service (includes security validation)
-            const stream = await fileAccessService.createReadStream(req.project, requestedPath);
+/**
+ * Serve a resolved file, rendering pages with their layouts and partials
+ * @param status - The status to respond with, rewrite rules can serve a page as not found
+ * @returns False if there is nothing to serve
+ */
+async function sendResolution(
+    req: Request,
+    res: Response,
+    resolution: urlResolver.UrlResolution,
+    getConfig: () => Promise<siteConfig.SiteConfig>,
+    status: number = 200
+): Promise<boolean> {
+    if (resolution.type === "notFound") {
+        return false;
+    }
+    if (resolution.type === "redirect") {
+        res.redirect(301, withQuery(req, resolution.location));
+        return true;
+    }
+    if (urlResolver.isHidden(resolution.path)) {
+        return false;
+    }
 
-            // Set Content-Type header
-            const contentType = mime.lookup(requestedPath) || "application/octet-stream";
-            res.setHeader("Content-Type", contentType);
+    try {
+        const config = await getConfig();
+        // Layouts, partials and the site data are only served as they are, not rendered, if the project allows it
+        if (urlResolver.isTemplateSource(resolution.path)) {
+            if (!config.templates.allowSource) {
+                return false;
+            }
+            resolution = { type: "file", path: resolution.path };
+        }
+        const cacheControl = req.preview ? httpCache.PREVIEW : httpCache.cacheControlFor(resolution.path, config.cache);
 
-            // Handle stream errors
-            stream.on("error", (error) => {
-                console.error("Stream error:", error);
-                if (!res.headersSent) {
-                    res.status(500).json({ error: "Error streaming file" });
-                }
-            });
+        const compressible = config.compression.enabled && compression.isCompressible(resolution.path);
+        if (compressible) {
+            res.vary("Accept-Encoding");
+        }
 
-            // Pipe the stream to the response
-            stream.pipe(res);
-            return;
+        // Rendered pages are validated by the ETag of their content, which res.send() adds and checks
+        if (resolution.type === "page") {
+            const variables = status === 404 ? { error: { status, message: "Not found" } } : {};
+            const html = await templateService.renderPage(req.fileRoot!, req.project!, resolution.path, variables);
+            if (cacheControl && status === 200) {
+                res.setHeader("Cache-Control", cacheControl);
+            }
+            const encoding = compressible ? compression.acceptedEncodings(req)[0] : undefined;
+            if (encoding && Buffer.byteLength(html) >= compression.MIN_SIZE) {
+                res.setHeader("Content-Encoding", encoding);
+                res.status(status).type("html").send(await compression.compress(html, encoding));
+            } else {
+                res.status(status).type("html").send(html);
+            }
+            return true;
         }
 
-        // Read the file using the service
-        const fileContent = await fileAccessService.readFile(req.project, requestedPath);
+        // The source of Markdown pages is only served if the project allows it
+        if (path.extname(resolution.path).toLowerCase() === ".md" && !config.markdown.allowSource) {
+            return false;
+        }
 
-        res.setHeader("Content-Type", "text/html");
+        let stats = await fileAccessService.getFileStats(req.fileRoot!, resolution.path);
+        let filePath = resolution.path;
 
-        try {
-            const layoutContent = await fileAccessService.readFile(req.project, "_layout.html");
+        // Text files are compressed for clients that accept it, requests for a range get the file as is
+        const encodings = compressible && !req.headers.range ? compression.acceptedEncodings(req) : [];
+        let encoding: compression.Encoding | undefined;
+        if (config.compression.precompress) {
+            // Serve the stored variant of the file (style.css.br) if there is one
+            for (const accepted of encodings) {
+                try {
+                    stats = await fileAccessService.getFileStats(req.fileRoot!, resolution.path + compression.VARIANTS[accepted]);
+                    filePath = resolution.path + compression.VARIANTS[accepted];
+                    encoding = accepted;
+                    break;
+                } catch (error) {
+                    if (!(error instanceof FileNotFoundError)) {
+                        throw error;
+                    }
+                }
+            }
+        }
+        // Otherwise compress the file as it is sent, its length is only known afterwards
+        const compressing = !encoding && encodings.length > 0 && stats.size >= compression.MIN_SIZE;
+        if (compressing) {
+            encoding = encodings[0];
+        }
+        if (encoding) {
+            res.setHeader("Content-Encoding", encoding);
+        }
 
-            // Replace {{content}} with the actual file content
-            let renderedContent = layoutContent.replace("{{content}}", fileContent);
+        // Validate cached copies with the metadata of the stored file
+        res.status(status);
+        if (status === 200) {
+            if (cacheControl) {
+                res.setHeader("Cache-Control", cacheControl);
+            }
+            if (stats.etag) {
+                // The compressed response has the same content, but not the same bytes
+                res.setHeader("ETag", compressing && !stats.etag.startsWith("W/") ? `W/${stats.etag}` : stats.etag);
+            }
+            if (stats.lastModified) {
+                res.setHeader("Last-Modified", stats.lastModified.toUTCString());
+            }
+            // Checks If-None-Match and If-Modified-Since against the headers above
+            if (req.fresh) {
+                res.status(304).end();
+                return true;
+            }
+        }
 
-            // TODO add an allow list for project variables which can be used in html.
+        // Serve the part of the file the request asks for, so media can be seeked and downloads resumed
+        const range = status === 200 && !encoding ? requestedRange(req, stats) : undefined;
+        if (status === 200 && !encoding) {
+            res.setHeader("Accept-Ranges", "bytes");
+        }
+        if (range === "unsatisfiable") {
+            res.status(416).setHeader("Content-Range", `bytes */${stats.size}`);
+            res.end();
+            return true;
+        }
+        if (range) {
+            res.status(206).setHeader("Content-Range", `bytes ${range.start}-${range.end}/${stats.size}`);
+        }
 
-            // Replace all other {{variable}} placeholders with empty string or project data
-            renderedContent = renderedContent.replace(/\{\{(\w+)\}\}/g, (match, variable) => {
-                // Check if the variable exists in project object
-                if (req.project && variable in req.project) {
-                    const value = (req.project as any)[variable];
-                    return typeof value === "string" ? value : JSON.stringify(value);
-                }
-                // Return empty string for undefined variables
-                return "";
-            });
-
-            res.send(renderedContent);
-        } catch (layoutError: any) {
-            // If _layout.html doesn't exist, just serve the file as-is
-            if (!(layoutError instanceof FileNotFoundError)) {
-                console.error("Error loading layout:", layoutError);
+        // Set Content-Type and Content-Length headers
+        const contentType = mime.lookup(resolution.path) || "application/octet-stream";
+        res.setHeader("Content-Type", contentType);
+        if (!compressing) {
+            res.setHeader("Content-Length", range ? range.end - range.start + 1 : stats.size);
+        }
+
+        // HEAD requests get the headers only, without downloading the file
+        if (req.method === "HEAD") {
+            res.end();
+            return true;
+        }
+
+        // Create read stream through the service (includes security validation)
+        const stream = await fileAccessService.createReadStream(req.fileRoot!, filePath, range);
+
+        // Handle stream errors
+        stream.on("error", (error) => {
+            console.error("Stream error:", error);
+            if (!res.headersSent) {
+                res.status(500).json({ error: "Error streaming file" });
             }
-            res.send(fileContent);
+        });
+
+        // Pipe the stream to the response
+        if (compressing) {
+            stream.pipe(compression.createCompressStream(encoding!)).pipe(res);
+        } else {
+            stream.pipe(res);
+        }
+        return true;
+    } catch (error) {
+        // Assets are not resolved before serving them, so missing files end up here
+        if (error instanceof FileNotFoundError) {
+            return false;
         }
+        throw error;
+    }
+}
+
+/**
+ * Middleware to load and serve files from the project's published version
+ * (or its working copy while nothing is published)
+ * HTML pages are rendered as templates (see templateService), other files are streamed as is
+ * Markdown pages are rendered at their .html or extensionless URL, their source only if _config.json allows it
+ * URLs are resolved to files as configured in _config.json (see urlResolver), directories serve their index
+ * Redirect and rewrite rules of _redirects and _routes.json apply before (forced rules) or after the files
+ * Text files and pages are compressed for clients that accept it, or served from their stored .br and .gz variants
+ * Missing files and errors are answered with the project's error pages
+ */
+export const fileLoader = async (req: Request, res: Response) => {
+    // Check if project is resolved
+    if (!req.project || !req.fileRoot) {
+        return res.status(404).json({ error: "Project not found" });
+    }
+
+    try {
+        // Read once per request, and only if needed
+        let config: Promise<siteConfig.SiteConfig> | undefined;
+        const getConfig = () => config ??= siteConfig.getSiteConfig(req.fileRoot!);
+        const resolve = async (urlPath: string): Promise<urlResolver.UrlResolution> => {
+            const ext = path.extname(urlPath).toLowerCase();
+            return ext === "" || ext === ".html" || ext === ".md"
+                ? urlResolver.resolveUrl(req.fileRoot!, urlPath, (await getConfig()).urls)
+                : { type: "file", path: urlPath.replace(/^\/+/, "") };
+        };
+
+        const rules = await routeRules.getRouteRules(req.fileRoot);
+
+        // Serve the file of the request unless a forced rule applies, other rules only apply without a file
+        const forced = routeRules.matchRule(rules, req.path, true);
+        if (!forced && await sendResolution(req, res, await resolve(req.path), getConfig)) {
+            return;
+        }
+
+        const match = forced ?? routeRules.matchRule(rules, req.path, false);
+        if (match && routeRules.isRedirect(match.rule)) {
+            return res.redirect(match.rule.status, withQuery(req, match.target));
+        }
+        // Rewrites serve their target in place of the request, without applying the rules again
+        if (match && await sendResolution(req, res, await resolve(match.target.split("?")[0]), getConfig, match.rule.status)) {
+            return;
+        }
+
+        await sendError(req, res, 404, "Not found");
     } catch (error: any) {
-        // If file not found, pass to next middleware/route handler
+        // If file not found, answer with the project's not found page
         if (error instanceof FileNotFoundError) {
-            return next();
+            return sendError(req, res, 404, "Not found");
         }
 
         // If access denied, return 403
         if (error instanceof AccessDeniedError) {
-            return res.status(403).json({ error: "Access denied" });
+            return sendError(req, res, 403, "Access denied");
         }
 
         // If path is not a file (e.g., it's a directory), return 400
         if (error instanceof PathNotFileError) {
-            return res.status(400).json({ error: "Path is not a file" });
+            return sendError(req, res, 400, "Path is not a file");
+        }
+
+        // A broken template or configuration is the project's own mistake, tell its authors what is wrong
+        if (error instanceof TemplateError || error instanceof SiteConfigError) {
+            const message = error instanceof TemplateError ? "Template error" : "Invalid site configuration";
+            return sendError(req, res, 500, message, error.message);
         }
 
         // For other errors, return 500
         console.error("Error loading file:", error);
-        res.status(500).json({ error: "Internal server error" });
+        return sendError(req, res, 500, "Internal server error");
     }
 };
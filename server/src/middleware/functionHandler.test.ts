@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { checkFunctionPath } from "./functionHandler.js";
+import { ReservedPathError } from "../services/errors.js";
+
+describe("checkFunctionPath", () => {
+    it("accepts functions outside the reserved names", () => {
+        expect(() => checkFunctionPath("api/hello.js")).not.toThrow();
+        expect(() => checkFunctionPath("api/shop/users.js")).not.toThrow();
+    });
+
+    it("rejects functions shadowed by the server API", () => {
+        expect(() => checkFunctionPath("api/users.js")).toThrow(ReservedPathError);
+        expect(() => checkFunctionPath("api/projects/list.js")).toThrow(ReservedPathError);
+        expect(() => checkFunctionPath("/api/./auth.js")).toThrow("/api/auth is reserved");
+    });
+
+    it("ignores files that aren't functions", () => {
+        expect(() => checkFunctionPath("users.js")).not.toThrow();
+        expect(() => checkFunctionPath("api/users.json")).not.toThrow();
+        expect(() => checkFunctionPath("assets/api/users.js")).not.toThrow();
+    });
+});
@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from "express";
+import path from "path";
+import * as fileAccessService from "../services/fileAccessService.js";
+import * as functionRunner from "../services/functionRunner.js";
+import * as dataService from "../db/dataService.js";
+import {
+    FileNotFoundError,
+    FunctionTimeoutError,
+    FunctionExecutionError,
+    FunctionBusyError,
+    ReservedPathError
+} from "../services/errors.js";
+
+// Folder within a project holding its serverless functions
+export const FUNCTIONS_FOLDER = "api";
+
+// Paths of the server API (see index.ts), /api/<name> never reaches a function with one of these names
+export const RESERVED_FUNCTION_NAMES = ["activity", "assistant", "auth", "cache", "mcp", "projects", "users"];
+
+// /api/<name> maps to api/<name>.js, names may contain sub folders
+const FUNCTION_PATH = /^\/api\/([A-Za-z0-9_-]+(?:\/[A-Za-z0-9_-]+)*)\/?$/;
+
+/**
+ * Check that a function file can be called, the server API shadows /api/<name> for its own names
+ * Both api/users.js and api/users/list.js are shadowed by /api/users
+ * @throws {ReservedPathError} if the path of the function is reserved
+ */
+export function checkFunctionPath(filePath: string): void {
+    const normalizedPath = path.posix.normalize(filePath).replace(/^\/+/, "");
+    if (!normalizedPath.startsWith(`${FUNCTIONS_FOLDER}/`) || !normalizedPath.endsWith(".js")) {
+        return;
+    }
+    const name = normalizedPath.slice(FUNCTIONS_FOLDER.length + 1, -".js".length).split("/")[0];
+    if (RESERVED_FUNCTION_NAMES.includes(name)) {
+        throw new ReservedPathError(`${filePath} could never be called, /api/${name} is reserved for the server API`);
+    }
+}
+
+/**
+ * Build the host operations available to the functions of a project
+ * Functions have full access to their own project's data store, regardless of the public read setting
+ */
+function projectHostCalls(projectId: number): functionRunner.FunctionHostCalls {
+    const validate = (collection: unknown, key?: unknown) => {
+        if (!dataService.isValidCollectionName(collection)) {
+            throw new Error("Invalid collection name");
+        }
+        if (key !== undefined && !dataService.isValidRecordKey(key)) {
+            throw new Error("Invalid record key");
+        }
+    };
+
+    return {
+        "data.get": async (collection: string, key: string) => {
+            validate(collection, key);
+            const record = await dataService.getRecord(projectId, collection, key);
+            return record ? record.value : null;
+        },
+        "data.set": async (collection: string, key: string, value: unknown) => {
+            validate(collection, key);
+            if (value === undefined) {
+                throw new Error("Value is required");
+            }
+            await dataService.putRecord(projectId, collection, key, value);
+        },
+        "data.delete": async (collection: string, key: string) => {
+            validate(collection, key);
+            return dataService.deleteRecord(projectId, collection, key);
+        },
+        "data.list": async (collection: string, options: { prefix?: unknown; limit?: unknown; offset?: unknown } = {}) => {
+            validate(collection);
+            const records = await dataService.listRecords(projectId, collection, {
+                prefix: typeof options.prefix === "string" ? options.prefix : undefined,
+                limit: typeof options.limit === "number" ? Math.min(Math.max(Math.floor(options.limit), 1), 1000) : undefined,
+                offset: typeof options.offset === "number" ? Math.max(Math.floor(options.offset), 0) : undefined
+            });
+            return records.map(r => ({ key: r.key, value: r.value }));
+        }
+    };
+}
+
+/**
+ * Middleware to execute the project's serverless functions
+ * Requests to /api/<name> on a project host run api/<name>.js in a sandbox;
+ * everything else is passed on to the next middleware
+ */
+export const functionHandler = async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.project || !req.fileRoot || !req.path.startsWith(`/${FUNCTIONS_FOLDER}/`)) {
+        return next();
+    }
+
+    try {
+        const match = FUNCTION_PATH.exec(req.path);
+        if (!match) {
+            return res.status(404).json({ error: "Function not found" });
+        }
+
+        const filePath = `${FUNCTIONS_FOLDER}/${match[1]}.js`;
+
+        // Load the function from the same root the files are served from
+        const code = await fileAccessService.readFile(req.fileRoot, filePath);
+
+        const response = await functionRunner.runFunction(req.project, filePath, code, {
+            method: req.method,
+            path: req.path,
+            query: req.query,
+            headers: req.headers,
+            body: req.body ?? null
+        }, req.project.id ? projectHostCalls(req.project.id) : {});
+
+        res.status(response.status).set(response.headers).send(response.body);
+    } catch (error: any) {
+        if (error instanceof FileNotFoundError) {
+            return res.status(404).json({ error: "Function not found" });
+        }
+
+        if (error instanceof FunctionBusyError) {
+            return res.status(503).json({ error: error.message });
+        }
+
+        if (error instanceof FunctionTimeoutError) {
+            console.error(`Function ${req.path} of ${req.project.folder} timed out`);
+            return res.status(504).json({ error: "Function timed out" });
+        }
+
+        if (error instanceof FunctionExecutionError) {
+            console.error(`Function ${req.path} of ${req.project.folder} failed:`, error.message);
+            return res.status(500).json({ error: "Function failed" });
+        }
+
+        console.error("Error executing function:", error);
+        res.status(500).json({ error: "Internal server error" });
+    }
+};
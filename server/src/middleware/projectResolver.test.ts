@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express, { Request, Response } from "express";
+import { projectResolver } from "./projectResolver.js";
+import { Project } from "../db/projects.js";
+import { versionRoot } from "../services/fileAccessService.js";
+
+const projects = vi.hoisted(() => [] as Project[]);
+
+vi.mock("../db/projectService.js", () => ({
+    findProjectByHost: async (host: string) =>
+        projects.find(project => project.hosts.includes(host) || project.previewHosts.includes(host)) ?? null
+}));
+
+const app = express();
+
+// Resolve the project of a request to a host, returning the request and the headers set
+async function resolve(host: string) {
+    const req: Request = Object.assign(Object.create(express.request), { headers: { host }, app });
+    const headers: Record<string, string> = {};
+    const res = { setHeader: (name: string, value: string) => { headers[name] = value; } } as unknown as Response;
+    const next = vi.fn();
+    await projectResolver(req, res, next);
+    expect(next).toHaveBeenCalledWith();
+    return { req, headers };
+}
+
+describe("projectResolver", () => {
+    beforeEach(() => {
+        projects.length = 0;
+        projects.push(
+            { id: 1, hosts: ["demo.test"], previewHosts: ["preview-demo.test"], name: "Demo", color: "#000000", folder: "demo", publishedVersionId: 7 },
+            { id: 2, hosts: ["draft.test"], previewHosts: ["preview-draft.test"], name: "Draft", color: "#000000", folder: "draft" }
+        );
+    });
+
+    it("serves the published version on live hosts", async () => {
+        const { req, headers } = await resolve("demo.test");
+
+        expect(req.project?.id).toBe(1);
+        expect(req.preview).toBe(false);
+        expect(req.fileRoot).toEqual(versionRoot(projects[0], 7));
+        expect(headers["X-Robots-Tag"]).toBeUndefined();
+    });
+
+    it("serves the working copy on preview hosts and keeps it out of search engines", async () => {
+        const { req, headers } = await resolve("preview-demo.test");
+
+        expect(req.project?.id).toBe(1);
+        expect(req.preview).toBe(true);
+        expect(req.fileRoot?.folder).toBe("demo");
+        expect(headers["X-Robots-Tag"]).toBe("noindex");
+    });
+
+    it("serves the working copy on live hosts while nothing is published", async () => {
+        const { req } = await resolve("draft.test");
+
+        expect(req.preview).toBe(false);
+        expect(req.fileRoot?.folder).toBe("draft");
+    });
+
+    it("leaves requests to unknown hosts alone", async () => {
+        const { req } = await resolve("other.test");
+
+        expect(req.project).toBeUndefined();
+        expect(req.fileRoot).toBeUndefined();
+        expect(req.preview).toBeUndefined();
+    });
+});
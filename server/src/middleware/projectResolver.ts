@@ -1,19 +1,25 @@
 import { Request, Response, NextFunction } from "express";
 import { Project } from "../db/projects.js";
 import * as projectService from "../db/projectService.js";
+import * as fileAccessService from "../services/fileAccessService.js";
 
 // Extend Express Request type to include project
 declare global {
     namespace Express {
         interface Request {
             project?: Project;
+            fileRoot?: fileAccessService.FileRoot;
+            preview?: boolean;
         }
     }
 }
 
 /**
  * Middleware to resolve the current project based on the hostname
- * Attaches the project object to req.project if found
+ * Attaches the project object to req.project if found,
+ * and the storage root to serve files from to req.fileRoot:
+ * the working copy on preview hosts, otherwise the published version
+ * (or the working copy while nothing is published)
  */
 export const projectResolver = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -26,6 +32,15 @@ export const projectResolver = async (req: Request, res: Response, next: NextFun
         if (project) {
             // Attach the project to the request context
             req.project = project;
+            req.preview = project.previewHosts.includes(hostname);
+            req.fileRoot = project.publishedVersionId && !req.preview
+                ? fileAccessService.versionRoot(project, project.publishedVersionId)
+                : project;
+
+            // Drafts must not end up in search engines
+            if (req.preview) {
+                res.setHeader("X-Robots-Tag", "noindex");
+            }
         }
 
         // Continue to the next middleware/route handler
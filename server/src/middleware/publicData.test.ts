@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { publicData } from "./publicData.js";
+import * as dataService from "../db/dataService.js";
+import { Project } from "../db/projects.js";
+
+vi.mock("../db/dataService.js", async importOriginal => ({
+    ...await importOriginal<typeof import("../db/dataService.js")>(),
+    isCollectionPublic: vi.fn(async (projectId: number, name: string) => name === "posts"),
+    listRecords: vi.fn(async () => [{ key: "a", value: 1, createdAt: "", updatedAt: "" }]),
+    getRecord: vi.fn(async (projectId: number, collection: string, key: string) =>
+        key === "a" ? { key: "a", value: 1, createdAt: "", updatedAt: "" } : undefined)
+}));
+
+describe("publicData", () => {
+    const project: Project = { id: 1, hosts: ["demo.test"], previewHosts: [], name: "Demo", color: "#000000", folder: "demo" };
+
+    let server: Server;
+    const request = async (urlPath: string, method = "GET") => {
+        const { port } = server.address() as AddressInfo;
+        return fetch(`http://localhost:${port}${urlPath}`, { method });
+    };
+
+    beforeAll(() => {
+        const app = express();
+        app.use((req, res, next) => {
+            req.project = project;
+            next();
+        });
+        app.use(publicData);
+        app.use((req, res) => {
+            res.status(418).end();
+        });
+        server = app.listen(0);
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("serves the records of public collections", async () => {
+        const list = await request("/_data/posts?prefix=a&limit=5000&offset=-1");
+        expect(list.status).toBe(200);
+        expect(await list.json()).toMatchObject({ count: 1 });
+        expect(dataService.listRecords).toHaveBeenCalledWith(1, "posts", { prefix: "a", limit: 1000, offset: 0 });
+
+        const record = await request("/_data/posts/a");
+        expect(await record.json()).toMatchObject({ record: { key: "a", value: 1 } });
+        expect((await request("/_data/posts/b")).status).toBe(404);
+    });
+
+    it("hides private and missing collections alike", async () => {
+        expect((await request("/_data/secrets")).status).toBe(404);
+        expect((await request("/_data/secrets/a")).status).toBe(404);
+        expect(dataService.listRecords).not.toHaveBeenCalled();
+        expect(dataService.getRecord).not.toHaveBeenCalled();
+    });
+
+    it("rejects invalid names and keys before looking them up", async () => {
+        expect((await request("/_data/a%20b")).status).toBe(404);
+        expect((await request("/_data/posts/a%25")).status).toBe(404);
+        expect(dataService.isCollectionPublic).not.toHaveBeenCalled();
+    });
+
+    it("is read-only", async () => {
+        const response = await request("/_data/posts/a", "PUT");
+        expect(response.status).toBe(405);
+        expect(response.headers.get("allow")).toBe("GET, HEAD");
+    });
+
+    it("leaves other paths alone", async () => {
+        expect((await request("/data/posts")).status).toBe(418);
+    });
+});
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import * as dataService from "../db/dataService.js";
+
+// /_data/<collection> and /_data/<collection>/<key>
+const DATA_PATH = /^\/_data\/([^/]+)(?:\/([^/]+))?\/?$/;
+
+/**
+ * Middleware exposing the project's data store to its own pages
+ * Only collections marked as publicly readable are served, and only for reading
+ */
+export const publicData = async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.project?.id || !req.path.startsWith("/_data/")) {
+        return next();
+    }
+
+    try {
+        const match = DATA_PATH.exec(req.path);
+        const collection = match?.[1];
+        const key = match?.[2];
+
+        if (!dataService.isValidCollectionName(collection) || (key !== undefined && !dataService.isValidRecordKey(key))) {
+            return res.status(404).json({ error: "Not found" });
+        }
+
+        if (req.method !== "GET" && req.method !== "HEAD") {
+            return res.status(405).set("Allow", "GET, HEAD").json({ error: "Method not allowed" });
+        }
+
+        // Private and missing collections look the same from outside
+        if (!(await dataService.isCollectionPublic(req.project.id, collection))) {
+            return res.status(404).json({ error: "Not found" });
+        }
+
+        if (key === undefined) {
+            const prefix = typeof req.query.prefix === "string" ? req.query.prefix : undefined;
+            const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "100"), 10) || 100, 1), 1000);
+            const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+
+            const records = await dataService.listRecords(req.project.id, collection, { prefix, limit, offset });
+            return res.json({ records, count: records.length });
+        }
+
+        const record = await dataService.getRecord(req.project.id, collection, key);
+        if (!record) {
+            return res.status(404).json({ error: "Not found" });
+        }
+
+        res.json({ record });
+    } catch (error) {
+        console.error("Error serving public data:", error);
+        res.status(500).json({ error: "Internal server error" });
+    }
+};
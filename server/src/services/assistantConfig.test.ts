@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getModelProvider, loadAssistantConfig } from "./assistantConfig.js";
+
+const VARIABLES = [
+    "ASSISTANT_PROVIDER", "ASSISTANT_BASE_URL", "ASSISTANT_API_KEY", "OPENAI_API_KEY", "ASSISTANT_MODEL", "ASSISTANT_TEMPERATURE",
+    "ASSISTANT_MAX_TURNS", "ASSISTANT_MAX_FILES_PER_RUN", "ASSISTANT_MAX_BYTES_PER_RUN", "ASSISTANT_MAX_TOKENS_PER_RUN"
+];
+
+describe("loadAssistantConfig", () => {
+    beforeEach(() => {
+        for (const name of VARIABLES) {
+            vi.stubEnv(name, "");
+        }
+        vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("falls back to the defaults for unset and empty variables", () => {
+        expect(loadAssistantConfig()).toEqual({ provider: "openai", apiKey: "sk-test", model: "gpt-5-nano", maxTurns: 10 });
+    });
+
+    it("reads the model, run settings and limits", () => {
+        vi.stubEnv("ASSISTANT_API_KEY", "sk-assistant");
+        vi.stubEnv("ASSISTANT_MODEL", "gpt-5");
+        vi.stubEnv("ASSISTANT_TEMPERATURE", "0.5");
+        vi.stubEnv("ASSISTANT_MAX_TURNS", "20");
+        vi.stubEnv("ASSISTANT_MAX_FILES_PER_RUN", "5");
+        vi.stubEnv("ASSISTANT_MAX_BYTES_PER_RUN", "10000");
+        vi.stubEnv("ASSISTANT_MAX_TOKENS_PER_RUN", "50000");
+
+        expect(loadAssistantConfig()).toEqual({
+            provider: "openai", apiKey: "sk-assistant", model: "gpt-5", temperature: 0.5, maxTurns: 20,
+            maxFilesPerRun: 5, maxBytesPerRun: 10000, maxTokensPerRun: 50000
+        });
+    });
+
+    it("requires a base URL for compatible servers", () => {
+        vi.stubEnv("ASSISTANT_PROVIDER", "openai-compatible");
+        expect(() => loadAssistantConfig()).toThrow("ASSISTANT_BASE_URL is required");
+
+        vi.stubEnv("ASSISTANT_BASE_URL", "http://localhost:8080/v1");
+        expect(loadAssistantConfig()).toMatchObject({ provider: "openai-compatible", baseUrl: "http://localhost:8080/v1" });
+    });
+
+    it("rejects invalid values", () => {
+        vi.stubEnv("ASSISTANT_PROVIDER", "anthropic");
+        expect(() => loadAssistantConfig()).toThrow("Invalid assistant configuration: provider");
+        vi.stubEnv("ASSISTANT_PROVIDER", "");
+
+        vi.stubEnv("ASSISTANT_TEMPERATURE", "3");
+        expect(() => loadAssistantConfig()).toThrow("temperature");
+        vi.stubEnv("ASSISTANT_TEMPERATURE", "");
+
+        vi.stubEnv("ASSISTANT_MAX_TURNS", "many");
+        expect(() => loadAssistantConfig()).toThrow("maxTurns");
+        vi.stubEnv("ASSISTANT_MAX_TURNS", "");
+
+        vi.stubEnv("ASSISTANT_MAX_FILES_PER_RUN", "0");
+        expect(() => loadAssistantConfig()).toThrow("maxFilesPerRun");
+    });
+
+    it("warns if OpenAI can't be reached without a key", () => {
+        vi.stubEnv("OPENAI_API_KEY", "");
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        loadAssistantConfig();
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining("OPENAI_API_KEY"));
+        warn.mockRestore();
+    });
+
+    it("creates a new model provider for a new configuration", () => {
+        loadAssistantConfig();
+        const provider = getModelProvider();
+        expect(getModelProvider()).toBe(provider);
+
+        loadAssistantConfig();
+        expect(getModelProvider()).not.toBe(provider);
+    });
+});
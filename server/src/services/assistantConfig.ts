@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { OpenAIProvider, ModelProvider } from "@openai/agents";
+
+/**
+ * Server wide configuration of the assistant's model, read from the environment
+ * "openai" uses the OpenAI Responses API, "openai-compatible" the Chat Completions API of any compatible server
+ * such as llama.cpp, Ollama or vLLM
+ */
+const assistantConfigSchema = z.object({
+    provider: z.enum(["openai", "openai-compatible"]).default("openai"),
+    baseUrl: z.url().optional(),
+    apiKey: z.string().optional(),
+    model: z.string().min(1).default("gpt-5-nano"),
+    temperature: z.coerce.number().min(0).max(2).optional(),
+    maxTurns: z.coerce.number().int().min(1).max(100).default(10),
+    // Limits of a single run, unlimited if unset
+    maxFilesPerRun: z.coerce.number().int().positive().optional(),
+    maxBytesPerRun: z.coerce.number().int().positive().optional(),
+    maxTokensPerRun: z.coerce.number().int().positive().optional()
+}).refine(config => config.provider !== "openai-compatible" || config.baseUrl !== undefined, {
+    message: "ASSISTANT_BASE_URL is required for the openai-compatible provider",
+    path: ["baseUrl"]
+});
+
+export type AssistantConfig = z.infer<typeof assistantConfigSchema>;
+
+let config: AssistantConfig | undefined;
+let modelProvider: ModelProvider | undefined;
+
+/**
+ * Read and validate the assistant configuration
+ * @throws {Error} if a variable has an invalid value
+ */
+export function loadAssistantConfig(): AssistantConfig {
+    // Unset and empty variables fall back to the defaults
+    const env = (name: string) => process.env[name] || undefined;
+
+    const result = assistantConfigSchema.safeParse({
+        provider: env("ASSISTANT_PROVIDER"),
+        baseUrl: env("ASSISTANT_BASE_URL"),
+        apiKey: env("ASSISTANT_API_KEY") ?? env("OPENAI_API_KEY"),
+        model: env("ASSISTANT_MODEL"),
+        temperature: env("ASSISTANT_TEMPERATURE"),
+        maxTurns: env("ASSISTANT_MAX_TURNS"),
+        maxFilesPerRun: env("ASSISTANT_MAX_FILES_PER_RUN"),
+        maxBytesPerRun: env("ASSISTANT_MAX_BYTES_PER_RUN"),
+        maxTokensPerRun: env("ASSISTANT_MAX_TOKENS_PER_RUN")
+    });
+
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+        throw new Error(`Invalid assistant configuration: ${issues.join(", ")}`);
+    }
+
+    if (result.data.provider === "openai" && !result.data.apiKey) {
+        console.warn("Neither ASSISTANT_API_KEY nor OPENAI_API_KEY is set, assistant runs will fail");
+    }
+
+    config = result.data;
+    modelProvider = undefined;
+    return config;
+}
+
+/**
+ * Get the assistant configuration, loading it on first use
+ */
+export function getAssistantConfig(): AssistantConfig {
+    return config ?? loadAssistantConfig();
+}
+
+/**
+ * Get the provider resolving model names for the configured backend
+ */
+export function getModelProvider(): ModelProvider {
+    if (!modelProvider) {
+        const { provider, baseUrl, apiKey } = getAssistantConfig();
+        modelProvider = new OpenAIProvider({
+            baseURL: baseUrl,
+            // Local servers usually don't check the key, but the client requires one
+            apiKey: apiKey ?? (provider === "openai-compatible" ? "unused" : undefined),
+            useResponses: provider === "openai"
+        });
+    }
+    return modelProvider;
+}
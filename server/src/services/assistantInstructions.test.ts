@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getProjectInstructions, withProjectInstructions } from "./assistantInstructions.js";
+import { Project } from "../db/projects.js";
+
+// Content of the project's _assistant.md, or the error reading it
+const instructionsFile = vi.hoisted(() => ({ content: undefined as string | Error | undefined }));
+
+vi.mock("./fileAccessService.js", async importOriginal => {
+    const { FileNotFoundError } = await import("./errors.js");
+    return {
+        ...await importOriginal<typeof import("./fileAccessService.js")>(),
+        readFile: async (project: unknown, path: string) => {
+            const { content } = instructionsFile;
+            if (path !== "_assistant.md" || content === undefined) {
+                throw new FileNotFoundError();
+            }
+            if (content instanceof Error) {
+                throw content;
+            }
+            return content;
+        }
+    };
+});
+
+const project: Project = { id: 1, hosts: ["demo.test"], previewHosts: [], name: "Demo", color: "#000000", folder: "demo" };
+
+describe("getProjectInstructions", () => {
+    beforeEach(() => {
+        instructionsFile.content = undefined;
+    });
+
+    it("combines the settings with the instructions file", async () => {
+        instructionsFile.content = "\nUse British English\n";
+
+        expect(await getProjectInstructions(project, "  Keep pages short ")).toBe("Keep pages short\n\nUse British English");
+        expect(await getProjectInstructions(project, null)).toBe("Use British English");
+    });
+
+    it("uses the settings without an instructions file", async () => {
+        expect(await getProjectInstructions(project, "Keep pages short")).toBe("Keep pages short");
+    });
+
+    it("finds nothing in blank instructions", async () => {
+        instructionsFile.content = "  \n";
+
+        expect(await getProjectInstructions(project, " ")).toBeUndefined();
+        expect(await getProjectInstructions(project, null)).toBeUndefined();
+    });
+
+    it("fails if the instructions file can't be read", async () => {
+        instructionsFile.content = new Error("Storage unavailable");
+
+        await expect(getProjectInstructions(project, null)).rejects.toThrow("Storage unavailable");
+    });
+});
+
+describe("withProjectInstructions", () => {
+    it("appends the instructions of a project", () => {
+        const instructions = withProjectInstructions("You manage files.", "Use British English");
+
+        expect(instructions.startsWith("You manage files.\n\nProject Instructions:\n")).toBe(true);
+        expect(instructions.endsWith("\n\nUse British English")).toBe(true);
+    });
+
+    it("leaves the instructions alone without project instructions", () => {
+        expect(withProjectInstructions("You manage files.")).toBe("You manage files.");
+        expect(withProjectInstructions("You manage files.", "")).toBe("You manage files.");
+    });
+});
@@ -0,0 +1,43 @@
+import * as fileAccessService from "./fileAccessService.js";
+import { FileNotFoundError } from "./errors.js";
+import { Project } from "../db/projects.js";
+
+// Reserved file within a project with instructions for the assistant, never served
+export const INSTRUCTIONS_FILE = "_assistant.md";
+
+/**
+ * Collect the instructions a project gives its assistant, from its settings and the instructions file
+ * @returns The instructions, undefined if the project has none
+ */
+export async function getProjectInstructions(project: Project, instructions: string | null): Promise<string | undefined> {
+    const parts = instructions?.trim() ? [instructions.trim()] : [];
+
+    try {
+        const content = (await fileAccessService.readFile(project, INSTRUCTIONS_FILE)).trim();
+        if (content) {
+            parts.push(content);
+        }
+    } catch (error) {
+        if (!(error instanceof FileNotFoundError)) {
+            throw error;
+        }
+    }
+
+    return parts.length > 0 ? parts.join("\n\n") : undefined;
+}
+
+/**
+ * Append the instructions of a project to the instructions of the agent
+ */
+export function withProjectInstructions(instructions: string, projectInstructions?: string): string {
+    if (!projectInstructions) {
+        return instructions;
+    }
+
+    return `${instructions}
+
+Project Instructions:
+The owners of this project gave the following instructions, follow them for every change. They take precedence over the general guidance above, but never over the error handling rules.
+
+${projectInstructions}`;
+}
@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { RunContext, Usage } from "@openai/agents";
+import { assistantTools, exceedsTokenLimit, isTextFile, normalizePath, ToolContext } from "./assistantTools.js";
+import * as changeSetService from "../db/changeSetService.js";
+import { Project } from "../db/projects.js";
+
+// Files in storage and changes staged for review, by path
+const live = vi.hoisted(() => new Map<string, string>());
+const staged = vi.hoisted(() => new Map<string, string | null>());
+
+vi.mock("./fileAccessService.js", async importOriginal => {
+    const { FileNotFoundError } = await import("./errors.js");
+    const read = async (project: unknown, path: string) => {
+        const content = live.get(path);
+        if (content === undefined) {
+            throw new FileNotFoundError();
+        }
+        return content;
+    };
+    return {
+        ...await importOriginal<typeof import("./fileAccessService.js")>(),
+        listFiles: async () => [...live.keys()],
+        readFile: read,
+        readBinaryFile: async (project: unknown, path: string) => Buffer.from(await read(project, path)),
+        writeFile: async (project: unknown, path: string, content: string) => {
+            live.set(path, content);
+        },
+        deleteFile: async (project: unknown, path: string) => {
+            live.delete(path);
+        }
+    };
+});
+
+vi.mock("../db/stagedFileService.js", () => ({
+    getStagedFiles: async () => [...staged].map(([path, content]) => ({ path, content })),
+    findStagedFile: async (projectId: number, path: string) => staged.has(path) ? { path, content: staged.get(path) } : undefined,
+    stageFile: async (projectId: number, path: string, content: string | null) => {
+        staged.set(path, content);
+    }
+}));
+
+vi.mock("../db/changeSetService.js", () => ({
+    createChangeSet: vi.fn(async () => 1),
+    recordChange: vi.fn(async () => undefined)
+}));
+
+const project: Project = { id: 1, hosts: ["demo.test"], previewHosts: [], name: "Demo", color: "#000000", folder: "demo" };
+
+// Context of a run without limits
+function runContext(mode: ToolContext["mode"], limits: Partial<ToolContext["limits"]> = {}): ToolContext {
+    return {
+        project,
+        prompt: "Update the site",
+        userId: 1,
+        mode,
+        limits: { isProtected: () => false, ...limits },
+        changedFiles: new Set(),
+        bytesWritten: 0,
+        abortController: new AbortController(),
+        staged: [],
+        toolCalls: []
+    };
+}
+
+// Call a tool the way the model does, errors are returned to the model as text
+async function call(context: ToolContext, name: string, args: object = {}, totalTokens = 0): Promise<string> {
+    const tool = assistantTools.find(tool => tool.name === name)!;
+    const runContext = new RunContext(context);
+    runContext.usage.add(new Usage({ requests: 1, inputTokens: totalTokens, outputTokens: 0, totalTokens }));
+    return String(await tool.invoke(runContext, JSON.stringify(args)));
+}
+
+beforeEach(() => {
+    live.clear();
+    staged.clear();
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("isTextFile", () => {
+    const binary = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]);
+
+    it("goes by the type of known files", () => {
+        expect(isTextFile("index.html", Buffer.from("<p></p>"))).toBe(true);
+        expect(isTextFile("data.json", Buffer.from("{}"))).toBe(true);
+        expect(isTextFile("logo.svg", Buffer.from("<svg/>"))).toBe(true);
+        expect(isTextFile("logo.png", Buffer.from("not really a png"))).toBe(false);
+    });
+
+    it("looks for NUL bytes in files of unknown types", () => {
+        expect(isTextFile("_redirects", Buffer.from("/old /new 301"))).toBe(true);
+        expect(isTextFile("LICENSE", Buffer.from("MIT"))).toBe(true);
+        expect(isTextFile("favicon", binary)).toBe(false);
+        expect(isTextFile("model.weights", binary)).toBe(false);
+    });
+});
+
+describe("normalizePath", () => {
+    it("stores every spelling of a path the same way", () => {
+        expect(normalizePath("./a.html")).toBe("a.html");
+        expect(normalizePath("././blog//post.html")).toBe("blog/post.html");
+        expect(normalizePath("blog/../a.html")).toBe("a.html");
+    });
+});
+
+describe("propose mode", () => {
+    beforeEach(() => {
+        live.set("index.html", "<h1>Home</h1>").set("about.html", "<h1>About</h1>");
+    });
+
+    it("stages writes instead of applying them", async () => {
+        const context = runContext("propose");
+
+        await call(context, "write_file", { path: "./index.html", content: "<h1>New</h1>" });
+        expect(live.get("index.html")).toBe("<h1>Home</h1>");
+        expect(staged.get("index.html")).toBe("<h1>New</h1>");
+        expect(context.staged).toEqual(["index.html"]);
+        expect(context.changeSet).toBeUndefined();
+    });
+
+    it("stages deletions of existing files", async () => {
+        const context = runContext("propose");
+
+        await call(context, "delete_file", { path: "about.html" });
+        expect(live.has("about.html")).toBe(true);
+        expect(staged.get("about.html")).toBeNull();
+
+        expect(await call(context, "delete_file", { path: "missing.html" })).toContain("File not found");
+        expect(staged.has("missing.html")).toBe(false);
+    });
+
+    it("sees the project as if its changes were applied", async () => {
+        const context = runContext("propose");
+
+        await call(context, "write_file", { path: "team.html", content: "<h1>Team</h1>" });
+        await call(context, "write_file", { path: "index.html", content: "<h1>New</h1>" });
+        await call(context, "delete_file", { path: "about.html" });
+
+        expect((await call(context, "list_files")).split("\n").sort()).toEqual(["index.html", "team.html"]);
+        expect(await call(context, "read_file", { path: "index.html" })).toBe("<h1>New</h1>");
+        expect(await call(context, "read_file", { path: "about.html" })).toContain("File not found");
+    });
+
+    it("applies changes in apply mode and records them in a change set", async () => {
+        const context = runContext("apply");
+
+        await call(context, "write_file", { path: "index.html", content: "<h1>New</h1>" });
+        expect(live.get("index.html")).toBe("<h1>New</h1>");
+        expect(staged.size).toBe(0);
+        expect(context.staged).toEqual([]);
+        expect(changeSetService.recordChange).toHaveBeenCalledWith(1, { path: "index.html", before: "<h1>Home</h1>", after: "<h1>New</h1>" });
+    });
+});
+
+describe("run limits", () => {
+    beforeEach(() => {
+        live.set("index.html", "<h1>Home</h1>").set("_secret/key.txt", "secret");
+    });
+
+    it("keeps protected files from being changed, however their path is spelled", async () => {
+        const context = runContext("apply", { isProtected: path => path.startsWith("_secret/") });
+
+        expect(await call(context, "read_file", { path: "_secret/key.txt" })).toBe("secret");
+        expect(await call(context, "write_file", { path: "_secret/key.txt", content: "" })).toContain("_secret/key.txt is protected");
+        expect(await call(context, "write_file", { path: ".//_secret/new.txt", content: "" })).toContain("is protected");
+        expect(await call(context, "delete_file", { path: "./_secret/key.txt" })).toContain("is protected");
+        expect(await call(context, "move_file", { from: "_secret/key.txt", to: "key.txt" })).toContain("is protected");
+        expect(await call(context, "move_file", { from: "index.html", to: "_secret/index.html" })).toContain("is protected");
+        expect(live.get("_secret/key.txt")).toBe("secret");
+        expect(live.has("_secret/new.txt")).toBe(false);
+        expect(context.changedFiles.size).toBe(0);
+    });
+
+    it("limits the number of files changed", async () => {
+        const context = runContext("apply", { maxFiles: 2 });
+
+        await call(context, "write_file", { path: "a.html", content: "a" });
+        await call(context, "write_file", { path: "b.html", content: "b" });
+        expect(await call(context, "write_file", { path: "./a.html", content: "a2" })).not.toContain("error");
+        expect(await call(context, "write_file", { path: "c.html", content: "c" })).toContain("at most 2 files");
+        expect(live.has("c.html")).toBe(false);
+    });
+
+    it("limits the bytes written", async () => {
+        const context = runContext("propose", { maxBytes: 10 });
+
+        await call(context, "write_file", { path: "a.html", content: "123456" });
+        expect(await call(context, "write_file", { path: "b.html", content: "12345" })).toContain("at most 10 bytes");
+        expect(staged.has("b.html")).toBe(false);
+        expect(context.bytesWritten).toBe(6);
+    });
+
+    it("stops the run once it used up its tokens", async () => {
+        const context = runContext("apply", { maxTokens: 100 });
+
+        expect(await call(context, "list_files", {}, 100)).toContain("index.html");
+        expect(context.abortController.signal.aborted).toBe(false);
+
+        expect(await call(context, "write_file", { path: "a.html", content: "a" }, 101)).toContain("more than the limit of 100");
+        expect(context.abortController.signal.aborted).toBe(true);
+        expect(context.limitReached).toBe("The run used 101 tokens, more than the limit of 100");
+        expect(live.has("a.html")).toBe(false);
+    });
+});
+
+describe("exceedsTokenLimit", () => {
+    it("records the first limit reached", () => {
+        const context = runContext("apply", { maxTokens: 100 });
+
+        expect(exceedsTokenLimit(context, { totalTokens: 100 })).toBe(false);
+        expect(exceedsTokenLimit(context, { totalTokens: 150 })).toBe(true);
+        expect(exceedsTokenLimit(context, { totalTokens: 200 })).toBe(true);
+        expect(context.limitReached).toBe("The run used 150 tokens, more than the limit of 100");
+    });
+
+    it("never stops runs without a limit", () => {
+        const context = runContext("apply");
+
+        expect(exceedsTokenLimit(context, { totalTokens: 1e9 })).toBe(false);
+        expect(context.limitReached).toBeUndefined();
+    });
+});
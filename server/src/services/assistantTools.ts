@@ -0,0 +1,516 @@
+import { z } from "zod";
+import { RunContext, tool } from "@openai/agents";
+import mime from "mime-types";
+import { posix } from "path";
+import * as changeSetService from "../db/changeSetService.js";
+import * as stagedFileService from "../db/stagedFileService.js";
+import * as fileAccessService from "./fileAccessService.js";
+import { FileNotFoundError, AccessDeniedError, NotTextFileError } from "./errors.js";
+import { Project } from "../db/projects.js";
+import { ToolCall } from "../db/conversations.js";
+import { checkFunctionPath } from "../middleware/functionHandler.js";
+
+/**
+ * File tools of the assistant
+ * In propose mode changes are staged for review and the tools see the project as if they were applied
+ */
+
+/**
+ * Limits of a run, undefined limits are unlimited
+ */
+export interface RunLimits {
+    maxFiles?: number;
+    maxBytes?: number;
+    maxTokens?: number;
+    // Matches files the run can read but not change
+    isProtected: (path: string) => boolean;
+}
+
+export interface ToolContext {
+    project: Project;
+    prompt: string;
+    userId: number | null;
+    mode: "apply" | "propose";
+    limits: RunLimits;
+    // Instructions of the project, merged into the agent instructions
+    projectInstructions?: string;
+    // Files changed and bytes written by the run, counted against its limits
+    changedFiles: Set<string>;
+    bytesWritten: number;
+    // Stops the run, e.g. when it used up its token budget
+    abortController: AbortController;
+    // Why the run was stopped by a limit
+    limitReached?: string;
+    // Paths with changes staged by the run in propose mode
+    staged: string[];
+    // Change set of the files the run changed, started by the first change
+    changeSet?: Promise<number>;
+    // Tools called during the run, recorded in the activity log and the conversation
+    toolCalls: ToolCall[];
+    // Notified of every tool call as it happens, set when the response is streamed
+    onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * Read the current content of a file, null if it doesn't exist
+ */
+export async function readLiveFile(project: Project, path: string): Promise<string | null> {
+    try {
+        return await fileAccessService.readFile(project, path);
+    } catch (error) {
+        if (!(error instanceof FileNotFoundError)) {
+            throw error;
+        }
+        return null;
+    }
+}
+
+/**
+ * Read the current content of a text file for the run, null if it doesn't exist
+ * @throws {NotTextFileError} if the file is binary
+ */
+async function readLiveTextFile(project: Project, path: string): Promise<string | null> {
+    let content: Buffer;
+    try {
+        content = await fileAccessService.readBinaryFile(project, path);
+    } catch (error) {
+        if (!(error instanceof FileNotFoundError)) {
+            throw error;
+        }
+        return null;
+    }
+    if (!isTextFile(path, content)) {
+        throw new NotTextFileError(`${path} is not a text file, use get_file_info for binary files`);
+    }
+    return content.toString("utf-8");
+}
+
+/**
+ * Read a file as the run sees it, including the changes it staged in propose mode
+ * @throws {NotTextFileError} if the file is binary
+ */
+async function readRunFile(context: ToolContext, path: string): Promise<string> {
+    if (context.mode === "propose") {
+        const staged = await stagedFileService.findStagedFile(context.project.id!, normalizePath(path));
+        if (staged) {
+            if (staged.content === null) {
+                throw new FileNotFoundError();
+            }
+            return staged.content;
+        }
+    }
+    const content = await readLiveTextFile(context.project, path);
+    if (content === null) {
+        throw new FileNotFoundError();
+    }
+    return content;
+}
+
+/**
+ * List the files as the run sees them, including the changes it staged in propose mode
+ */
+async function listRunFiles(context: ToolContext): Promise<string[]> {
+    const files = new Set(await fileAccessService.listFiles(context.project));
+
+    if (context.mode === "propose") {
+        for (const staged of await stagedFileService.getStagedFiles(context.project.id!)) {
+            if (staged.content === null) {
+                files.delete(staged.path);
+            } else {
+                files.add(staged.path);
+            }
+        }
+    }
+    return [...files];
+}
+
+/**
+ * Write a file for the run
+ * In propose mode the change is staged for review, otherwise it's applied and its prior content recorded in the change set of the run
+ */
+async function writeRunFile(context: ToolContext, path: string, content: string) {
+    // Stored and counted once however the model spells the path
+    path = normalizePath(path);
+    checkFunctionPath(path);
+    // Binary files aren't overwritten, the change set couldn't restore them
+    const before = context.mode === "apply" ? await readLiveTextFile(context.project, path) : null;
+    // Counted before writing, so that parallel tool calls can't exceed the limits together
+    checkChange(context, [path], Buffer.byteLength(content));
+    countChange(context, path, Buffer.byteLength(content));
+
+    if (context.mode === "propose") {
+        if (!fileAccessService.validatePathSecurity(path)) {
+            throw new AccessDeniedError();
+        }
+        await stagedFileService.stageFile(context.project.id!, path, content, context.prompt, context.userId);
+        if (!context.staged.includes(path)) {
+            context.staged.push(path);
+        }
+        return;
+    }
+
+    await fileAccessService.writeFile(context.project, path, content);
+
+    context.changeSet ??= changeSetService.createChangeSet(context.project.id!, context.userId, context.prompt);
+    await changeSetService.recordChange(await context.changeSet, { path, before, after: content });
+}
+
+/**
+ * Delete a file for the run, staged for review in propose mode like writes
+ */
+async function deleteRunFile(context: ToolContext, path: string) {
+    path = normalizePath(path);
+    // Only text files can be restored from a change set or shown as a diff
+    if (isTextType(path) === false) {
+        throw new NotTextFileError(`Only text files can be deleted, ${path} is not one`);
+    }
+    checkChange(context, [path], 0);
+    countChange(context, path, 0);
+
+    if (context.mode === "propose") {
+        // Fails if the file doesn't exist for the run
+        await readRunFile(context, path);
+        await stagedFileService.stageFile(context.project.id!, path, null, context.prompt, context.userId);
+        if (!context.staged.includes(path)) {
+            context.staged.push(path);
+        }
+        return;
+    }
+
+    const before = await readLiveTextFile(context.project, path);
+    if (before === null) {
+        throw new FileNotFoundError();
+    }
+    await fileAccessService.deleteFile(context.project, path);
+
+    context.changeSet ??= changeSetService.createChangeSet(context.project.id!, context.userId, context.prompt);
+    await changeSetService.recordChange(await context.changeSet, { path, before, after: null });
+}
+
+// Bytes searched for a NUL byte to tell text from binary files of unknown types, like git does
+const SNIFF_LENGTH = 8000;
+
+/**
+ * Check whether a file holds text by its type
+ * @returns Undefined if the type is unknown, like for files without an extension
+ */
+function isTextType(path: string): boolean | undefined {
+    const type = mime.lookup(path);
+    if (type === false) {
+        return undefined;
+    }
+    return type.startsWith("text/")
+        || type.endsWith("+xml")
+        || ["application/json", "application/javascript", "application/xml"].includes(type);
+}
+
+/**
+ * Check whether a file holds text by its type, or by its content if the type is unknown
+ * Other files are left out of reads, searches, moves and deletions, as change sets store text
+ */
+export function isTextFile(path: string, content: Buffer): boolean {
+    return isTextType(path) ?? !content.subarray(0, SNIFF_LENGTH).includes(0);
+}
+
+/**
+ * Normalize a directory path to the prefix of the files within, "" for the project root
+ * @throws {AccessDeniedError} if the path is invalid
+ */
+function directoryPrefix(directory: string): string {
+    const trimmed = directory.replace(/^\.?\/+/, "").replace(/\/+$/, "");
+    if (!trimmed || trimmed === ".") {
+        return "";
+    }
+    if (!fileAccessService.validatePathSecurity(trimmed)) {
+        throw new AccessDeniedError();
+    }
+    return `${trimmed}/`;
+}
+
+/**
+ * Check that the run may change files without exceeding its limits
+ * @param paths - Files to change together, e.g. the source and target of a move
+ * @param bytes - Bytes that would be written
+ * @throws {Error} if a file is protected or a limit would be exceeded, the model is told why
+ */
+function checkChange(context: ToolContext, paths: string[], bytes: number) {
+    const { limits, changedFiles } = context;
+
+    for (const path of paths) {
+        if (limits.isProtected(path)) {
+            throw new Error(`${path} is protected, it can be read but not changed`);
+        }
+    }
+
+    const newFiles = new Set(paths.filter(path => !changedFiles.has(normalizePath(path))).map(normalizePath));
+    if (limits.maxFiles !== undefined && changedFiles.size + newFiles.size > limits.maxFiles) {
+        throw new Error(`A run may change at most ${limits.maxFiles} files, stop and report what is left to do`);
+    }
+    if (limits.maxBytes !== undefined && context.bytesWritten + bytes > limits.maxBytes) {
+        throw new Error(`A run may write at most ${limits.maxBytes} bytes, stop and report what is left to do`);
+    }
+}
+
+/**
+ * Count a file change against the limits of the run
+ */
+function countChange(context: ToolContext, path: string, bytes: number) {
+    context.changedFiles.add(normalizePath(path));
+    context.bytesWritten += bytes;
+}
+
+/**
+ * Normalize a file path the way it's stored, so that protected patterns can't be bypassed with "./" or "//"
+ */
+export function normalizePath(path: string): string {
+    return posix.normalize(path).replace(/^(\.\/)+/, "");
+}
+
+/**
+ * Check the tokens used by a run against its budget, recording the reached limit
+ * Checked on every tool call and once more after the run, as replies without tool calls use tokens as well
+ * @returns Whether the run used more tokens than allowed
+ */
+export function exceedsTokenLimit(context: ToolContext, usage: { totalTokens: number }): boolean {
+    const { maxTokens } = context.limits;
+    if (maxTokens === undefined || usage.totalTokens <= maxTokens) {
+        return false;
+    }
+    context.limitReached ??= `The run used ${usage.totalTokens} tokens, more than the limit of ${maxTokens}`;
+    return true;
+}
+
+/**
+ * Record a tool call of the run, stopping the run once it used up its token budget
+ */
+function trackToolCall(context: RunContext<ToolContext> | undefined, call: ToolCall) {
+    if (!context) {
+        return;
+    }
+
+    if (exceedsTokenLimit(context.context, context.usage)) {
+        context.context.abortController.abort();
+        throw new Error(context.context.limitReached);
+    }
+
+    context.context.toolCalls.push(call);
+    context.context.onToolCall?.(call);
+}
+
+const listFilesTool = tool({
+    name:"list_files",
+    description: "List all files in the project. Use this tool first to ensure to provide a valid path when editing a file.",
+    parameters: z.object({}),
+    execute: async (input, context?: RunContext<ToolContext>) => {
+        console.log('calling tool list_files');
+        trackToolCall(context, { tool: "list_files" });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+        return (await listRunFiles(context.context)).join("\n");
+    }
+});
+
+const readFileTool = tool({
+    name: "read_file",
+    description: "Read the contents of a specific file.",
+    parameters: z.object({path: z.string() }),
+    execute: async ({path}, context?: RunContext<ToolContext>) => {
+        console.log('calling tool read_file');
+        trackToolCall(context, { tool: "read_file", path });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+        return readRunFile(context.context, path);
+    }
+});
+
+const writeFileTool = tool({
+    name: "write_file",
+    description: "Write the contents of a specific file. If the file exists, the content will be overwritten.",
+    parameters: z.object({path: z.string(), content: z.string() }),
+    execute: async ({path, content}, context?: RunContext<ToolContext>) => {
+        console.log('calling tool write_file');
+        trackToolCall(context, { tool: "write_file", path });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+        await writeRunFile(context.context, path, content);
+    }
+});
+
+const deleteFileTool = tool({
+    name: "delete_file",
+    description: "Delete a text file, e.g. a page that is no longer needed.",
+    parameters: z.object({ path: z.string() }),
+    execute: async ({ path }, context?: RunContext<ToolContext>) => {
+        console.log('calling tool delete_file');
+        trackToolCall(context, { tool: "delete_file", path });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+        await deleteRunFile(context.context, path);
+        return `Deleted ${path}`;
+    }
+});
+
+const moveFileTool = tool({
+    name: "move_file",
+    description: "Move or rename a text file. Fails if the target exists. Update links to the old path afterwards.",
+    parameters: z.object({ from: z.string(), to: z.string() }),
+    execute: async ({ from, to }, context?: RunContext<ToolContext>) => {
+        console.log('calling tool move_file');
+        trackToolCall(context, { tool: "move_file", path: `${from} -> ${to}` });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+        if (isTextType(from) === false) {
+            throw new NotTextFileError(`Only text files can be moved, ${from} is not one`);
+        }
+
+        const content = await readRunFile(context.context, from);
+        checkChange(context.context, [from, to], Buffer.byteLength(content));
+        const targetExists = await readRunFile(context.context, to).then(() => true, error => {
+            if (!(error instanceof FileNotFoundError)) {
+                throw error;
+            }
+            return false;
+        });
+        if (targetExists) {
+            throw new Error(`${to} already exists`);
+        }
+
+        await writeRunFile(context.context, to, content);
+        await deleteRunFile(context.context, from);
+        return `Moved ${from} to ${to}`;
+    }
+});
+
+// Limits keeping search results within what's useful to the model
+const GREP_MAX_MATCHES = 100;
+const GREP_MAX_LINE_LENGTH = 200;
+
+const grepFilesTool = tool({
+    name: "grep_files",
+    description: "Search text files for a regular expression, e.g. to find every page mentioning a name. Returns matching lines as path:line: text.",
+    parameters: z.object({
+        pattern: z.string().describe("JavaScript regular expression"),
+        directory: z.string().default("").describe("Only search files within this directory, empty for the whole project"),
+        ignoreCase: z.boolean().default(false)
+    }),
+    execute: async ({ pattern, directory, ignoreCase }, context?: RunContext<ToolContext>) => {
+        console.log('calling tool grep_files');
+        trackToolCall(context, { tool: "grep_files", path: directory || undefined });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+
+        let regex: RegExp;
+        try {
+            regex = new RegExp(pattern, ignoreCase ? "i" : "");
+        } catch (error: any) {
+            // The message names the pattern and what's wrong with it
+            throw new Error(error.message);
+        }
+
+        const prefix = directoryPrefix(directory);
+        const files = (await listRunFiles(context.context))
+            .filter(file => file.startsWith(prefix) && isTextType(file) !== false)
+            .sort();
+
+        const matches: string[] = [];
+        for (const file of files) {
+            let content: string;
+            try {
+                content = await readRunFile(context.context, file);
+            } catch (error) {
+                // Binary files of unknown types are only told apart by their content
+                if (error instanceof NotTextFileError) {
+                    continue;
+                }
+                throw error;
+            }
+            const lines = content.split("\n");
+            for (let i = 0; i < lines.length; i++) {
+                if (!regex.test(lines[i])) {
+                    continue;
+                }
+                if (matches.length === GREP_MAX_MATCHES) {
+                    return `${matches.join("\n")}\n(more matches omitted, narrow the search)`;
+                }
+                matches.push(`${file}:${i + 1}: ${lines[i].trim().slice(0, GREP_MAX_LINE_LENGTH)}`);
+            }
+        }
+        return matches.length > 0 ? matches.join("\n") : "No matches";
+    }
+});
+
+const getFileInfoTool = tool({
+    name: "get_file_info",
+    description: "Get the size in bytes, content type and modification time of a file, including images and other binary files.",
+    parameters: z.object({ path: z.string() }),
+    execute: async ({ path }, context?: RunContext<ToolContext>) => {
+        console.log('calling tool get_file_info');
+        trackToolCall(context, { tool: "get_file_info", path });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+
+        const contentType = mime.lookup(path) || "application/octet-stream";
+
+        // A change staged by the run isn't in storage yet
+        if (context.context.mode === "propose" && context.context.staged.includes(path)) {
+            const content = await readRunFile(context.context, path);
+            return JSON.stringify({ path, size: Buffer.byteLength(content), contentType, staged: true });
+        }
+
+        const stats = await fileAccessService.getFileStats(context.context.project, path);
+        return JSON.stringify({
+            path,
+            size: stats.size,
+            contentType: stats.contentType ?? contentType,
+            lastModified: stats.lastModified
+        });
+    }
+});
+
+const listDirectoryTool = tool({
+    name: "list_directory",
+    description: "List the files and subdirectories (ending with /) directly within a directory.",
+    parameters: z.object({
+        path: z.string().default("").describe("Directory relative to the project root, empty for the root")
+    }),
+    execute: async ({ path }, context?: RunContext<ToolContext>) => {
+        console.log('calling tool list_directory');
+        trackToolCall(context, { tool: "list_directory", path: path || undefined });
+        if (!context?.context.project) {
+            throw new Error("No project provided");
+        }
+
+        const prefix = directoryPrefix(path);
+        const entries = new Set<string>();
+        for (const file of await listRunFiles(context.context)) {
+            if (file.startsWith(prefix)) {
+                const rest = file.slice(prefix.length);
+                const slash = rest.indexOf("/");
+                entries.add(slash === -1 ? rest : rest.slice(0, slash + 1));
+            }
+        }
+
+        return entries.size > 0 ? [...entries].sort().join("\n") : "Empty directory";
+    }
+});
+
+/**
+ * The tools of the assistant, each acting on the project of the run
+ */
+export const assistantTools = [
+    listFilesTool,
+    listDirectoryTool,
+    readFileTool,
+    getFileInfoTool,
+    grepFilesTool,
+    writeFileTool,
+    moveFileTool,
+    deleteFileTool
+];
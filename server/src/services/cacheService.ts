@@ -0,0 +1,96 @@
+import { LruCache, CacheStats } from "./lruCache.js";
+import { FileRoot } from "./fileAccessService.js";
+import { Project } from "../db/projects.js";
+import { SiteConfig } from "./siteConfig.js";
+import { RouteRule } from "./routeRules.js";
+import { UrlResolution, UrlOptions } from "./urlResolver.js";
+
+/**
+ * In-memory caches of the data every request to a project host needs
+ * Hosts resolve to their project without querying the database, pages are rendered once instead of every request,
+ * and the site configuration, route rules and URL lookups of a project are read from storage once.
+ * Changes made through this process invalidate the caches right away, changes of other processes
+ * (like the stdio MCP server) show up when the entries expire
+ */
+
+const HOST_CACHE_SIZE = parseInt(process.env.HOST_CACHE_SIZE || "1000");
+const PAGE_CACHE_SIZE = parseInt(process.env.PAGE_CACHE_SIZE || "500");
+const SITE_CACHE_SIZE = parseInt(process.env.SITE_CACHE_SIZE || "1000");
+const URL_CACHE_SIZE = parseInt(process.env.URL_CACHE_SIZE || "5000");
+const CACHE_TTL_SECONDS = parseInt(process.env.CACHE_TTL_SECONDS || "60");
+
+// Projects by hostname, null for hosts without a project
+export const hostCache = new LruCache<string, Project | null>(HOST_CACHE_SIZE, CACHE_TTL_SECONDS * 1000);
+
+// Rendered pages by storage root, path and variables, see pageKey()
+export const pageCache = new LruCache<string, string>(PAGE_CACHE_SIZE, CACHE_TTL_SECONDS * 1000);
+
+// Parsed _config.json and route rules by storage root, see rootKey()
+export const configCache = new LruCache<string, SiteConfig>(SITE_CACHE_SIZE, CACHE_TTL_SECONDS * 1000);
+export const ruleCache = new LruCache<string, RouteRule[]>(SITE_CACHE_SIZE, CACHE_TTL_SECONDS * 1000);
+
+// Files found for request paths by storage root, path and URL settings, see urlKey()
+export const urlCache = new LruCache<string, UrlResolution>(URL_CACHE_SIZE, CACHE_TTL_SECONDS * 1000);
+
+/**
+ * Build the key of data read once per storage root, its folder
+ */
+export function rootKey(root: FileRoot): string {
+    return `${root.folder}/`;
+}
+
+/**
+ * Build the key of a rendered page, starting with the folder of its storage root
+ */
+export function pageKey(root: FileRoot, filePath: string, variables: Record<string, unknown>): string {
+    return `${root.folder}/${filePath}\n${JSON.stringify(variables)}`;
+}
+
+/**
+ * Build the key of a URL resolution, starting with the folder of its storage root
+ */
+export function urlKey(root: FileRoot, urlPath: string, options: UrlOptions): string {
+    return `${root.folder}/${urlPath}\n${JSON.stringify(options)}`;
+}
+
+/**
+ * Forget the projects and their pages after a project, its hosts or its published version changed
+ * Pages include project properties like the name, so they are dropped as well
+ */
+export function invalidateProjects(): void {
+    hostCache.clear();
+    pageCache.clear();
+}
+
+/**
+ * Forget what was read from a storage root after one of its files changed
+ * Any page can include any file as a layout, partial or data, so all of them are dropped
+ */
+export function invalidateFiles(root: FileRoot): void {
+    const prefix = rootKey(root);
+    for (const cache of [pageCache, configCache, ruleCache, urlCache]) {
+        cache.deleteWhere(key => key.startsWith(prefix));
+    }
+}
+
+/**
+ * Forget everything, after changing projects or files from outside the server
+ */
+export function clearCaches(): void {
+    for (const cache of [hostCache, pageCache, configCache, ruleCache, urlCache]) {
+        cache.clear();
+    }
+}
+
+/**
+ * Get the hit and miss counters of the caches
+ */
+export function getCacheStats(): Record<"hosts" | "pages" | "configs" | "rules" | "urls", CacheStats> {
+    return {
+        hosts: hostCache.stats(),
+        pages: pageCache.stats(),
+        configs: configCache.stats(),
+        rules: ruleCache.stats(),
+        urls: urlCache.stats()
+    };
+}
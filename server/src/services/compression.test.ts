@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import express, { Request } from "express";
+import { acceptedEncodings, isCompressible } from "./compression.js";
+
+// A request with the methods of express, for the Accept-Encoding given
+function request(acceptEncoding?: string): Request {
+    return Object.assign(Object.create(express.request), {
+        headers: acceptEncoding === undefined ? {} : { "accept-encoding": acceptEncoding }
+    });
+}
+
+describe("acceptedEncodings", () => {
+    it("prefers Brotli when both are accepted equally", () => {
+        expect(acceptedEncodings(request("gzip, deflate, br"))).toEqual(["br", "gzip"]);
+        expect(acceptedEncodings(request("*"))).toEqual(["br", "gzip"]);
+    });
+
+    it("follows the quality of the encodings", () => {
+        expect(acceptedEncodings(request("br;q=0.5, gzip"))).toEqual(["gzip", "br"]);
+        expect(acceptedEncodings(request("gzip, br;q=0"))).toEqual(["gzip"]);
+    });
+
+    it("sends the response as is without an accepted encoding", () => {
+        expect(acceptedEncodings(request())).toEqual([]);
+        expect(acceptedEncodings(request("deflate"))).toEqual([]);
+        expect(acceptedEncodings(request("identity"))).toEqual([]);
+    });
+
+    it("sends the response as is when it is preferred", () => {
+        expect(acceptedEncodings(request("identity, gzip;q=0.5"))).toEqual([]);
+    });
+});
+
+describe("isCompressible", () => {
+    it("compresses text formats", () => {
+        expect(isCompressible("index.html")).toBe(true);
+        expect(isCompressible("app.js")).toBe(true);
+        expect(isCompressible("data.json")).toBe(true);
+        expect(isCompressible("logo.svg")).toBe(true);
+        expect(isCompressible("module.wasm")).toBe(true);
+    });
+
+    it("leaves compressed formats alone", () => {
+        expect(isCompressible("photo.jpg")).toBe(false);
+        expect(isCompressible("video.mp4")).toBe(false);
+        expect(isCompressible("archive.zip")).toBe(false);
+        expect(isCompressible("style.css.gz")).toBe(false);
+    });
+});
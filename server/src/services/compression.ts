@@ -0,0 +1,107 @@
+import zlib from "zlib";
+import { promisify } from "util";
+import { Transform } from "stream";
+import mime from "mime-types";
+import { Request } from "express";
+import { SiteConfig } from "./siteConfig.js";
+import * as fileAccessService from "./fileAccessService.js";
+import { isPage, isHidden, isTemplateSource } from "./urlResolver.js";
+
+/**
+ * Compression of the text files a project serves, configured in the "compression" section of _config.json
+ * Responses are compressed as they are sent, or served from variants stored next to the file (style.css.br)
+ */
+
+export type CompressionOptions = SiteConfig["compression"];
+
+export type Encoding = "br" | "gzip";
+
+// Extensions of the stored variants, in order of preference
+export const VARIANTS: Record<Encoding, string> = { br: ".br", gzip: ".gz" };
+
+// Smaller responses gain less than the compression costs
+export const MIN_SIZE = 1024;
+
+const COMPRESSIBLE = /^(text\/|image\/svg\+xml$|application\/(javascript|json|ld\+json|manifest\+json|xml|wasm)$)/;
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+
+/**
+ * Whether a file is worth compressing, images, media and archives already are
+ */
+export function isCompressible(filePath: string): boolean {
+    const type = mime.lookup(filePath);
+    return type !== false && COMPRESSIBLE.test(type);
+}
+
+/**
+ * Find the encodings a request accepts from its Accept-Encoding, the preferred one first
+ * @returns The encodings, empty to send the response as is
+ */
+export function acceptedEncodings(req: Request): Encoding[] {
+    const encodings = (Object.keys(VARIANTS) as Encoding[]).filter(encoding => req.acceptsEncodings(encoding) === encoding);
+    if (encodings.length === 0 || req.acceptsEncodings([...encodings, "identity"]) === "identity") {
+        return [];
+    }
+
+    // Browsers list gzip before br (gzip, deflate, br) with the same quality, the smaller br wins a tie
+    const header = req.headers["accept-encoding"] ?? "";
+    const quality = (encoding: Encoding) => {
+        const match = new RegExp(`(?:^|,)\\s*${encoding}\\s*(?:;\\s*q=([\\d.]+))?\\s*(?:,|$)`, "i").exec(header);
+        return match ? Number(match[1] ?? 1) : 0;
+    };
+    return encodings.sort((a, b) => quality(b) - quality(a));
+}
+
+/**
+ * Compress a response as it is sent, favouring speed over size
+ */
+export function createCompressStream(encoding: Encoding): Transform {
+    return encoding === "br"
+        ? zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 4 } })
+        : zlib.createGzip();
+}
+
+/**
+ * Compress a whole response, like a rendered page
+ */
+export function compress(content: string | Buffer, encoding: Encoding): Promise<Buffer> {
+    return encoding === "br"
+        ? brotliCompress(content, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 4 } })
+        : gzip(content);
+}
+
+/**
+ * Store the Brotli and gzip variants of the compressible files of a project or version
+ * They are compressed as small as possible, as this runs once and not for every response
+ * Variants that wouldn't be smaller than their file are not stored
+ * @param files - The files to store variants of
+ * @returns The number of variants stored
+ */
+export async function storeVariants(root: fileAccessService.FileRoot, files: string[]): Promise<number> {
+    let stored = 0;
+    for (const file of files) {
+        // Pages are rendered for every request and hidden files never served, so their variants would be unused
+        // or expose the hidden files
+        if (!isCompressible(file) || isPage(file) || isHidden(file) || isTemplateSource(file)) {
+            continue;
+        }
+        const content = await fileAccessService.readBinaryFile(root, file);
+        if (content.length < MIN_SIZE) {
+            continue;
+        }
+
+        const variants: Record<Encoding, Buffer> = {
+            br: await brotliCompress(content, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY } }),
+            gzip: await gzip(content, { level: zlib.constants.Z_BEST_COMPRESSION })
+        };
+        for (const encoding of Object.keys(variants) as Encoding[]) {
+            if (variants[encoding].length < content.length) {
+                await fileAccessService.writeBinaryFile(root, file + VARIANTS[encoding], variants[encoding]);
+                stored++;
+            }
+        }
+    }
+    return stored;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { generateToken, hashPassword, hashToken, verifyPassword } from "./credentials.js";
+
+describe("passwords", () => {
+    it("verify against their hash", async () => {
+        const encoded = await hashPassword("correct horse");
+
+        expect(encoded).toMatch(/^scrypt\$[^$]+\$[^$]+$/);
+        expect(await verifyPassword("correct horse", encoded)).toBe(true);
+        expect(await verifyPassword("correct horse!", encoded)).toBe(false);
+    });
+
+    it("are salted", async () => {
+        expect(await hashPassword("secret")).not.toBe(await hashPassword("secret"));
+    });
+
+    it("never match malformed hashes", async () => {
+        expect(await verifyPassword("secret", "")).toBe(false);
+        expect(await verifyPassword("secret", "md5$abc$def")).toBe(false);
+        expect(await verifyPassword("secret", "scrypt$abc")).toBe(false);
+    });
+});
+
+describe("tokens", () => {
+    it("are random and carry their prefix", () => {
+        const token = generateToken("sdt_");
+
+        expect(token).toMatch(/^sdt_[\w-]{43}$/);
+        expect(generateToken()).not.toBe(generateToken());
+    });
+
+    it("hash the same every time", () => {
+        expect(hashToken("abc")).toBe(hashToken("abc"));
+        expect(hashToken("abc")).not.toBe(hashToken("abd"));
+    });
+});
@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+/**
+ * Hashing helpers for passwords and bearer tokens
+ */
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password with a random salt
+ * @returns The encoded hash in the format scrypt$<salt>$<hash>
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+/**
+ * Check a password against an encoded hash created by hashPassword
+ */
+export async function verifyPassword(password: string, encoded: string): Promise<boolean> {
+    const [algorithm, salt, hash] = encoded.split("$");
+    if (algorithm !== "scrypt" || !salt || !hash) {
+        return false;
+    }
+
+    const expected = Buffer.from(hash, "base64");
+    const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Generate a random bearer token
+ * @param prefix - Optional prefix that makes the kind of token recognizable
+ */
+export function generateToken(prefix: string = ""): string {
+    return prefix + crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * Hash a bearer token for storage and lookup
+ * Tokens are long random strings, so a fast unsalted hash is sufficient
+ */
+export function hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
@@ -1,5 +1,5 @@
 /**
- * Custom error classes for file access operations
+ * Custom error classes for file access, function and data store operations
  */
 
 /**
@@ -34,3 +34,91 @@ export class AccessDeniedError extends Error {
         Object.setPrototypeOf(this, AccessDeniedError.prototype);
     }
 }
+
+/**
+ * Thrown when a serverless function exceeds its time limit
+ */
+export class FunctionTimeoutError extends Error {
+    constructor(message: string = "Function timed out") {
+        super(message);
+        this.name = "FunctionTimeoutError";
+        Object.setPrototypeOf(this, FunctionTimeoutError.prototype);
+    }
+}
+
+/**
+ * Thrown when a serverless function fails (throws, returns an invalid response or runs out of memory)
+ */
+export class FunctionExecutionError extends Error {
+    constructor(message: string = "Function execution failed") {
+        super(message);
+        this.name = "FunctionExecutionError";
+        Object.setPrototypeOf(this, FunctionExecutionError.prototype);
+    }
+}
+
+/**
+ * Thrown when too many serverless functions are running at the same time
+ */
+export class FunctionBusyError extends Error {
+    constructor(message: string = "Too many functions running, try again later") {
+        super(message);
+        this.name = "FunctionBusyError";
+        Object.setPrototypeOf(this, FunctionBusyError.prototype);
+    }
+}
+
+/**
+ * Thrown when writing a serverless function whose path is taken by the server API
+ */
+export class ReservedPathError extends Error {
+    constructor(message: string = "Function path is reserved for the server API") {
+        super(message);
+        this.name = "ReservedPathError";
+        Object.setPrototypeOf(this, ReservedPathError.prototype);
+    }
+}
+
+/**
+ * Thrown when a write would exceed the data store quota of a project
+ */
+export class DataQuotaExceededError extends Error {
+    constructor(message: string = "Data store quota exceeded") {
+        super(message);
+        this.name = "DataQuotaExceededError";
+        Object.setPrototypeOf(this, DataQuotaExceededError.prototype);
+    }
+}
+
+/**
+ * Thrown when a page or one of its templates can't be rendered (invalid front-matter, syntax or missing partial)
+ */
+export class TemplateError extends Error {
+    constructor(message: string = "Template could not be rendered") {
+        super(message);
+        this.name = "TemplateError";
+        Object.setPrototypeOf(this, TemplateError.prototype);
+    }
+}
+
+/**
+ * Thrown when the _config.json of a project is not valid
+ */
+export class SiteConfigError extends Error {
+    constructor(message: string = "Invalid site configuration") {
+        super(message);
+        this.name = "SiteConfigError";
+        Object.setPrototypeOf(this, SiteConfigError.prototype);
+    }
+}
+
+/**
+ * Thrown when the assistant reads or changes a binary file, which can't be shown or restored as text
+ */
+export class NotTextFileError extends Error {
+    constructor(message: string = "Not a text file") {
+        super(message);
+        this.name = "NotTextFileError";
+        Object.setPrototypeOf(this, NotTextFileError.prototype);
+    }
+}
@@ -7,15 +7,18 @@ import {
     HeadObjectCommand,
     CreateBucketCommand,
     HeadBucketCommand,
+    CopyObjectCommand,
 } from "@aws-sdk/client-s3";
 import { Project } from "../db/projects.js";
 import { FileNotFoundError, PathNotFileError, AccessDeniedError } from "./errors.js";
+import { invalidateFiles } from "./cacheService.js";
 import path from "path";
 import { Readable } from "stream";
 
 /**
  * S3-compatible storage service for managing project files
  * Uses SeaweedFS as the S3-compatible storage backend
+ * Every write drops what was read from its storage root from the caches
  */
 
 // Initialize S3 client
@@ -32,19 +35,36 @@ const s3Client = new S3Client({
 const BUCKET_NAME = process.env.S3_BUCKET || "snapdash-projects";
 
 /**
- * Build the S3 object key for a file within a project
+ * A storage root files are resolved against.
+ * A project is the root of its working copy, snapshots get their own root (see versionRoot).
+ */
+export type FileRoot = Pick<Project, "folder">;
+
+/**
+ * Get the storage root of a frozen project version
  * @param project - The project object
+ * @param versionId - The ID of the version
+ * @returns The root holding the version's snapshot
+ */
+export function versionRoot(project: Project, versionId: number): FileRoot {
+    // Folder names never start with an underscore, so this prefix can't collide with a project
+    return { folder: `_versions/${project.folder}/${versionId}` };
+}
+
+/**
+ * Build the S3 object key for a file within a project
+ * @param root - The project or version to resolve against
  * @param filePath - The relative file path within the project
  * @returns The S3 object key
  */
-export function buildS3Key(project: Project, filePath: string = ""): string {
+export function buildS3Key(root: FileRoot, filePath: string = ""): string {
     // Handle empty filePath to avoid path.normalize("") returning "."
     if (!filePath) {
-        return `${project.folder}/`;
+        return `${root.folder}/`;
     }
     // Normalize the path to prevent directory traversal
     const normalizedPath = path.normalize(filePath).replace(/^(\.\.(\/|\\|$))+/, "");
-    return `${project.folder}/${normalizedPath}`.replace(/\\/g, "/");
+    return `${root.folder}/${normalizedPath}`.replace(/\\/g, "/");
 }
 
 /**
@@ -60,18 +80,30 @@ export function validatePathSecurity(filePath: string): boolean {
 
 /**
  * Read a file from S3 storage
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param filePath - The relative path to the file within the project
  * @returns The file content as a string
  * @throws {AccessDeniedError} if path is invalid
  * @throws {FileNotFoundError} if file doesn't exist
  */
-export async function readFile(project: Project, filePath: string): Promise<string> {
+export async function readFile(root: FileRoot, filePath: string): Promise<string> {
+    return (await readBinaryFile(root, filePath)).toString("utf-8");
+}
+
+/**
+ * Read the bytes of a file from S3 storage, for files that aren't UTF-8 text
+ * @param root - The project or version to operate on
+ * @param filePath - The relative path to the file within the project
+ * @returns The file content
+ * @throws {AccessDeniedError} if path is invalid
+ * @throws {FileNotFoundError} if file doesn't exist
+ */
+export async function readBinaryFile(root: FileRoot, filePath: string): Promise<Buffer> {
     if (!validatePathSecurity(filePath)) {
         throw new AccessDeniedError();
     }
 
-    const key = buildS3Key(project, filePath);
+    const key = buildS3Key(root, filePath);
 
     try {
         const command = new GetObjectCommand({
@@ -85,13 +117,12 @@ export async function readFile(project: Project, filePath: string): Promise<stri
             throw new FileNotFoundError();
         }
 
-        // Convert stream to string
         const stream = response.Body as Readable;
         const chunks: Buffer[] = [];
         for await (const chunk of stream) {
             chunks.push(chunk);
         }
-        return Buffer.concat(chunks).toString("utf-8");
+        return Buffer.concat(chunks);
     } catch (error: any) {
         if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) {
             throw new FileNotFoundError();
@@ -102,17 +133,17 @@ export async function readFile(project: Project, filePath: string): Promise<stri
 
 /**
  * Write content to a file in S3 storage
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param filePath - The relative path to the file within the project
  * @param content - The content to write
  * @throws {AccessDeniedError} if path is invalid
  */
-export async function writeFile(project: Project, filePath: string, content: string): Promise<void> {
+export async function writeFile(root: FileRoot, filePath: string, content: string): Promise<void> {
     if (!validatePathSecurity(filePath)) {
         throw new AccessDeniedError();
     }
 
-    const key = buildS3Key(project, filePath);
+    const key = buildS3Key(root, filePath);
 
     const command = new PutObjectCommand({
         Bucket: BUCKET_NAME,
@@ -122,21 +153,22 @@ export async function writeFile(project: Project, filePath: string, content: str
     });
 
     await s3Client.send(command);
+    invalidateFiles(root);
 }
 
 /**
  * Write binary data to a file in S3 storage
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param filePath - The relative path to the file within the project
  * @param buffer - The binary data to write
  * @throws {AccessDeniedError} if path is invalid
  */
-export async function writeBinaryFile(project: Project, filePath: string, buffer: Buffer): Promise<void> {
+export async function writeBinaryFile(root: FileRoot, filePath: string, buffer: Buffer): Promise<void> {
     if (!validatePathSecurity(filePath)) {
         throw new AccessDeniedError();
     }
 
-    const key = buildS3Key(project, filePath);
+    const key = buildS3Key(root, filePath);
 
     const command = new PutObjectCommand({
         Bucket: BUCKET_NAME,
@@ -146,21 +178,22 @@ export async function writeBinaryFile(project: Project, filePath: string, buffer
     });
 
     await s3Client.send(command);
+    invalidateFiles(root);
 }
 
 /**
  * Delete a file from S3 storage
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param filePath - The relative path to the file within the project
  * @throws {AccessDeniedError} if path is invalid
  * @throws {FileNotFoundError} if file doesn't exist
  */
-export async function deleteFile(project: Project, filePath: string): Promise<void> {
+export async function deleteFile(root: FileRoot, filePath: string): Promise<void> {
     if (!validatePathSecurity(filePath)) {
         throw new AccessDeniedError();
     }
 
-    const key = buildS3Key(project, filePath);
+    const key = buildS3Key(root, filePath);
 
     // First check if file exists
     try {
@@ -183,27 +216,83 @@ export async function deleteFile(project: Project, filePath: string): Promise<vo
     });
 
     await s3Client.send(command);
+    invalidateFiles(root);
+}
+
+/**
+ * Delete every file of a project or version
+ * @param root - The project or version to delete the files of
+ */
+export async function deleteFolder(root: FileRoot): Promise<void> {
+    for (const file of await listFiles(root)) {
+        const command = new DeleteObjectCommand({
+            Bucket: BUCKET_NAME,
+            Key: buildS3Key(root, file),
+        });
+        await s3Client.send(command);
+    }
+    invalidateFiles(root);
 }
 
+/**
+ * Copy a file between storage roots (or within one) without downloading it
+ * @param sourceRoot - The project or version to copy from
+ * @param sourcePath - The relative path of the source file
+ * @param targetRoot - The project or version to copy to
+ * @param targetPath - The relative path of the target file
+ * @throws {AccessDeniedError} if a path is invalid
+ * @throws {FileNotFoundError} if the source file doesn't exist
+ */
+export async function copyFile(sourceRoot: FileRoot, sourcePath: string, targetRoot: FileRoot, targetPath: string): Promise<void> {
+    if (!validatePathSecurity(sourcePath) || !validatePathSecurity(targetPath)) {
+        throw new AccessDeniedError();
+    }
+
+    const sourceKey = buildS3Key(sourceRoot, sourcePath);
+    const targetKey = buildS3Key(targetRoot, targetPath);
+
+    try {
+        const command = new CopyObjectCommand({
+            Bucket: BUCKET_NAME,
+            CopySource: `${BUCKET_NAME}/${encodeURIComponent(sourceKey)}`,
+            Key: targetKey,
+        });
+        await s3Client.send(command);
+        invalidateFiles(targetRoot);
+    } catch (error: any) {
+        if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) {
+            throw new FileNotFoundError();
+        }
+        throw error;
+    }
+}
+
+/**
+ * A part of a file, from the byte at start to the one at end
+ */
+export type ByteRange = { start: number, end: number };
+
 /**
  * Create a read stream for a file in S3 storage
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param filePath - The relative path to the file within the project
+ * @param range - Only read these bytes of the file, both offsets inclusive
  * @returns A readable stream for the file
  * @throws {AccessDeniedError} if path is invalid
  * @throws {FileNotFoundError} if file doesn't exist
  */
-export async function createReadStream(project: Project, filePath: string): Promise<Readable> {
+export async function createReadStream(root: FileRoot, filePath: string, range?: ByteRange): Promise<Readable> {
     if (!validatePathSecurity(filePath)) {
         throw new AccessDeniedError();
     }
 
-    const key = buildS3Key(project, filePath);
+    const key = buildS3Key(root, filePath);
 
     try {
         const command = new GetObjectCommand({
             Bucket: BUCKET_NAME,
             Key: key,
+            Range: range ? `bytes=${range.start}-${range.end}` : undefined,
         });
 
         const response = await s3Client.send(command);
@@ -223,16 +312,16 @@ export async function createReadStream(project: Project, filePath: string): Prom
 
 /**
  * Check if a file exists in S3 storage
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param filePath - The relative path to the file within the project
  * @returns True if the file exists, false otherwise
  */
-export async function fileExists(project: Project, filePath: string): Promise<boolean> {
+export async function fileExists(root: FileRoot, filePath: string): Promise<boolean> {
     if (!validatePathSecurity(filePath)) {
         return false;
     }
 
-    const key = buildS3Key(project, filePath);
+    const key = buildS3Key(root, filePath);
 
     try {
         const command = new HeadObjectCommand({
@@ -248,18 +337,18 @@ export async function fileExists(project: Project, filePath: string): Promise<bo
 
 /**
  * Get file metadata
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param filePath - The relative path to the file within the project
  * @returns File metadata
  * @throws {AccessDeniedError} if path is invalid
  * @throws {FileNotFoundError} if file doesn't exist
  */
-export async function getFileStats(project: Project, filePath: string) {
+export async function getFileStats(root: FileRoot, filePath: string) {
     if (!validatePathSecurity(filePath)) {
         throw new AccessDeniedError();
     }
 
-    const key = buildS3Key(project, filePath);
+    const key = buildS3Key(root, filePath);
 
     try {
         const command = new HeadObjectCommand({
@@ -272,6 +361,7 @@ export async function getFileStats(project: Project, filePath: string) {
             size: response.ContentLength || 0,
             lastModified: response.LastModified,
             contentType: response.ContentType,
+            etag: response.ETag,
             isFile: () => true,
             isDirectory: () => false,
         };
@@ -285,11 +375,11 @@ export async function getFileStats(project: Project, filePath: string) {
 
 /**
  * List all files in a project's S3 prefix
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @returns Array of relative file paths
  */
-export async function listFiles(project: Project): Promise<string[]> {
-    const prefix = buildS3Key(project);
+export async function listFiles(root: FileRoot): Promise<string[]> {
+    const prefix = buildS3Key(root);
     const files: string[] = [];
 
     let continuationToken: string | undefined;
@@ -323,11 +413,11 @@ export async function listFiles(project: Project): Promise<string[]> {
 
 /**
  * Check if project folder exists (has any objects)
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @returns True if the folder has objects, false otherwise
  */
-export async function projectFolderExists(project: Project): Promise<boolean> {
-    const prefix = buildS3Key(project);
+export async function projectFolderExists(root: FileRoot): Promise<boolean> {
+    const prefix = buildS3Key(root);
 
     try {
         const command = new ListObjectsV2Command({
@@ -345,10 +435,10 @@ export async function projectFolderExists(project: Project): Promise<boolean> {
 
 /**
  * Ensure a directory exists (no-op for S3 since directories are virtual)
- * @param project - The project object
+ * @param root - The project or version to operate on
  * @param dirPath - The relative directory path within the project
  */
-export async function ensureDirectory(project: Project, dirPath: string): Promise<void> {
+export async function ensureDirectory(root: FileRoot, dirPath: string): Promise<void> {
     // In S3, directories are virtual and created automatically when objects are created
     // This is a no-op for compatibility with the filesystem interface
     if (!validatePathSecurity(dirPath)) {
@@ -0,0 +1,35 @@
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from "diff";
+import { FileChange } from "../db/changeSets.js";
+
+export type FileChangeStatus = "added" | "modified" | "deleted";
+
+/**
+ * A file change prepared for review
+ */
+export type FileDiff = {
+    path: string,
+    status: FileChangeStatus,
+    // Unified diff of the content before and after the change
+    diff: string
+}
+
+/**
+ * Create the unified diff of a file change
+ */
+export function diffFileChange(change: FileChange): FileDiff {
+    const status: FileChangeStatus = change.before === null ? "added" : change.after === null ? "deleted" : "modified";
+
+    return {
+        path: change.path,
+        status,
+        diff: createTwoFilesPatch(
+            change.before === null ? "/dev/null" : `a/${change.path}`,
+            change.after === null ? "/dev/null" : `b/${change.path}`,
+            change.before ?? "",
+            change.after ?? "",
+            undefined,
+            undefined,
+            { headerOptions: FILE_HEADERS_ONLY }
+        )
+    };
+}
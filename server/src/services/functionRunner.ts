@@ -0,0 +1,273 @@
+import { Worker } from "worker_threads";
+import { z } from "zod";
+import { Project } from "../db/projects.js";
+import { FunctionTimeoutError, FunctionExecutionError, FunctionBusyError } from "./errors.js";
+
+/**
+ * Sandbox for the serverless functions of a project
+ * Every invocation gets its own worker thread (memory limit, no environment, killable on timeout)
+ * and runs inside a fresh node:vm context that only sees the standard library defined below.
+ * node:vm alone is no security boundary. The worker keeps a breakout away from the server's heap (sessions, tokens,
+ * caches) and from process.env, and its resource limits and termination still apply. It shares the process though:
+ * code escaping the vm can use the filesystem (including .env) and the network (including the database and S3).
+ * Only run functions of authors trusted with that access.
+ */
+
+const FUNCTION_TIMEOUT_MS = parseInt(process.env.FUNCTION_TIMEOUT_MS || "5000");
+const FUNCTION_MEMORY_MB = parseInt(process.env.FUNCTION_MEMORY_MB || "64");
+const FUNCTION_MAX_CONCURRENCY = parseInt(process.env.FUNCTION_MAX_CONCURRENCY || "8");
+
+export interface FunctionRequest {
+    method: string;
+    path: string;
+    query: unknown;
+    headers: Record<string, string | string[] | undefined>;
+    body: unknown;
+}
+
+// Zod schema for the response a function hands back
+const functionResponseSchema = z.object({
+    status: z.number().int().min(100).max(599),
+    headers: z.record(z.string(), z.string()),
+    body: z.string()
+});
+
+export type FunctionResponse = z.infer<typeof functionResponseSchema>;
+
+// Asynchronous operations a function may call on the host (arguments and results are JSON values)
+export type FunctionHostCalls = Record<string, (...args: any[]) => Promise<unknown>>;
+
+// Standard library, evaluated inside the sandbox so user code never touches an object of the worker realm.
+// The host callback only exchanges primitives and is captured in the closure, out of reach of user code.
+const SANDBOX_BOOTSTRAP = `(function (host) {
+    "use strict";
+    const RESPONSE = Symbol("response");
+    const format = (args) => args.map(a => {
+        if (typeof a === "string") return a;
+        try { return JSON.stringify(a); } catch { return String(a); }
+    }).join(" ");
+    const respond = (body, status, headers, contentType) =>
+        ({ [RESPONSE]: true, status, headers: { "content-type": contentType, ...headers }, body });
+
+    globalThis.console = Object.freeze({
+        log: (...args) => host("log", "log", format(args)),
+        info: (...args) => host("log", "info", format(args)),
+        warn: (...args) => host("log", "warn", format(args)),
+        error: (...args) => host("log", "error", format(args))
+    });
+    globalThis.json = (data, status = 200, headers = {}) =>
+        respond(JSON.stringify(data), status, headers, "application/json; charset=utf-8");
+    globalThis.text = (body, status = 200, headers = {}) =>
+        respond(String(body), status, headers, "text/plain; charset=utf-8");
+    globalThis.html = (body, status = 200, headers = {}) =>
+        respond(String(body), status, headers, "text/html; charset=utf-8");
+    globalThis.redirect = (location, status = 302) =>
+        ({ [RESPONSE]: true, status, headers: { location: String(location) }, body: "" });
+    const call = (operation, ...args) => new Promise((resolve, reject) => {
+        host("call", operation, JSON.stringify(args),
+            (result) => resolve(result === undefined ? undefined : JSON.parse(result)),
+            (message) => reject(new Error(message)));
+    });
+
+    globalThis.crypto = Object.freeze({ randomUUID: () => host("uuid") });
+    globalThis.data = Object.freeze({
+        get: (collection, key) => call("data.get", collection, key),
+        set: (collection, key, value) => call("data.set", collection, key, value),
+        delete: (collection, key) => call("data.delete", collection, key),
+        list: (collection, options = {}) => call("data.list", collection, options)
+    });
+    globalThis.module = { exports: {} };
+    globalThis.exports = globalThis.module.exports;
+
+    return async (requestJson) => {
+        const exported = globalThis.module.exports;
+        const handler = typeof exported === "function" ? exported : (exported.default ?? exported.handler);
+        if (typeof handler !== "function") {
+            throw new Error("Function must export a handler, e.g. module.exports = async (request) => json({ ok: true })");
+        }
+        const result = await handler(JSON.parse(requestJson));
+        if (result && result[RESPONSE]) {
+            return JSON.stringify({ status: result.status, headers: result.headers, body: result.body });
+        }
+        if (result === undefined) {
+            return JSON.stringify({ status: 204, headers: {}, body: "" });
+        }
+        if (typeof result === "string") {
+            return JSON.stringify({ status: 200, headers: { "content-type": "text/plain; charset=utf-8" }, body: result });
+        }
+        return JSON.stringify({ status: 200, headers: { "content-type": "application/json; charset=utf-8" }, body: JSON.stringify(result) });
+    };
+})`;
+
+// Worker entry point (CommonJS, evaluated from source so it runs the same under tsx and from dist/)
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+const crypto = require("node:crypto");
+
+// Defense in depth: strip what a breakout of the vm context could use to leave the worker
+for (const key of ["binding", "_linkedBinding", "dlopen", "getBuiltinModule", "kill", "_kill", "reallyExit", "abort", "chdir", "setuid", "setgid", "seteuid", "setegid", "setgroups", "initgroups", "loadEnvFile"]) {
+    process[key] = undefined;
+}
+for (const key of ["fetch", "WebSocket", "EventSource"]) {
+    delete globalThis[key];
+}
+
+const pendingCalls = new Map();
+let nextCallId = 0;
+
+parentPort.on("message", (message) => {
+    const pending = pendingCalls.get(message.id);
+    if (message.type !== "result" || !pending) {
+        return;
+    }
+    pendingCalls.delete(message.id);
+    if (message.error !== undefined) {
+        pending.reject(String(message.error));
+    } else {
+        pending.resolve(message.result);
+    }
+});
+
+function host(operation, ...args) {
+    switch (operation) {
+        case "call": {
+            const id = nextCallId++;
+            pendingCalls.set(id, { resolve: args[2], reject: args[3] });
+            parentPort.postMessage({ type: "call", id, operation: String(args[0]), args: String(args[1]) });
+            return undefined;
+        }
+        case "log":
+            parentPort.postMessage({ type: "log", level: String(args[0]), message: String(args[1]) });
+            return undefined;
+        case "uuid":
+            return crypto.randomUUID();
+        default:
+            // Never throw here, an error object of this realm would leak into the sandbox
+            return undefined;
+    }
+}
+
+(async () => {
+    const { bootstrap, code, filename, request, timeout } = workerData;
+    // A null prototype keeps this.constructor from resolving to the Object of this realm
+    const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+    const invoke = vm.runInContext(bootstrap, context)(host);
+    new vm.Script(code, { filename }).runInContext(context, { timeout });
+    const response = await invoke(request);
+    parentPort.postMessage({ type: "done", response });
+})().catch((error) => {
+    parentPort.postMessage({ type: "error", message: (error && error.message) || String(error) });
+});
+`;
+
+let runningFunctions = 0;
+
+/**
+ * Run a serverless function of a project in a fresh sandbox
+ * @param project - The project the function belongs to
+ * @param filePath - The path of the function file within the project (used in stack traces and logs)
+ * @param code - The source code of the function
+ * @param request - The request handed to the function's handler
+ * @param hostCalls - The host operations the function may call
+ * @returns The response produced by the function
+ * @throws {FunctionBusyError} if the concurrency limit is reached
+ * @throws {FunctionTimeoutError} if the function doesn't respond in time
+ * @throws {FunctionExecutionError} if the function fails
+ */
+export async function runFunction(project: Project, filePath: string, code: string, request: FunctionRequest, hostCalls: FunctionHostCalls = {}): Promise<FunctionResponse> {
+    if (runningFunctions >= FUNCTION_MAX_CONCURRENCY) {
+        throw new FunctionBusyError();
+    }
+    runningFunctions++;
+
+    const label = `[${project.folder}/${filePath}]`;
+
+    return new Promise<FunctionResponse>((resolve, reject) => {
+        const worker = new Worker(WORKER_SOURCE, {
+            eval: true,
+            env: {},
+            execArgv: [],
+            workerData: {
+                bootstrap: SANDBOX_BOOTSTRAP,
+                code,
+                filename: filePath,
+                request: JSON.stringify(request),
+                timeout: FUNCTION_TIMEOUT_MS
+            },
+            resourceLimits: {
+                maxOldGenerationSizeMb: FUNCTION_MEMORY_MB,
+                maxYoungGenerationSizeMb: Math.max(1, Math.floor(FUNCTION_MEMORY_MB / 4))
+            }
+        });
+
+        let settled = false;
+        const settle = (action: () => void) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            runningFunctions--;
+            worker.terminate();
+            action();
+        };
+
+        // Covers async work as well, the vm timeout only applies to the synchronous part
+        const timer = setTimeout(() => {
+            settle(() => reject(new FunctionTimeoutError(`Function timed out after ${FUNCTION_TIMEOUT_MS}ms`)));
+        }, FUNCTION_TIMEOUT_MS);
+
+        worker.on("message", (message: any) => {
+            if (message.type === "log") {
+                const log = message.level === "error" ? console.error : message.level === "warn" ? console.warn : console.log;
+                log(label, message.message);
+            } else if (message.type === "done") {
+                let parsed;
+                try {
+                    parsed = functionResponseSchema.safeParse(JSON.parse(message.response));
+                } catch {
+                    parsed = undefined;
+                }
+                if (parsed?.success) {
+                    settle(() => resolve(parsed.data));
+                } else {
+                    settle(() => reject(new FunctionExecutionError("Function returned an invalid response")));
+                }
+            } else if (message.type === "error") {
+                settle(() => reject(new FunctionExecutionError(message.message)));
+            } else if (message.type === "call") {
+                const operation = Object.hasOwn(hostCalls, message.operation) ? hostCalls[message.operation] : undefined;
+                Promise.resolve()
+                    .then(() => {
+                        if (!operation) {
+                            throw new Error(`Unknown operation: ${message.operation}`);
+                        }
+                        return operation(...JSON.parse(message.args));
+                    })
+                    .then(
+                        (result) => !settled && worker.postMessage({
+                            type: "result",
+                            id: message.id,
+                            result: result === undefined ? undefined : JSON.stringify(result)
+                        }),
+                        (error) => !settled && worker.postMessage({
+                            type: "result",
+                            id: message.id,
+                            error: error instanceof Error ? error.message : String(error)
+                        })
+                    );
+            }
+        });
+
+        worker.on("error", (error: any) => {
+            settle(() => reject(new FunctionExecutionError(
+                error.code === "ERR_WORKER_OUT_OF_MEMORY" ? "Function ran out of memory" : error.message
+            )));
+        });
+
+        worker.on("exit", () => {
+            settle(() => reject(new FunctionExecutionError("Function exited without a response")));
+        });
+    });
+}
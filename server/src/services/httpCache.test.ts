@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { cacheControlFor, isHashedAsset, IMMUTABLE } from "./httpCache.js";
+
+describe("isHashedAsset", () => {
+    it("recognizes hashes of common bundlers", () => {
+        expect(isHashedAsset("assets/app.3f9a2b1c.js")).toBe(true);
+        expect(isHashedAsset("main-3f9a2b1c8d.css")).toBe(true);
+        expect(isHashedAsset("assets/index-BxR3k9aZ.js")).toBe(true);
+    });
+
+    it("leaves names without a hash alone", () => {
+        expect(isHashedAsset("index.html")).toBe(false);
+        expect(isHashedAsset("deadbeef12.js")).toBe(false);
+        expect(isHashedAsset("my-component.js")).toBe(false);
+        expect(isHashedAsset("jquery.min.js")).toBe(false);
+        expect(isHashedAsset("facade-abcdefab.js")).toBe(false);
+    });
+});
+
+describe("cacheControlFor", () => {
+    const options = {
+        rules: [
+            { path: "images/**", cacheControl: "public, max-age=86400" },
+            { path: "**/*.html", cacheControl: "no-cache" }
+        ],
+        immutableHashedAssets: true
+    };
+
+    it("applies the first matching rule", () => {
+        expect(cacheControlFor("images/logo.png", options)).toBe("public, max-age=86400");
+        expect(cacheControlFor("images/page.html", options)).toBe("public, max-age=86400");
+        expect(cacheControlFor("blog/post.html", options)).toBe("no-cache");
+    });
+
+    it("matches hidden files", () => {
+        expect(cacheControlFor("images/.well-known/logo.png", options)).toBe("public, max-age=86400");
+    });
+
+    it("caches hashed assets without a rule for a year", () => {
+        expect(cacheControlFor("assets/app.3f9a2b1c.js", options)).toBe(IMMUTABLE);
+        expect(cacheControlFor("assets/app.js", options)).toBeUndefined();
+    });
+
+    it("can leave hashed assets to the browser", () => {
+        expect(cacheControlFor("assets/app.3f9a2b1c.js", { ...options, immutableHashedAssets: false })).toBeUndefined();
+    });
+});
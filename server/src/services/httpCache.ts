@@ -0,0 +1,47 @@
+import picomatch from "picomatch";
+import { SiteConfig } from "./siteConfig.js";
+
+/**
+ * Cache-Control of the files a project serves, configured in the "cache" section of _config.json
+ * Validation uses ETag and Last-Modified, see fileLoader
+ */
+
+export type CacheOptions = SiteConfig["cache"];
+
+export const IMMUTABLE = "public, max-age=31536000, immutable";
+
+// Preview hosts show the working copy, which changes any time
+export const PREVIEW = "no-cache";
+
+// app.3f9a2b1c.js or main-3f9a2b1c8d.css (hex), index-BxR3k9aZ.js (mixed case with digits)
+const HEX_HASH = /^(?=[a-z]*\d)[0-9a-f]{8,}$/;
+const MIXED_HASH = /^(?=.*\d)(?=.*[a-z])(?=.*[A-Z])[A-Za-z0-9_]{8,}$/;
+
+/**
+ * Whether a file name carries a hash of its content, so it changes with every change of the file
+ */
+export function isHashedAsset(filePath: string): boolean {
+    const name = filePath.split("/").pop() ?? "";
+    const parts = name.split(".");
+    if (parts.length < 2) {
+        return false;
+    }
+
+    // The segment before the extension, after the last "." or "-"
+    const base = parts.slice(0, -1).join(".");
+    const hash = base.slice(Math.max(base.lastIndexOf("."), base.lastIndexOf("-")) + 1);
+    return hash !== base && (HEX_HASH.test(hash) || MIXED_HASH.test(hash));
+}
+
+/**
+ * Find the Cache-Control of a file
+ * @param filePath - The path of the file within the project
+ * @returns The Cache-Control header, undefined to leave the caching to the browser
+ */
+export function cacheControlFor(filePath: string, options: CacheOptions): string | undefined {
+    const rule = options.rules.find(rule => picomatch.isMatch(filePath, rule.path, { dot: true }));
+    if (rule) {
+        return rule.cacheControl;
+    }
+    return options.immutableHashedAssets && isHashedAsset(filePath) ? IMMUTABLE : undefined;
+}
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LruCache } from "./lruCache.js";
+
+describe("LruCache", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("drops the least recently used entry when full", () => {
+        const cache = new LruCache<string, number>(2, 60000);
+        cache.set("a", 1);
+        cache.set("b", 2);
+        expect(cache.get("a")).toBe(1);
+        cache.set("c", 3);
+
+        expect(cache.get("b")).toBeUndefined();
+        expect(cache.get("a")).toBe(1);
+        expect(cache.get("c")).toBe(3);
+        expect(cache.stats()).toEqual({ size: 2, maxEntries: 2, hits: 3, misses: 1, evictions: 1 });
+    });
+
+    it("replaces the value of a key without evicting", () => {
+        const cache = new LruCache<string, number>(2, 60000);
+        cache.set("a", 1);
+        cache.set("b", 2);
+        cache.set("a", 3);
+
+        expect(cache.get("a")).toBe(3);
+        expect(cache.get("b")).toBe(2);
+        expect(cache.stats().evictions).toBe(0);
+    });
+
+    it("expires entries after their time to live", () => {
+        vi.useFakeTimers();
+        const cache = new LruCache<string, number>(2, 1000);
+        cache.set("a", 1);
+
+        vi.advanceTimersByTime(999);
+        expect(cache.get("a")).toBe(1);
+        vi.advanceTimersByTime(1);
+        expect(cache.get("a")).toBeUndefined();
+        expect(cache.stats().size).toBe(0);
+    });
+
+    it("caches nothing with a size of 0", () => {
+        const cache = new LruCache<string, number>(0, 60000);
+        cache.set("a", 1);
+
+        expect(cache.get("a")).toBeUndefined();
+        expect(cache.stats().size).toBe(0);
+    });
+
+    it("keeps cached null values apart from missing ones", () => {
+        const cache = new LruCache<string, number | null>(2, 60000);
+        cache.set("a", null);
+
+        expect(cache.get("a")).toBeNull();
+        expect(cache.get("b")).toBeUndefined();
+    });
+
+    it("drops the matching entries", () => {
+        const cache = new LruCache<string, number>(3, 60000);
+        cache.set("p1/a", 1);
+        cache.set("p1/b", 2);
+        cache.set("p2/a", 3);
+        cache.deleteWhere(key => key.startsWith("p1/"));
+
+        expect(cache.get("p1/a")).toBeUndefined();
+        expect(cache.get("p1/b")).toBeUndefined();
+        expect(cache.get("p2/a")).toBe(3);
+
+        cache.clear();
+        expect(cache.stats().size).toBe(0);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Counters of a cache, to tell whether it is large enough
+ */
+export type CacheStats = {
+    size: number,
+    maxEntries: number,
+    hits: number,
+    misses: number,
+    evictions: number
+};
+
+type Entry<V> = {
+    value: V,
+    expires: number
+};
+
+/**
+ * A bounded cache dropping the least recently used entry when it is full
+ * Entries also expire after a while, so changes made by other processes show up eventually
+ */
+export class LruCache<K, V> {
+    // A Map keeps the order entries were set in, a read moves the entry to the end
+    private readonly entries = new Map<K, Entry<V>>();
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    /**
+     * @param maxEntries - The number of entries kept, 0 disables the cache
+     * @param ttlMs - How long an entry is used before reading it again
+     */
+    constructor(readonly maxEntries: number, readonly ttlMs: number) {}
+
+    /**
+     * Get a cached value
+     * @returns The value, undefined if it is not cached or expired
+     */
+    get(key: K): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry || entry.expires <= Date.now()) {
+            if (entry) {
+                this.entries.delete(key);
+            }
+            this.misses++;
+            return undefined;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return entry.value;
+    }
+
+    /**
+     * Cache a value, dropping the least recently used one if the cache is full
+     */
+    set(key: K, value: V): void {
+        if (this.maxEntries <= 0) {
+            return;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, { value, expires: Date.now() + this.ttlMs });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+            this.evictions++;
+        }
+    }
+
+    /**
+     * Drop the entries whose key matches, after the data they were read from changed
+     */
+    deleteWhere(matches: (key: K) => boolean): void {
+        for (const key of this.entries.keys()) {
+            if (matches(key)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Drop all entries
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    stats(): CacheStats {
+        return {
+            size: this.entries.size,
+            maxEntries: this.maxEntries,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions
+        };
+    }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { renderMarkdown } from "./markdown.js";
+
+describe("renderMarkdown", () => {
+    it("renders GitHub-flavored Markdown", () => {
+        expect(renderMarkdown("# Title\n\nSome *text*")).toBe("<h1>Title</h1>\n<p>Some <em>text</em></p>\n");
+        expect(renderMarkdown("| a |\n| - |\n| 1 |")).toContain("<table>");
+        expect(renderMarkdown("~~gone~~")).toBe("<p><del>gone</del></p>\n");
+    });
+
+    it("keeps inline HTML and escapes code", () => {
+        expect(renderMarkdown("<div class=\"box\">Hi</div>")).toBe("<div class=\"box\">Hi</div>");
+        expect(renderMarkdown("`<b>`")).toBe("<p><code>&lt;b&gt;</code></p>\n");
+    });
+
+    it("highlights code blocks", () => {
+        const html = renderMarkdown("```js\nconst a = \"<b>\";\n```");
+        expect(html).toContain('<code class="hljs language-js">');
+        expect(html).toContain('<span class="hljs-keyword">const</span>');
+        expect(html).toContain("&lt;b&gt;");
+        expect(html).not.toContain("<b>");
+    });
+
+    it("escapes code blocks of unknown or no language", () => {
+        expect(renderMarkdown("```nope\n<b>\n```")).toBe('<pre><code class="hljs language-nope">&lt;b&gt;\n</code></pre>');
+        expect(renderMarkdown("```\n<b>\n```")).toBe('<pre><code class="hljs">&lt;b&gt;\n</code></pre>');
+    });
+});
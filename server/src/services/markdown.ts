@@ -0,0 +1,26 @@
+import { Marked } from "marked";
+import { markedHighlight } from "marked-highlight";
+import hljs from "highlight.js";
+
+/**
+ * GitHub-flavored Markdown, code blocks are highlighted with highlight.js classes (hljs-*)
+ * The layout includes a highlight.js theme to color them
+ */
+const marked = new Marked(
+    { gfm: true },
+    markedHighlight({
+        emptyLangClass: "hljs",
+        langPrefix: "hljs language-",
+        highlight(code, lang) {
+            const language = hljs.getLanguage(lang) ? lang : "plaintext";
+            return hljs.highlight(code, { language }).value;
+        }
+    })
+);
+
+/**
+ * Render Markdown to HTML
+ */
+export function renderMarkdown(source: string): string {
+    return marked.parse(source, { async: false });
+}
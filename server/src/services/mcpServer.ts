@@ -0,0 +1,209 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as projectService from "../db/projectService.js";
+import * as versionService from "../db/versionService.js";
+import * as userService from "../db/userService.js";
+import * as activityService from "../db/activityService.js";
+import * as fileAccessService from "./fileAccessService.js";
+import { Project } from "../db/projects.js";
+import { ProjectRole } from "../db/users.js";
+import { TokenScope, TOKEN_SCOPES } from "../db/apiTokens.js";
+import { Principal, hasProjectAccess, actorOf } from "../middleware/auth.js";
+import { checkFunctionPath } from "../middleware/functionHandler.js";
+
+/**
+ * Model Context Protocol server exposing project and file management to external agents
+ * Every tool call is authorized for the caller exactly like the matching REST endpoint
+ */
+
+/**
+ * Wrap a tool result as MCP text content
+ */
+function text(value: unknown) {
+    return {
+        content: [{ type: "text" as const, text: typeof value === "string" ? value : JSON.stringify(value, null, 2) }]
+    };
+}
+
+/**
+ * Create an MCP server acting on behalf of a caller
+ * @param getPrincipal - Identify the caller, on every tool call so a revoked or expired token stops working right away
+ */
+export function createMcpServer(getPrincipal: () => Promise<Principal>): McpServer {
+    const server = new McpServer({
+        name: "snapdash",
+        version: "1.0.0"
+    });
+
+    // Load a project the caller may access, tool errors are reported to the agent as error results
+    const loadProject = async (
+        principal: Principal,
+        projectId: number,
+        role: ProjectRole,
+        scope?: TokenScope | TokenScope[]
+    ): Promise<Project> => {
+        if (!(await hasProjectAccess(principal, projectId, role, scope))) {
+            throw new Error(`Access to project ${projectId} denied`);
+        }
+
+        const project = await projectService.findProjectById(projectId);
+        if (!project) {
+            throw new Error(`Project ${projectId} not found`);
+        }
+        return project;
+    };
+
+    server.registerTool("list_projects", {
+        description: "List all projects you have access to, with their IDs, hosts and published version.",
+        inputSchema: {}
+    }, async () => {
+        const principal = await getPrincipal();
+        let projects = await projectService.getAllProjects();
+
+        if (principal.token) {
+            projects = projects.filter(p => p.id === principal.token.projectId);
+        } else if (!principal.user.isAdmin) {
+            const projectIds = new Set((await userService.getMemberships(principal.user.id)).map(m => m.projectId));
+            projects = projects.filter(p => p.id !== undefined && projectIds.has(p.id));
+        }
+
+        return text(projects);
+    });
+
+    server.registerTool("create_project", {
+        description: "Create a new project. You become its owner. Hosts must not be used by another project.",
+        inputSchema: {
+            name: z.string().min(1).describe("Display name, also used to derive the project folder"),
+            color: z.string().regex(/^#[0-9a-fA-F]{6,8}$/).default("#07b379ff").describe("Theme color as hex, e.g. #07b379ff"),
+            hosts: z.array(z.string().min(1)).min(1).describe("Host names the project is served on")
+        }
+    }, async ({ name, color, hosts }) => {
+        const principal = await getPrincipal();
+        if (!principal.user) {
+            throw new Error("API tokens can't create projects");
+        }
+
+        const taken = [];
+        for (const host of hosts) {
+            if (await projectService.hostExists(host)) {
+                taken.push(host);
+            }
+        }
+        if (taken.length > 0) {
+            throw new Error(`The following hosts are already registered: ${taken.join(", ")}`);
+        }
+
+        return text(await projectService.createProject(name, color, hosts, undefined, actorOf(principal)));
+    });
+
+    server.registerTool("get_project", {
+        description: "Get a project by ID.",
+        inputSchema: {
+            projectId: z.number().int().positive()
+        }
+    }, async ({ projectId }) => {
+        const principal = await getPrincipal();
+        return text(await loadProject(principal, projectId, "viewer", TOKEN_SCOPES));
+    });
+
+    server.registerTool("list_files", {
+        description: "List all files of a project's working copy.",
+        inputSchema: {
+            projectId: z.number().int().positive()
+        }
+    }, async ({ projectId }) => {
+        const principal = await getPrincipal();
+        const project = await loadProject(principal, projectId, "viewer", "files:read");
+        return text((await fileAccessService.listFiles(project)).sort().join("\n"));
+    });
+
+    server.registerTool("read_file", {
+        description: "Read a text file of a project's working copy.",
+        inputSchema: {
+            projectId: z.number().int().positive(),
+            path: z.string().min(1).describe("Path relative to the project root, e.g. index.html")
+        }
+    }, async ({ projectId, path }) => {
+        const principal = await getPrincipal();
+        const project = await loadProject(principal, projectId, "viewer", "files:read");
+        return text(await fileAccessService.readFile(project, path));
+    });
+
+    server.registerTool("write_file", {
+        description: "Create or overwrite a text file in a project's working copy.",
+        inputSchema: {
+            projectId: z.number().int().positive(),
+            path: z.string().min(1).describe("Path relative to the project root, e.g. index.html"),
+            content: z.string()
+        }
+    }, async ({ projectId, path, content }) => {
+        const principal = await getPrincipal();
+        const project = await loadProject(principal, projectId, "editor", "files:write");
+        checkFunctionPath(path);
+        await fileAccessService.writeFile(project, path, content);
+        await activityService.recordActivity(actorOf(principal), "file.write", projectId, { path, size: Buffer.byteLength(content), via: "mcp" });
+        return text(`Wrote ${path}`);
+    });
+
+    server.registerTool("delete_file", {
+        description: "Delete a file from a project's working copy.",
+        inputSchema: {
+            projectId: z.number().int().positive(),
+            path: z.string().min(1)
+        }
+    }, async ({ projectId, path }) => {
+        const principal = await getPrincipal();
+        const project = await loadProject(principal, projectId, "editor", "files:write");
+        await fileAccessService.deleteFile(project, path);
+        await activityService.recordActivity(actorOf(principal), "file.delete", projectId, { path, via: "mcp" });
+        return text(`Deleted ${path}`);
+    });
+
+    server.registerTool("list_versions", {
+        description: "List the versions of a project, newest first, and which one is published.",
+        inputSchema: {
+            projectId: z.number().int().positive()
+        }
+    }, async ({ projectId }) => {
+        const principal = await getPrincipal();
+        const project = await loadProject(principal, projectId, "viewer", "files:read");
+        return text({
+            publishedVersionId: project.publishedVersionId ?? null,
+            versions: await versionService.getVersions(projectId)
+        });
+    });
+
+    server.registerTool("create_version", {
+        description: "Freeze the current working copy of a project into a new immutable version.",
+        inputSchema: {
+            projectId: z.number().int().positive(),
+            description: z.string().max(500).optional()
+        }
+    }, async ({ projectId, description }) => {
+        const principal = await getPrincipal();
+        const project = await loadProject(principal, projectId, "editor", "publish");
+        const version = await versionService.createVersion(project, description);
+        await activityService.recordActivity(actorOf(principal), "version.create", projectId, { versionId: version.id, number: version.number, via: "mcp" });
+        return text(version);
+    });
+
+    server.registerTool("publish", {
+        description: "Serve a version on the project's hosts. Pass versionId null to unpublish and serve the working copy.",
+        inputSchema: {
+            projectId: z.number().int().positive(),
+            versionId: z.number().int().positive().nullable()
+        }
+    }, async ({ projectId, versionId }) => {
+        const principal = await getPrincipal();
+        await loadProject(principal, projectId, "editor", "publish");
+
+        if (!(await versionService.publishVersion(projectId, versionId))) {
+            throw new Error(`Version ${versionId} not found`);
+        }
+
+        await activityService.recordActivity(actorOf(principal), "version.publish", projectId, { versionId, via: "mcp" });
+        return text(versionId === null ? "Project unpublished" : `Published version ${versionId}`);
+    });
+
+    return server;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { matchRule, parseRedirects } from "./routeRules.js";
+import { SiteConfigError } from "./errors.js";
+
+const rules = parseRedirects(`
+# Comments and empty lines are skipped
+/old/*          /new/:splat
+/blog/:year/:slug  /posts/:slug?year=:year  302
+/docs/*         /documentation/index.html  200!
+/shop/*         https://shop.example.com/:splat  301
+/go/*           /:splat
+`);
+
+describe("matchRule", () => {
+    it("substitutes placeholders and the splat", () => {
+        expect(matchRule(rules, "/old/a/b.html", false)?.target).toBe("/new/a/b.html");
+        expect(matchRule(rules, "/blog/2024/hello", false)?.target).toBe("/posts/hello?year=2024");
+        expect(matchRule(rules, "/shop/cart", false)?.target).toBe("https://shop.example.com/cart");
+    });
+
+    it("ignores a trailing slash", () => {
+        expect(matchRule(rules, "/blog/2024/hello/", false)?.target).toBe("/posts/hello?year=2024");
+    });
+
+    it("requires every segment of the pattern", () => {
+        expect(matchRule(rules, "/blog/2024", false)).toBeUndefined();
+        expect(matchRule(rules, "/blog/2024/hello/more", false)).toBeUndefined();
+        expect(matchRule(rules, "/older/a", false)).toBeUndefined();
+    });
+
+    it("only returns the rules of the requested kind", () => {
+        expect(matchRule(rules, "/docs/api", false)).toBeUndefined();
+        expect(matchRule(rules, "/docs/api", true)?.rule.status).toBe(200);
+        expect(matchRule(rules, "/old/a", true)).toBeUndefined();
+    });
+
+    it("keeps substituted targets on the same host", () => {
+        expect(matchRule(rules, "/go/home", false)?.target).toBe("/home");
+        expect(matchRule(rules, "/go//evil.com", false)?.target).toBe("/evil.com");
+        expect(matchRule(rules, "/go/\\evil.com", false)?.target).toBe("/evil.com");
+    });
+});
+
+describe("parseRedirects", () => {
+    it("rejects invalid rules", () => {
+        expect(() => parseRedirects("/a")).toThrow(SiteConfigError);
+        expect(() => parseRedirects("/a/*/b /b")).toThrow("may only end with /*");
+        expect(() => parseRedirects("/a https://example.com 200")).toThrow("can only be redirected to");
+    });
+});
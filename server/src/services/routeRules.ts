@@ -0,0 +1,226 @@
+import { z } from "zod";
+import * as fileAccessService from "./fileAccessService.js";
+import { FileNotFoundError, SiteConfigError } from "./errors.js";
+import { ruleCache, rootKey } from "./cacheService.js";
+
+/**
+ * Redirect and rewrite rules of a project, from _redirects (one "from to [status][!]" rule per line)
+ * and _routes.json ({ "routes": [{ "from", "to", "status", "force" }] }), applied in that order.
+ * Patterns can hold :placeholders for a single path segment and end with * for the rest of the path,
+ * which the target refers to as :splat. Rules only apply when no file matches the request, unless forced.
+ */
+
+export const REDIRECTS_FILE = "_redirects";
+export const ROUTES_FILE = "_routes.json";
+
+// 3xx redirect, 200 serves the target in place of the request (rewrite), 404 serves it as not found
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const RULE_STATUSES = [200, 404, ...REDIRECT_STATUSES];
+
+const PLACEHOLDER = /^:[A-Za-z_]\w*$/;
+const EXTERNAL_URL = /^https?:\/\//;
+
+export type RouteRule = {
+    from: string,
+    to: string,
+    status: number,
+    // Apply the rule even if a file matches the request
+    force: boolean,
+    // Where the rule was defined, for error messages
+    source: string
+}
+
+export type RuleMatch = {
+    rule: RouteRule,
+    // The target with its placeholders replaced
+    target: string
+}
+
+const routesSchema = z.object({
+    routes: z.array(z.object({
+        from: z.string(),
+        to: z.string(),
+        status: z.number().int().default(301),
+        force: z.boolean().default(false)
+    }))
+});
+
+/**
+ * Check a rule, so mistakes are reported instead of silently never matching
+ * @throws {SiteConfigError} if the rule is invalid
+ */
+function validateRule(rule: RouteRule): RouteRule {
+    const fail = (message: string) => {
+        throw new SiteConfigError(`${rule.source}: ${message}`);
+    };
+
+    if (!rule.from.startsWith("/")) {
+        fail(`"${rule.from}" must start with /`);
+    }
+    const segments = rule.from.split("/").slice(1);
+    if (segments.some((segment, index) => segment.includes("*") && (segment !== "*" || index !== segments.length - 1))) {
+        fail(`"${rule.from}" may only end with /*`);
+    }
+    if (segments.some(segment => segment.startsWith(":") && !PLACEHOLDER.test(segment))) {
+        fail(`"${rule.from}" has an invalid placeholder`);
+    }
+    if (!rule.to.startsWith("/") && !EXTERNAL_URL.test(rule.to)) {
+        fail(`"${rule.to}" must start with / or be an http(s) URL`);
+    }
+    if (!RULE_STATUSES.includes(rule.status)) {
+        fail(`Status ${rule.status} is not supported, use one of ${RULE_STATUSES.join(", ")}`);
+    }
+    if (EXTERNAL_URL.test(rule.to) && !REDIRECT_STATUSES.includes(rule.status)) {
+        fail(`"${rule.to}" can only be redirected to`);
+    }
+    return rule;
+}
+
+/**
+ * Parse the rules of a _redirects file, lines starting with # are comments
+ * @throws {SiteConfigError} if a rule is invalid
+ */
+export function parseRedirects(content: string): RouteRule[] {
+    const rules: RouteRule[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+        const tokens = line.trim().split(/\s+/);
+        if (tokens[0] === "" || tokens[0].startsWith("#")) {
+            return;
+        }
+
+        const source = `${REDIRECTS_FILE} line ${index + 1}`;
+        const status = /^(\d{3})(!?)$/.exec(tokens[2] ?? "301");
+        if (tokens.length < 2 || tokens.length > 3 || !status) {
+            throw new SiteConfigError(`${source}: Expected "from to [status][!]"`);
+        }
+
+        rules.push(validateRule({ from: tokens[0], to: tokens[1], status: Number(status[1]), force: status[2] === "!", source }));
+    });
+
+    return rules;
+}
+
+/**
+ * Parse the rules of a _routes.json file
+ * @throws {SiteConfigError} if the file or a rule is invalid
+ */
+export function parseRoutes(content: string): RouteRule[] {
+    let json: unknown;
+    try {
+        json = JSON.parse(content);
+    } catch (error: any) {
+        throw new SiteConfigError(`Invalid ${ROUTES_FILE}: ${error.message}`);
+    }
+
+    const result = routesSchema.safeParse(json);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+        throw new SiteConfigError(`Invalid ${ROUTES_FILE}: ${issues.join(", ")}`);
+    }
+
+    return result.data.routes.map((route, index) => validateRule({ ...route, source: `${ROUTES_FILE} route ${index + 1}` }));
+}
+
+/**
+ * Read a file of the project, undefined if it doesn't exist
+ */
+async function readOptionalFile(root: fileAccessService.FileRoot, filePath: string): Promise<string | undefined> {
+    try {
+        return await fileAccessService.readFile(root, filePath);
+    } catch (error) {
+        if (error instanceof FileNotFoundError) {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Read the rules of a project or version, in the order they apply
+ * @throws {SiteConfigError} if a rule is invalid
+ */
+export async function getRouteRules(root: fileAccessService.FileRoot): Promise<RouteRule[]> {
+    const key = rootKey(root);
+    const cached = ruleCache.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const [redirects, routes] = await Promise.all([
+        readOptionalFile(root, REDIRECTS_FILE),
+        readOptionalFile(root, ROUTES_FILE)
+    ]);
+
+    const rules = [
+        ...(redirects !== undefined ? parseRedirects(redirects) : []),
+        ...(routes !== undefined ? parseRoutes(routes) : [])
+    ];
+    ruleCache.set(key, rules);
+    return rules;
+}
+
+/**
+ * Drop the trailing slash of a path, so /blog and /blog/ match the same rules
+ */
+function trimSlash(urlPath: string): string {
+    return urlPath.length > 1 && urlPath.endsWith("/") ? urlPath.slice(0, -1) : urlPath;
+}
+
+/**
+ * Match a request path against a rule pattern
+ * @returns The values of the placeholders, with the rest of the path as "splat", undefined if it doesn't match
+ */
+function matchPattern(pattern: string, urlPath: string): Record<string, string> | undefined {
+    const patternSegments = trimSlash(pattern).split("/").slice(1);
+    const pathSegments = trimSlash(urlPath).split("/").slice(1);
+    const values: Record<string, string> = {};
+
+    for (let i = 0; i < patternSegments.length; i++) {
+        const segment = patternSegments[i];
+        if (segment === "*") {
+            values.splat = pathSegments.slice(i).join("/");
+            return values;
+        }
+        if (i >= pathSegments.length) {
+            return undefined;
+        }
+        if (segment.startsWith(":")) {
+            values[segment.slice(1)] = pathSegments[i];
+        } else if (segment !== pathSegments[i]) {
+            return undefined;
+        }
+    }
+
+    return patternSegments.length === pathSegments.length ? values : undefined;
+}
+
+/**
+ * Find the first rule matching a request path
+ * @param force - Whether to look at the forced rules or the others
+ */
+export function matchRule(rules: RouteRule[], urlPath: string, force: boolean): RuleMatch | undefined {
+    for (const rule of rules) {
+        if (rule.force !== force) {
+            continue;
+        }
+
+        const values = matchPattern(rule.from, urlPath);
+        if (values) {
+            let target = rule.to.replace(/:([A-Za-z_]\w*)/g, (placeholder, name) => values[name] ?? placeholder);
+            // Values from the request must not turn a path into //host or /\host, browsers follow those to another host
+            if (/^\/(?![/\\])/.test(rule.to)) {
+                target = target.replace(/^[/\\]+/, "/");
+            }
+            return { rule, target };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Whether a rule redirects instead of serving its target
+ */
+export function isRedirect(rule: RouteRule): boolean {
+    return REDIRECT_STATUSES.includes(rule.status);
+}
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import * as fileAccessService from "./fileAccessService.js";
+import { FileNotFoundError, SiteConfigError } from "./errors.js";
+import { configCache, rootKey } from "./cacheService.js";
+
+// Configuration of how a project's files are served, published together with them
+export const SITE_CONFIG_FILE = "_config.json";
+
+/**
+ * Settings of a project's site, all optional
+ */
+const siteConfigSchema = z.object({
+    markdown: z.object({
+        // Serve the source of Markdown pages at their .md URL, besides the rendered page
+        allowSource: z.boolean().default(false)
+    }).prefault({}),
+    templates: z.object({
+        // Serve the layouts, partials, site data and this configuration as they are
+        allowSource: z.boolean().default(false)
+    }).prefault({}),
+    urls: z.object({
+        // Find team.html and team.md for /team
+        extensionless: z.boolean().default(true),
+        // Pages served for a directory, in order of preference
+        directoryIndex: z.array(z.string().regex(/^[\w.-]+\.(html|md)$/, "Must be an .html or .md file name"))
+            .min(1).default(["index.html", "index.md"]),
+        // "always" redirects /blog to /blog/, "never" /blog/ to /blog, "ignore" serves both
+        trailingSlash: z.enum(["always", "never", "ignore"]).default("always"),
+        // Redirect /team.html to /team and /blog/index.html to /blog/, requires extensionless URLs
+        canonical: z.boolean().default(false)
+    }).prefault({}),
+    cache: z.object({
+        // Cache-Control of the files matching a glob pattern, the first matching rule applies
+        rules: z.array(z.object({
+            path: z.string().min(1),
+            cacheControl: z.string().min(1)
+        })).default([]),
+        // Cache files with a content hash in their name (app.3f9a2b1c.js) for a year, they never change
+        immutableHashedAssets: z.boolean().default(true)
+    }).prefault({}),
+    compression: z.object({
+        // Compress text files for clients that accept gzip or Brotli
+        enabled: z.boolean().default(true),
+        // Store compressed variants of text files when creating a version, so responses don't compress them again
+        precompress: z.boolean().default(false)
+    }).prefault({})
+});
+
+export type SiteConfig = z.infer<typeof siteConfigSchema>;
+
+/**
+ * Read the site configuration of a project or version, the defaults if it has none
+ * @throws {SiteConfigError} if the configuration is not valid
+ */
+export async function getSiteConfig(root: fileAccessService.FileRoot): Promise<SiteConfig> {
+    const key = rootKey(root);
+    const cached = configCache.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const config = await readSiteConfig(root);
+    configCache.set(key, config);
+    return config;
+}
+
+/**
+ * Read the site configuration from storage, see getSiteConfig()
+ */
+async function readSiteConfig(root: fileAccessService.FileRoot): Promise<SiteConfig> {
+    let content: string;
+    try {
+        content = await fileAccessService.readFile(root, SITE_CONFIG_FILE);
+    } catch (error) {
+        if (!(error instanceof FileNotFoundError)) {
+            throw error;
+        }
+        content = "{}";
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(content);
+    } catch (error: any) {
+        throw new SiteConfigError(`Invalid ${SITE_CONFIG_FILE}: ${error.message}`);
+    }
+
+    const result = siteConfigSchema.safeParse(json);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+        throw new SiteConfigError(`Invalid ${SITE_CONFIG_FILE}: ${issues.join(", ")}`);
+    }
+    return result.data;
+}
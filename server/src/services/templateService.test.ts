@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { renderPage, parseFrontMatter } from "./templateService.js";
+import { clearCaches } from "./cacheService.js";
+import { TemplateError } from "./errors.js";
+import { Project } from "../db/projects.js";
+
+// Files of the project by path
+const files = vi.hoisted(() => new Map<string, string>());
+
+vi.mock("./fileAccessService.js", async importOriginal => {
+    const { FileNotFoundError } = await import("./errors.js");
+    return {
+        ...await importOriginal<typeof import("./fileAccessService.js")>(),
+        readFile: async (root: unknown, filePath: string) => {
+            const content = files.get(filePath);
+            if (content === undefined) {
+                throw new FileNotFoundError();
+            }
+            return content;
+        }
+    };
+});
+
+const project: Project = { id: 1, hosts: ["demo.test"], previewHosts: [], name: "Demo", color: "#ff0000", folder: "demo" };
+
+const render = (filePath: string, variables?: Record<string, unknown>) => renderPage(project, project, filePath, variables);
+
+beforeEach(() => {
+    files.clear();
+    clearCaches();
+});
+
+describe("parseFrontMatter", () => {
+    it("splits the front-matter off", () => {
+        expect(parseFrontMatter("---\ntitle: Team\n---\n<h1></h1>")).toEqual({ data: { title: "Team" }, body: "<h1></h1>" });
+        expect(parseFrontMatter("<h1></h1>")).toEqual({ data: {}, body: "<h1></h1>" });
+    });
+
+    it("rejects front-matter that isn't key/value pairs", () => {
+        expect(() => parseFrontMatter("---\n- a\n- b\n---\n")).toThrow(TemplateError);
+        expect(() => parseFrontMatter("---\ntitle: [\n---\n")).toThrow("Invalid front-matter");
+    });
+});
+
+describe("renderPage", () => {
+    it("renders the front-matter, site data and additional variables", async () => {
+        files.set("team.html", "---\ntitle: Team\n---\n<h1>{{page.title}}</h1><ul>{{#each data.team}}<li>{{this}}</li>{{/each}}</ul>{{error.status}}");
+        files.set("_data.json", JSON.stringify({ team: ["Ada", "Linus"] }));
+
+        expect(await render("team.html", { error: { status: 404 } })).toBe("<h1>Team</h1><ul><li>Ada</li><li>Linus</li></ul>404");
+    });
+
+    it("only exposes the allowed project variables", async () => {
+        files.set("index.html", "{{name}} {{project.color}} {{folder}} [{{hosts}}] [{{project.id}}] [{{project.hosts}}]");
+
+        expect(await render("index.html")).toBe("Demo #ff0000 demo [] [] []");
+    });
+
+    it("escapes values unless inserted raw", async () => {
+        files.set("index.html", "{{data.html}} {{{data.html}}}");
+        files.set("_data.json", JSON.stringify({ html: "<b>&</b>" }));
+
+        expect(await render("index.html")).toBe("&lt;b&gt;&amp;&lt;/b&gt; <b>&</b>");
+    });
+
+    it("includes partials, also from other partials", async () => {
+        files.set("index.html", "{{> header}}<p>Body</p>");
+        files.set("_partials/header.html", "<header>{{> nav/menu}}</header>");
+        files.set("_partials/nav/menu.html", "<nav>{{name}}</nav>");
+
+        expect(await render("index.html")).toBe("<header><nav>Demo</nav></header><p>Body</p>");
+    });
+
+    it("reports missing partials and invalid data", async () => {
+        files.set("index.html", "{{> missing}}");
+        await expect(render("index.html")).rejects.toThrow('Partial "missing" not found, expected _partials/missing.html');
+
+        files.set("index.html", "{{> ../secret}}");
+        await expect(render("index.html")).rejects.toThrow("Invalid partial name");
+
+        files.set("index.html", "<p></p>");
+        files.set("_data.json", "{");
+        await expect(render("index.html")).rejects.toThrow(TemplateError);
+    });
+
+    it("reports template syntax errors with the file name", async () => {
+        files.set("index.html", "{{#if}}");
+
+        await expect(render("index.html")).rejects.toThrow(/^index\.html: /);
+    });
+});
+
+describe("layouts", () => {
+    it("wraps pages with the default layout unless they opt out", async () => {
+        files.set("_layout.html", "<main>{{{content}}}</main>");
+        files.set("index.html", "<p>{{name}}</p>");
+        files.set("plain.html", "---\nlayout: false\n---\n<p>Plain</p>");
+
+        expect(await render("index.html")).toBe("<main><p>Demo</p></main>");
+        expect(await render("plain.html")).toBe("<p>Plain</p>");
+    });
+
+    it("uses named layouts extending the default layout", async () => {
+        files.set("_layout.html", "---\ntitle: Site\n---\n<title>{{page.title}} - {{layout.title}}</title>{{{content}}}");
+        files.set("_layouts/post.html", "---\nlayout: default\n---\n<article>{{{content}}}</article>");
+        files.set("hello.html", "---\nlayout: post\ntitle: Hello\n---\n<p>Hi</p>");
+
+        expect(await render("hello.html")).toBe("<title>Hello - Site</title><article><p>Hi</p></article>");
+    });
+
+    it("uses the layout named after the top level folder", async () => {
+        files.set("_layout.html", "<main>{{{content}}}</main>");
+        files.set("_layouts/blog.html", "<article>{{{content}}}</article>");
+        files.set("blog/first.html", "<p>First</p>");
+        files.set("docs/intro.html", "<p>Intro</p>");
+
+        expect(await render("blog/first.html")).toBe("<article><p>First</p></article>");
+        expect(await render("docs/intro.html")).toBe("<main><p>Intro</p></main>");
+    });
+
+    it("reports missing and invalid layouts", async () => {
+        files.set("index.html", "---\nlayout: post\n---\n");
+        await expect(render("index.html")).rejects.toThrow('index.html: Layout "post" not found, expected _layouts/post.html');
+
+        files.set("index.html", "---\nlayout: ../post\n---\n");
+        await expect(render("index.html")).rejects.toThrow("Invalid layout name");
+    });
+
+    it("reports layouts extending each other in a cycle", async () => {
+        files.set("_layouts/a.html", "---\nlayout: b\n---\n{{{content}}}");
+        files.set("_layouts/b.html", "---\nlayout: a\n---\n{{{content}}}");
+        files.set("index.html", "---\nlayout: a\n---\n");
+
+        const result = render("index.html");
+        await expect(result).rejects.toThrow(TemplateError);
+        await expect(result).rejects.toThrow("in a cycle or too deep: _layouts/a.html > _layouts/b.html > _layouts/a.html");
+    });
+});
+
+describe("Markdown pages", () => {
+    it("renders Markdown without evaluating it as a template", async () => {
+        files.set("_layout.html", "<title>{{page.title}}</title><main>{{{content}}}</main>");
+        files.set("notes.md", "---\ntitle: Notes\n---\n# {{name}}");
+
+        expect(await render("notes.md")).toBe("<title>Notes</title><main><h1>{{name}}</h1>\n</main>");
+    });
+});
@@ -0,0 +1,331 @@
+import Handlebars from "handlebars";
+import { parse as parseYaml } from "yaml";
+import * as fileAccessService from "./fileAccessService.js";
+import { renderMarkdown } from "./markdown.js";
+import { FileNotFoundError, TemplateError } from "./errors.js";
+import { Project } from "../db/projects.js";
+import { pageCache, pageKey } from "./cacheService.js";
+
+/**
+ * Rendering of HTML pages and layouts with Handlebars
+ * Pages are wrapped with _layout.html or a named layout from _layouts/, layouts can extend each other.
+ * Pages and layouts can use partials from _partials/, front-matter and the site data of _data.json
+ * Markdown pages (*.md) are converted to HTML instead, then wrapped with their layouts like HTML pages
+ */
+
+// Default layout of the pages, layouts can refer to it as "default"
+export const LAYOUT_FILE = "_layout.html";
+
+// Folder holding the named layouts, "layout: post" uses _layouts/post.html
+export const LAYOUTS_FOLDER = "_layouts";
+
+// Name of the default layout, so named layouts can extend it
+const DEFAULT_LAYOUT = "default";
+
+// Layouts extending layouts extending layouts..., a longer chain is most likely a cycle
+const MAX_LAYOUT_DEPTH = 10;
+
+// Folder holding the partials, {{> header}} includes _partials/header.html
+export const PARTIALS_FOLDER = "_partials";
+
+// Site wide data available to every template as {{data.*}}
+export const DATA_FILE = "_data.json";
+
+// Project properties templates can use, anything else (like the hosts) stays private
+const PROJECT_VARIABLES = ["name", "color", "folder"] as const;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const TEMPLATE_NAME = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+export type FrontMatter = Record<string, unknown>;
+
+/**
+ * Split the YAML front-matter off a template
+ * @throws {TemplateError} if the front-matter is not a YAML mapping
+ */
+export function parseFrontMatter(source: string): { data: FrontMatter, body: string } {
+    const match = FRONT_MATTER.exec(source);
+    if (!match) {
+        return { data: {}, body: source };
+    }
+
+    let data: unknown;
+    try {
+        data = parseYaml(match[1]) ?? {};
+    } catch (error: any) {
+        throw new TemplateError(`Invalid front-matter: ${error.message}`);
+    }
+    if (typeof data !== "object" || Array.isArray(data)) {
+        throw new TemplateError("Invalid front-matter: expected key/value pairs");
+    }
+
+    return { data: data as FrontMatter, body: source.slice(match[0].length) };
+}
+
+/**
+ * Collect the names of the partials a template includes, dynamic partials are resolved at render time only
+ */
+function partialNames(program: hbs.AST.Program, names: Set<string> = new Set()): Set<string> {
+    for (const statement of program.body) {
+        const node = statement as {
+            type: string,
+            name?: hbs.AST.PathExpression | hbs.AST.SubExpression,
+            program?: hbs.AST.Program,
+            inverse?: hbs.AST.Program
+        };
+        if ((node.type === "PartialStatement" || node.type === "PartialBlockStatement") && node.name?.type === "PathExpression") {
+            names.add((node.name as hbs.AST.PathExpression).original);
+        }
+        if (node.program) {
+            partialNames(node.program, names);
+        }
+        if (node.inverse) {
+            partialNames(node.inverse, names);
+        }
+    }
+    return names;
+}
+
+/**
+ * Parse a template and load the partials it includes, recursively
+ */
+async function loadPartials(
+    root: fileAccessService.FileRoot,
+    name: string,
+    source: string,
+    partials: Record<string, string>
+): Promise<void> {
+    let program: hbs.AST.Program;
+    try {
+        program = Handlebars.parse(source);
+    } catch (error: any) {
+        throw new TemplateError(`${name}: ${error.message}`);
+    }
+
+    for (const partial of partialNames(program)) {
+        // @partial-block refers to the block passed to a partial, not to a file
+        if (partial in partials || partial === "@partial-block") {
+            continue;
+        }
+        if (!TEMPLATE_NAME.test(partial)) {
+            throw new TemplateError(`${name}: Invalid partial name "${partial}"`);
+        }
+
+        const partialPath = `${PARTIALS_FOLDER}/${partial}.html`;
+        try {
+            partials[partial] = await fileAccessService.readFile(root, partialPath);
+        } catch (error) {
+            if (error instanceof FileNotFoundError) {
+                throw new TemplateError(`${name}: Partial "${partial}" not found, expected ${partialPath}`);
+            }
+            throw error;
+        }
+        await loadPartials(root, partialPath, partials[partial], partials);
+    }
+}
+
+/**
+ * Read a file of the project, undefined if it doesn't exist
+ */
+async function readOptionalFile(root: fileAccessService.FileRoot, filePath: string): Promise<string | undefined> {
+    try {
+        return await fileAccessService.readFile(root, filePath);
+    } catch (error) {
+        if (error instanceof FileNotFoundError) {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Read the site data of a project
+ * @throws {TemplateError} if the data file is not valid JSON
+ */
+async function readSiteData(root: fileAccessService.FileRoot): Promise<unknown> {
+    const content = await readOptionalFile(root, DATA_FILE);
+    if (content === undefined) {
+        return {};
+    }
+
+    try {
+        return JSON.parse(content);
+    } catch (error: any) {
+        throw new TemplateError(`Invalid ${DATA_FILE}: ${error.message}`);
+    }
+}
+
+/**
+ * Render one template with its partials
+ */
+async function renderTemplate(
+    root: fileAccessService.FileRoot,
+    name: string,
+    source: string,
+    context: Record<string, unknown>,
+    partials: Record<string, string>
+): Promise<string> {
+    await loadPartials(root, name, source, partials);
+
+    // An isolated environment, so the partials of one project never leak into another
+    const handlebars = Handlebars.create();
+    handlebars.registerPartial(partials);
+
+    try {
+        return handlebars.compile(source)(context);
+    } catch (error: any) {
+        throw new TemplateError(`${name}: ${error.message}`);
+    }
+}
+
+type Layout = { path: string, source: string };
+
+/**
+ * Read the layout a page or layout names in its front-matter
+ * @param templateName - The page or layout naming it, for the error messages
+ * @throws {TemplateError} if the name is invalid or the layout doesn't exist
+ */
+async function readNamedLayout(root: fileAccessService.FileRoot, name: unknown, templateName: string): Promise<Layout> {
+    if (typeof name !== "string" || !TEMPLATE_NAME.test(name)) {
+        throw new TemplateError(`${templateName}: Invalid layout name ${JSON.stringify(name)}`);
+    }
+
+    const path = name === DEFAULT_LAYOUT ? LAYOUT_FILE : `${LAYOUTS_FOLDER}/${name}.html`;
+    const source = await readOptionalFile(root, path);
+    if (source === undefined) {
+        throw new TemplateError(`${templateName}: Layout "${name}" not found, expected ${path}`);
+    }
+    return { path, source };
+}
+
+/**
+ * Find the layout of a page
+ * Without a layout in its front-matter, a page uses the layout named after its top level folder
+ * (blog/post.html uses _layouts/blog.html) if there is one, the default layout otherwise
+ * @returns The path and source of the layout, undefined if the page has none
+ * @throws {TemplateError} if the layout the page names doesn't exist
+ */
+async function findPageLayout(
+    root: fileAccessService.FileRoot,
+    filePath: string,
+    page: FrontMatter
+): Promise<Layout | undefined> {
+    if (page.layout === false) {
+        return undefined;
+    }
+
+    if (page.layout !== undefined && page.layout !== null) {
+        return readNamedLayout(root, page.layout, filePath);
+    }
+
+    const folder = filePath.split("/")[0];
+    if (folder !== filePath && TEMPLATE_NAME.test(folder)) {
+        const path = `${LAYOUTS_FOLDER}/${folder}.html`;
+        const source = await readOptionalFile(root, path);
+        if (source !== undefined) {
+            return { path, source };
+        }
+    }
+
+    const source = await readOptionalFile(root, LAYOUT_FILE);
+    return source !== undefined ? { path: LAYOUT_FILE, source } : undefined;
+}
+
+/**
+ * Render an HTML or Markdown page of a project and wrap it with its layouts
+ * Templates see the allowed project variables as {{name}} or {{project.name}}, the front-matter of the page
+ * as {{page.*}}, the front-matter of the layout being rendered as {{layout.*}} and the site data as {{data.*}}.
+ * Values are HTML-escaped unless written as {{{value}}}. Markdown pages are not templates themselves,
+ * so code samples with braces are shown as written.
+ * A layout extends another layout by naming it in its own front-matter, like a page does.
+ * Rendered pages are cached until a file of their storage root or the project changes.
+ * @param root - The project or version to read the page from
+ * @param project - The project the page belongs to
+ * @param filePath - The path of the page within the project
+ * @param variables - Additional variables for the templates, like the error an error page is shown for
+ * @throws {FileNotFoundError} if the page doesn't exist
+ * @throws {TemplateError} if the page or one of its layouts can't be rendered or doesn't exist
+ */
+export async function renderPage(
+    root: fileAccessService.FileRoot,
+    project: Project,
+    filePath: string,
+    variables: Record<string, unknown> = {}
+): Promise<string> {
+    const key = pageKey(root, filePath, variables);
+    const cached = pageCache.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const html = await renderUncachedPage(root, project, filePath, variables);
+    pageCache.set(key, html);
+    return html;
+}
+
+/**
+ * Render a page with its layouts, see renderPage()
+ */
+async function renderUncachedPage(
+    root: fileAccessService.FileRoot,
+    project: Project,
+    filePath: string,
+    variables: Record<string, unknown>
+): Promise<string> {
+    const { data: page, body } = parseFrontMatter(await fileAccessService.readFile(root, filePath));
+
+    const projectVariables = Object.fromEntries(PROJECT_VARIABLES.map(variable => [variable, project[variable]]));
+    const context: Record<string, unknown> = {
+        ...projectVariables,
+        project: projectVariables,
+        page,
+        data: await readSiteData(root),
+        ...variables
+    };
+    const partials: Record<string, string> = {};
+
+    let content = filePath.endsWith(".md")
+        ? renderMarkdown(body)
+        : await renderTemplate(root, filePath, body, context, partials);
+
+    // Render the layouts from the inside out, each one inserts the previous result as {{content}}
+    const chain: string[] = [];
+    let layout: Layout | undefined = await findPageLayout(root, filePath, page);
+    while (layout) {
+        chain.push(layout.path);
+        if (chain.length > MAX_LAYOUT_DEPTH || chain.indexOf(layout.path) !== chain.length - 1) {
+            throw new TemplateError(`${filePath}: Layouts extend each other in a cycle or too deep: ${chain.join(" > ")}`);
+        }
+
+        const { data: layoutData, body: layoutBody } = parseFrontMatter(layout.source);
+        // The rendered HTML is inserted without escaping
+        content = await renderTemplate(root, layout.path, layoutBody, {
+            ...context,
+            layout: layoutData,
+            content: new Handlebars.SafeString(content)
+        }, partials);
+
+        layout = layoutData.layout === undefined || layoutData.layout === null || layoutData.layout === false
+            ? undefined
+            : await readNamedLayout(root, layoutData.layout, layout.path);
+    }
+
+    return content;
+}
+
+/**
+ * Minimal error page for projects without their own
+ */
+export function defaultErrorPage(status: number, message: string, details?: string): string {
+    const title = `${status} ${Handlebars.escapeExpression(message)}`;
+    const detailsHtml = details ? `<pre>${Handlebars.escapeExpression(details)}</pre>\n` : "";
+
+    return `<!DOCTYPE html>
+<html>
+<head><title>${title}</title></head>
+<body>
+<h1>${title}</h1>
+${detailsHtml}</body>
+</html>
+`;
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { isHidden, isTemplateSource, resolveUrl, UrlOptions } from "./urlResolver.js";
+import { clearCaches } from "./cacheService.js";
+
+// Files of the project
+const files = vi.hoisted(() => new Set<string>());
+
+const fileExists = vi.hoisted(() => vi.fn(async (root: unknown, filePath: string) => files.has(filePath)));
+
+vi.mock("./fileAccessService.js", async importOriginal => ({
+    ...await importOriginal<typeof import("./fileAccessService.js")>(),
+    fileExists
+}));
+
+const defaults: UrlOptions = { extensionless: true, directoryIndex: ["index.html", "index.md"], trailingSlash: "always", canonical: false };
+
+const resolve = (urlPath: string, options: Partial<UrlOptions> = {}) => resolveUrl({ folder: "demo" }, urlPath, { ...defaults, ...options });
+
+beforeEach(() => {
+    files.clear();
+    fileExists.mockClear();
+    clearCaches();
+});
+
+describe("isHidden", () => {
+    it("hides functions, instructions and rules", () => {
+        expect(isHidden("api/hello.js")).toBe(true);
+        expect(isHidden("_assistant.md")).toBe(true);
+        expect(isHidden("_redirects")).toBe(true);
+        expect(isHidden("./_routes.json")).toBe(true);
+    });
+
+    it("hides their compressed variants", () => {
+        expect(isHidden("_routes.json.gz")).toBe(true);
+        expect(isHidden("api/hello.js.br")).toBe(true);
+    });
+
+    it("serves other files", () => {
+        expect(isHidden("index.html")).toBe(false);
+        expect(isHidden("style.css.gz")).toBe(false);
+        expect(isHidden("docs/api/index.html")).toBe(false);
+        expect(isHidden("apis.json")).toBe(false);
+    });
+});
+
+describe("isTemplateSource", () => {
+    it("finds layouts, partials, site data and configuration", () => {
+        expect(isTemplateSource("_layout.html")).toBe(true);
+        expect(isTemplateSource("_layouts/post.html")).toBe(true);
+        expect(isTemplateSource("_partials/nav/header.html")).toBe(true);
+        expect(isTemplateSource("/_data.json")).toBe(true);
+        expect(isTemplateSource("_config.json")).toBe(true);
+    });
+
+    it("finds their compressed variants", () => {
+        expect(isTemplateSource("_data.json.gz")).toBe(true);
+        expect(isTemplateSource("_partials/header.html.br")).toBe(true);
+    });
+
+    it("leaves other files alone", () => {
+        expect(isTemplateSource("layout.html")).toBe(false);
+        expect(isTemplateSource("blog/_layout.html")).toBe(false);
+        expect(isTemplateSource("_layouts.html")).toBe(false);
+    });
+});
+
+describe("resolveUrl", () => {
+    it("finds pages without their extension", async () => {
+        files.add("team.html").add("notes.md").add("LICENSE");
+
+        expect(await resolve("/team")).toEqual({ type: "page", path: "team.html" });
+        expect(await resolve("/notes")).toEqual({ type: "page", path: "notes.md" });
+        expect(await resolve("/LICENSE")).toEqual({ type: "file", path: "LICENSE" });
+        expect(await resolve("/team", { extensionless: false })).toEqual({ type: "notFound" });
+    });
+
+    it("serves files with an extension without a lookup", async () => {
+        expect(await resolve("/style.css")).toEqual({ type: "file", path: "style.css" });
+        expect(fileExists).not.toHaveBeenCalled();
+    });
+
+    it("serves .html URLs of Markdown pages", async () => {
+        files.add("notes.md");
+
+        expect(await resolve("/notes.html")).toEqual({ type: "page", path: "notes.md" });
+        expect(await resolve("/missing.html")).toEqual({ type: "notFound" });
+    });
+
+    it("serves directory indexes in order of preference", async () => {
+        files.add("index.md").add("blog/index.html").add("blog/index.md");
+
+        expect(await resolve("/")).toEqual({ type: "page", path: "index.md" });
+        expect(await resolve("/blog/")).toEqual({ type: "page", path: "blog/index.html" });
+        expect(await resolve("/blog/", { directoryIndex: ["index.md"] })).toEqual({ type: "page", path: "blog/index.md" });
+        expect(await resolve("/docs/")).toEqual({ type: "notFound" });
+    });
+
+    it("follows the trailing slash setting for directories", async () => {
+        files.add("blog/index.html");
+
+        expect(await resolve("/blog")).toEqual({ type: "redirect", location: "/blog/" });
+        expect(await resolve("/blog/", { trailingSlash: "never" })).toEqual({ type: "redirect", location: "/blog" });
+        expect(await resolve("/blog", { trailingSlash: "never" })).toEqual({ type: "page", path: "blog/index.html" });
+        expect(await resolve("/blog", { trailingSlash: "ignore" })).toEqual({ type: "page", path: "blog/index.html" });
+    });
+
+    it("redirects pages requested as directories unless trailing slashes are ignored", async () => {
+        files.add("about.html");
+
+        expect(await resolve("/about/")).toEqual({ type: "redirect", location: "/about" });
+        expect(await resolve("/about/", { trailingSlash: "ignore" })).toEqual({ type: "page", path: "about.html" });
+        expect(await resolve("/about/", { extensionless: false })).toEqual({ type: "notFound" });
+    });
+
+    it("redirects to canonical URLs", async () => {
+        files.add("team.html").add("index.html").add("blog/index.html");
+
+        expect(await resolve("/team.html", { canonical: true })).toEqual({ type: "redirect", location: "/team" });
+        expect(await resolve("/index.html", { canonical: true })).toEqual({ type: "redirect", location: "/" });
+        expect(await resolve("/blog/index.html", { canonical: true })).toEqual({ type: "redirect", location: "/blog/" });
+        expect(await resolve("/blog/index.html", { canonical: true, trailingSlash: "never" }))
+            .toEqual({ type: "redirect", location: "/blog" });
+        expect(await resolve("/team.html", { canonical: true, extensionless: false })).toEqual({ type: "page", path: "team.html" });
+    });
+
+    it("looks up a URL once", async () => {
+        files.add("blog/index.html");
+
+        await resolve("/blog/");
+        const lookups = fileExists.mock.calls.length;
+        expect(await resolve("/blog/")).toEqual({ type: "page", path: "blog/index.html" });
+        expect(fileExists).toHaveBeenCalledTimes(lookups);
+    });
+});
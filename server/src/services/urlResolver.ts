@@ -0,0 +1,186 @@
+import { posix } from "path";
+import * as fileAccessService from "./fileAccessService.js";
+import { SiteConfig } from "./siteConfig.js";
+import { REDIRECTS_FILE, ROUTES_FILE } from "./routeRules.js";
+import { INSTRUCTIONS_FILE } from "./assistantInstructions.js";
+import { FUNCTIONS_FOLDER } from "../middleware/functionHandler.js";
+import { SITE_CONFIG_FILE } from "./siteConfig.js";
+import { LAYOUT_FILE, LAYOUTS_FOLDER, PARTIALS_FOLDER, DATA_FILE } from "./templateService.js";
+import { urlCache, urlKey } from "./cacheService.js";
+
+/**
+ * Resolution of request paths to the files of a project: extensionless URLs, directory indexes,
+ * trailing slashes and canonical redirects, configured in the "urls" section of _config.json
+ */
+
+export type UrlOptions = SiteConfig["urls"];
+
+export type UrlResolution =
+    // An HTML or Markdown page, rendered with its layouts
+    | { type: "page", path: string }
+    // Any other file, served as is
+    | { type: "file", path: string }
+    | { type: "redirect", location: string }
+    | { type: "notFound" };
+
+const PAGE_EXTENSIONS = [".html", ".md"];
+
+const NOT_FOUND: UrlResolution = { type: "notFound" };
+
+// Files of a project that are never served
+const HIDDEN_FILES = [INSTRUCTIONS_FILE, REDIRECTS_FILE, ROUTES_FILE];
+
+// Inputs of the rendered pages, only served as they are if _config.json allows it
+const TEMPLATE_FILES = [LAYOUT_FILE, DATA_FILE, SITE_CONFIG_FILE];
+const TEMPLATE_FOLDERS = [LAYOUTS_FOLDER, PARTIALS_FOLDER];
+
+// Compressed variants stored next to a file (see compression), hidden together with it
+const VARIANT_SUFFIX = /\.(br|gz)$/;
+
+/**
+ * Normalize the path of a file or one of its compressed variants to the path of the file
+ */
+function sourcePath(filePath: string): string {
+    return posix.normalize(filePath).replace(/^\/+/, "").replace(VARIANT_SUFFIX, "");
+}
+
+/**
+ * Whether a path is a folder or within it
+ */
+function inFolder(filePath: string, folder: string): boolean {
+    return filePath === folder || filePath.startsWith(`${folder}/`);
+}
+
+/**
+ * Whether a file must not be served: the source of serverless functions, the instructions of the assistant
+ * and the redirect rules, or a compressed variant of one of them
+ */
+export function isHidden(filePath: string): boolean {
+    const normalizedPath = sourcePath(filePath);
+    return inFolder(normalizedPath, FUNCTIONS_FOLDER) || HIDDEN_FILES.includes(normalizedPath);
+}
+
+/**
+ * Whether a file is a layout, partial, the site data or configuration, or a compressed variant of one of them
+ * They are hidden unless the project allows serving them (see SiteConfig templates.allowSource)
+ */
+export function isTemplateSource(filePath: string): boolean {
+    const normalizedPath = sourcePath(filePath);
+    return TEMPLATE_FILES.includes(normalizedPath) || TEMPLATE_FOLDERS.some(folder => inFolder(normalizedPath, folder));
+}
+
+/**
+ * Whether a file is rendered as a page
+ */
+export function isPage(filePath: string): boolean {
+    return PAGE_EXTENSIONS.includes(posix.extname(filePath).toLowerCase());
+}
+
+/**
+ * Find the first of the candidates that exists, checked one after the other so the most likely one costs a single lookup
+ */
+async function firstExisting(root: fileAccessService.FileRoot, candidates: string[]): Promise<string | undefined> {
+    for (const candidate of candidates) {
+        if (await fileAccessService.fileExists(root, candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Resolve a file found for a URL
+ */
+function found(filePath: string): UrlResolution {
+    return { type: isPage(filePath) ? "page" : "file", path: filePath };
+}
+
+/**
+ * URL of a directory, following the trailing slash setting
+ * @param directory - The directory path without leading or trailing slash, empty for the root
+ */
+function directoryUrl(directory: string, options: UrlOptions): string {
+    return directory === "" || options.trailingSlash !== "never" ? `/${directory}${directory ? "/" : ""}` : `/${directory}`;
+}
+
+/**
+ * Resolve a request path to a file of the project
+ * Paths with an extension other than .html are served as is without a lookup, the caller handles missing files.
+ * Pages are looked up as team.html, team.md, then the file team itself, then the directory index of team/.
+ * @param root - The project or version to resolve against
+ * @param urlPath - The request path, starting with a slash
+ * @param options - The URL settings of the project
+ */
+export async function resolveUrl(root: fileAccessService.FileRoot, urlPath: string, options: UrlOptions): Promise<UrlResolution> {
+    const key = urlKey(root, urlPath, options);
+    const cached = urlCache.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const resolution = await lookUpUrl(root, urlPath, options);
+    urlCache.set(key, resolution);
+    return resolution;
+}
+
+/**
+ * Look up the file of a request path in storage, see resolveUrl()
+ */
+async function lookUpUrl(root: fileAccessService.FileRoot, urlPath: string, options: UrlOptions): Promise<UrlResolution> {
+    const filePath = urlPath.replace(/^\/+/, "");
+    const ext = posix.extname(filePath).toLowerCase();
+    const indexes = (directory: string) => options.directoryIndex.map(index => directory ? `${directory}/${index}` : index);
+
+    // A directory: its index, or the page of the same name for /about/
+    if (filePath === "" || filePath.endsWith("/")) {
+        const directory = filePath.slice(0, -1);
+        const index = await firstExisting(root, indexes(directory));
+        if (index) {
+            return directory !== "" && options.trailingSlash === "never"
+                ? { type: "redirect", location: `/${directory}` }
+                : found(index);
+        }
+
+        const page = options.extensionless && directory !== ""
+            ? await firstExisting(root, PAGE_EXTENSIONS.map(extension => `${directory}${extension}`))
+            : undefined;
+        if (!page) {
+            return NOT_FOUND;
+        }
+        return options.trailingSlash === "ignore" ? found(page) : { type: "redirect", location: `/${directory}` };
+    }
+
+    if (ext === ".html") {
+        const base = filePath.slice(0, -ext.length);
+        const page = await firstExisting(root, [filePath, `${base}.md`]);
+        if (!page) {
+            return NOT_FOUND;
+        }
+        if (!options.canonical || !options.extensionless) {
+            return found(page);
+        }
+
+        // Indexes are canonical at their directory
+        if (options.directoryIndex.includes(posix.basename(page))) {
+            const directory = posix.dirname(filePath);
+            return { type: "redirect", location: directoryUrl(directory === "." ? "" : directory, options) };
+        }
+        return { type: "redirect", location: `/${base}` };
+    }
+
+    if (ext !== "") {
+        return { type: "file", path: filePath };
+    }
+
+    const candidates = options.extensionless ? [...PAGE_EXTENSIONS.map(extension => `${filePath}${extension}`), filePath] : [filePath];
+    const file = await firstExisting(root, candidates);
+    if (file) {
+        return found(file);
+    }
+
+    const index = await firstExisting(root, indexes(filePath));
+    if (!index) {
+        return NOT_FOUND;
+    }
+    return options.trailingSlash === "always" ? { type: "redirect", location: `/${filePath}/` } : found(index);
+}